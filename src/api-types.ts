@@ -1,11 +1,254 @@
+import type { CampaignArchive } from "./archive";
+import type { CharacterInput } from "./character";
+import type { DmEffect } from "./effects";
+import type { ItemProperties, ItemType, Purse } from "./inventory";
+import type { CombatState, Message, Player } from "./session";
+
 export interface ActionPayload {
   sessionId: string;
   playerId: string;
   playerAction: string;
 }
 
+export interface RollPayload {
+  sessionId: string;
+  playerId: string;
+  notation: string;
+  label?: string;
+}
+
+export interface TurnPayload {
+  sessionId: string;
+  playerId: string;
+  intent: "delay" | "ready";
+  // Delay: act right after this combatant (defaults to the end of the round).
+  after?: string;
+  // Ready: the circumstance that sets off the readied action.
+  trigger?: string;
+}
+
+export interface InventoryPayload {
+  sessionId: string;
+  playerId: string;
+  intent: "add" | "remove" | "equip" | "unequip" | "coins";
+  // Every intent but coins names an item.
+  item?: string;
+  // Add and remove only; defaults to 1.
+  quantity?: number;
+  // Add only: details for items the catalog does not know, or overrides for ones it does.
+  type?: ItemType;
+  weight?: number;
+  properties?: ItemProperties;
+  // Coins only: signed changes, e.g. { "gp": -5 } to pay five gold.
+  coins?: Partial<Purse>;
+}
+
+export interface ModerationPayload {
+  sessionId: string;
+  // The session owner issuing the command.
+  playerId: string;
+  // invite replaces a private session's invite code, so the old one stops working.
+  intent: "kick" | "ban" | "transfer" | "end" | "invite";
+  // Kick, ban and transfer name the player they apply to.
+  target?: string;
+}
+
+export interface ReviewPayload {
+  sessionId: string;
+  // The DM (the session owner) deciding on the draft.
+  playerId: string;
+  intent: "approve" | "edit" | "regenerate" | "reject";
+  draftId: string;
+  // Edit: replacement narration. Reject: an optional note to the table in place of the default one.
+  text?: string;
+  // Edit only: replacement effects; an empty list means the narration changes nothing.
+  effects?: DmEffect[];
+}
+
+export interface RewindPayload {
+  sessionId: string;
+  // The session owner; only they can take a turn back.
+  playerId: string;
+  // undo drops the last action with its dice and outcome; reroll keeps the action and dice and asks
+  // the DM to answer it again.
+  intent: "undo" | "reroll";
+}
+
+export interface ImportPayload {
+  // The new session to restore into; it must be empty.
+  sessionId: string;
+  // A player in the archive, who becomes the restored session's owner. They authorize with their
+  // token from the archive's original session.
+  playerId: string;
+  archive: CampaignArchive;
+}
+
+export interface HistoryQuery {
+  // Exclusive seq cursor: the page ends just before it. Omitted for the newest page.
+  before?: number;
+  limit: number;
+}
+
+/**
+ * One page of /api/session/history, oldest message first.
+ */
+export interface HistoryPage {
+  messages: Message[];
+  // Pass as `before` for the next older page; null once the start of the campaign is reached.
+  nextCursor: number | null;
+}
+
 export interface JoinPayload {
   sessionId: string;
   playerId: string;
   name: string;
+  // Only used the first time a player joins; rejoining keeps the existing sheet.
+  character?: CharacterInput;
+  // Only used by the first player, who creates the session.
+  settings?: SessionSettingsInput;
+  // Needed by new players joining a private session.
+  inviteCode?: string;
+}
+
+// Only public sessions are listed in the lobby. Anyone with the session ID can join an unlisted
+// one; private ones also need the invite code, and only show their state to players at the table.
+export type SessionVisibility = "public" | "unlisted" | "private";
+
+export interface SessionSettings {
+  title: string;
+  description: string;
+  maxPlayers: number;
+  visibility: SessionVisibility;
+  // The owner acts as a human DM: AI narration waits in a review queue until they approve it.
+  review: boolean;
+  // The model that narrates this session; null uses the server's default (see src/llm.ts).
+  llm: LlmChoice | null;
+}
+
+export type LlmProviderName = "workers-ai" | "openai" | "scripted";
+
+export interface LlmModel {
+  provider: LlmProviderName;
+  // A Workers AI model ID, a model served by the configured OpenAI-compatible endpoint, or a script name.
+  model: string;
+}
+
+export interface LlmChoice extends LlmModel {
+  // Asked instead once the primary model has used up its retries.
+  fallback?: LlmModel;
+}
+
+export type SessionSettingsInput = Partial<SessionSettings>;
+
+/**
+ * A session as the lobby sees it, pushed to the SessionRegistry by its coordinator.
+ */
+export interface SessionListing extends SessionSettings {
+  sessionId: string;
+  playerCount: number;
+  createdAt: number;
+  lastActivity: number;
+  inCombat: boolean;
+  // New players need the invite code (private sessions, and public ones with bans), so no seat is open to everyone.
+  inviteOnly: boolean;
 }
+
+export interface SessionListQuery {
+  sort: "lastActivity" | "createdAt" | "players" | "title";
+  order: "asc" | "desc";
+  // Only sessions with fewer players than seats.
+  openSeats: boolean;
+  // Only sessions with recent activity (see ACTIVE_WINDOW_MS).
+  active: boolean;
+  offset: number;
+  limit: number;
+}
+
+/**
+ * One page of /api/sessions.
+ */
+export interface SessionListPage {
+  sessions: SessionListing[];
+  // Matching sessions across all pages.
+  total: number;
+  // Pass as `offset` for the next page; null on the last one.
+  nextOffset: number | null;
+}
+
+/**
+ * Body of an /api/session/action response once the DM has narrated an action.
+ */
+export interface ActionResult {
+  result: string;
+  thinking: string;
+  // The AI failed or its stream broke: the turn got fallback text and no effects.
+  degraded: boolean;
+  reset: false;
+  outcome?: "defeat";
+  state: { players: Player[]; combat: CombatState };
+}
+
+/**
+ * Body of an /api/session/action response in review mode: the narration went to the DM, and the
+ * table sees it only once they approve it.
+ */
+export interface PendingActionResult {
+  result: null;
+  pending: true;
+  draftId: string;
+  reset: false;
+  state: { players: Player[]; combat: CombatState };
+}
+
+/**
+ * An AI narration waiting for the DM in review mode. Nothing in it has reached the players or
+ * changed the game yet.
+ */
+export interface ReviewDraft {
+  id: string;
+  playerId: string;
+  playerName: string;
+  // The action as the player typed it.
+  action: string;
+  text: string;
+  thinking: string;
+  // Proposed outcomes; null when the model gave none, in which case the prose is scraped on approval.
+  effects: DmEffect[] | null;
+  degraded: boolean;
+  createdAt: number;
+}
+
+/**
+ * A DM answer that a reroll replaced. The last few are kept with the turn so the owner can compare.
+ */
+export interface DiscardedVariant {
+  text: string;
+  thinking: string;
+  effects: DmEffect[] | null;
+  degraded: boolean;
+  discardedAt: number;
+}
+
+/**
+ * Server-sent events on /api/session/action/stream: narration and thinking deltas while the DM
+ * writes, then exactly one done (the /api/session/action body) or error.
+ */
+export type ActionStreamEvent =
+  | { event: "narration" | "thinking"; data: { text: string } }
+  | { event: "done"; data: ActionResult | PendingActionResult }
+  | { event: "error"; data: { error: string } };
+
+/**
+ * Events pushed from a SessionCoordinator to connected WebSocket clients. Drafts go only to the
+ * DM's own sockets; everything else goes to every socket.
+ */
+export type SessionEvent =
+  | { type: "snapshot"; players: Player[]; messages: Message[]; combat: CombatState; ownerId: string | null }
+  | { type: "message"; message: Message }
+  | { type: "players"; players: Player[] }
+  | { type: "combat"; combat: CombatState }
+  | { type: "owner"; ownerId: string | null }
+  | { type: "drafts"; drafts: ReviewDraft[] }
+  // The owner took back or rerolled the last turn: messages from `seq` on are gone.
+  | { type: "rewind"; seq: number; intent: RewindPayload["intent"]; playerName: string }
+  | { type: "reset"; message: string };
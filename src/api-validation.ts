@@ -1,4 +1,12 @@
-import { ActionPayload, JoinPayload } from "./api-types";
+import { ActionPayload, HistoryQuery, ImportPayload, InventoryPayload, JoinPayload, LlmChoice, LlmModel, ModerationPayload, ReviewPayload, RewindPayload, RollPayload, SessionListQuery, SessionSettingsInput, TurnPayload } from "./api-types";
+import { ARCHIVE_FORMAT, ARCHIVE_VERSION, CampaignArchive } from "./archive";
+import { isStatBlock } from "./bestiary";
+import { CharacterInput, isCharacterSheet } from "./character";
+import { isCondition } from "./conditions";
+import { isDeathSaves } from "./dying";
+import { isDmEffect } from "./effects";
+import { COINS, isCoinChange, isItem, isItemProperties, isItemType, isPurse, MAX_ITEM_QUANTITY } from "./inventory";
+import { MAX_DESCRIPTION_LENGTH, MAX_PLAYERS, MAX_TITLE_LENGTH } from "./lobby";
 
 /**
  * Narrow an unknown body to ActionPayload without bringing in a validation library.
@@ -10,6 +18,135 @@ export function isActionPayload(body: unknown): body is ActionPayload {
     && typeof (body as ActionPayload).playerAction === "string";
 }
 
+/**
+ * Narrow an unknown body to RollPayload; notation itself is checked by the dice engine.
+ */
+export function isRollPayload(body: unknown): body is RollPayload {
+  return typeof body === "object" && body !== null
+    && typeof (body as RollPayload).sessionId === "string"
+    && typeof (body as RollPayload).playerId === "string"
+    && typeof (body as RollPayload).notation === "string"
+    && ((body as RollPayload).label === undefined || typeof (body as RollPayload).label === "string");
+}
+
+/**
+ * Narrow an unknown body to TurnPayload.
+ */
+export function isTurnPayload(body: unknown): body is TurnPayload {
+  return typeof body === "object" && body !== null
+    && typeof (body as TurnPayload).sessionId === "string"
+    && typeof (body as TurnPayload).playerId === "string"
+    && ((body as TurnPayload).intent === "delay" || (body as TurnPayload).intent === "ready")
+    && ((body as TurnPayload).after === undefined || typeof (body as TurnPayload).after === "string")
+    && ((body as TurnPayload).trigger === undefined || typeof (body as TurnPayload).trigger === "string");
+}
+
+const isOptional = (value: unknown, check: (value: unknown) => boolean) => value === undefined || check(value);
+
+/**
+ * Narrow an unknown body to InventoryPayload, including the fields each intent needs.
+ */
+export function isInventoryPayload(body: unknown): body is InventoryPayload {
+  if (typeof body !== "object" || body === null) return false;
+  const payload = body as InventoryPayload;
+  const shaped = typeof payload.sessionId === "string"
+    && typeof payload.playerId === "string"
+    && ["add", "remove", "equip", "unequip", "coins"].includes(payload.intent)
+    && isOptional(payload.item, v => typeof v === "string" && v.trim().length > 0)
+    && isOptional(payload.quantity, v => Number.isInteger(v) && (v as number) > 0 && (v as number) <= MAX_ITEM_QUANTITY)
+    && isOptional(payload.type, isItemType)
+    && isOptional(payload.weight, v => typeof v === "number" && Number.isFinite(v) && v >= 0)
+    && isOptional(payload.properties, isItemProperties)
+    && isOptional(payload.coins, v => typeof v === "object" && v !== null
+      && COINS.every(coin => isOptional((v as Record<string, unknown>)[coin], isCoinChange)));
+  if (!shaped) return false;
+  return payload.intent === "coins" ? payload.coins !== undefined : payload.item !== undefined;
+}
+
+/**
+ * Narrow an unknown body to ModerationPayload, including the target kick, ban and transfer need.
+ */
+export function isModerationPayload(body: unknown): body is ModerationPayload {
+  if (typeof body !== "object" || body === null) return false;
+  const payload = body as ModerationPayload;
+  const shaped = typeof payload.sessionId === "string"
+    && typeof payload.playerId === "string"
+    && ["kick", "ban", "transfer", "end", "invite"].includes(payload.intent)
+    && isOptional(payload.target, v => typeof v === "string" && v.length > 0);
+  if (!shaped) return false;
+  return payload.intent === "end" || payload.intent === "invite" || payload.target !== undefined;
+}
+
+/**
+ * Narrow an unknown body to ReviewPayload. An edit must replace the text, the effects or both.
+ */
+export function isReviewPayload(body: unknown): body is ReviewPayload {
+  if (typeof body !== "object" || body === null) return false;
+  const payload = body as ReviewPayload;
+  const shaped = typeof payload.sessionId === "string"
+    && typeof payload.playerId === "string"
+    && ["approve", "edit", "regenerate", "reject"].includes(payload.intent)
+    && typeof payload.draftId === "string"
+    && isOptional(payload.text, v => typeof v === "string" && v.trim().length > 0)
+    && isOptional(payload.effects, v => Array.isArray(v) && v.every(isDmEffect));
+  if (!shaped) return false;
+  return payload.intent !== "edit" || payload.text !== undefined || payload.effects !== undefined;
+}
+
+/**
+ * Narrow an unknown body to RewindPayload.
+ */
+export function isRewindPayload(body: unknown): body is RewindPayload {
+  if (typeof body !== "object" || body === null) return false;
+  const payload = body as RewindPayload;
+  return typeof payload.sessionId === "string"
+    && typeof payload.playerId === "string"
+    && ["undo", "reroll"].includes(payload.intent);
+}
+
+/**
+ * Shape check for character creation input; rules (standard array, point buy, skills) live in character.ts.
+ */
+export function isCharacterInput(body: unknown): body is CharacterInput {
+  if (typeof body !== "object" || body === null) return false;
+  const input = body as CharacterInput;
+  return typeof input.race === "string"
+    && typeof input.className === "string"
+    && (input.method === undefined || input.method === "standard" || input.method === "pointbuy")
+    && (input.abilities === undefined || (typeof input.abilities === "object" && input.abilities !== null))
+    && (input.skills === undefined || (Array.isArray(input.skills) && input.skills.every(skill => typeof skill === "string")));
+}
+
+/**
+ * Shape and bounds check for the settings a session is created with.
+ */
+export function isSessionSettingsInput(body: unknown): body is SessionSettingsInput {
+  if (typeof body !== "object" || body === null) return false;
+  const input = body as SessionSettingsInput;
+  return isOptional(input.title, v => typeof v === "string" && v.length <= MAX_TITLE_LENGTH)
+    && isOptional(input.description, v => typeof v === "string" && v.length <= MAX_DESCRIPTION_LENGTH)
+    && isOptional(input.maxPlayers, v => Number.isInteger(v) && (v as number) >= 1 && (v as number) <= MAX_PLAYERS)
+    && isOptional(input.visibility, v => v === "public" || v === "unlisted" || v === "private")
+    && isOptional(input.review, v => typeof v === "boolean")
+    && isOptional(input.llm, v => v === null || isLlmChoice(v));
+}
+
+const LLM_PROVIDERS = ["workers-ai", "openai", "scripted"];
+const MAX_MODEL_LENGTH = 200;
+
+export function isLlmModel(body: unknown): body is LlmModel {
+  if (typeof body !== "object" || body === null) return false;
+  const { provider, model } = body as LlmModel;
+  return LLM_PROVIDERS.includes(provider) && typeof model === "string" && model.trim().length > 0 && model.length <= MAX_MODEL_LENGTH;
+}
+
+/**
+ * Shape check for a session's model choice; whether this server can serve it is checked in llm.ts.
+ */
+export function isLlmChoice(body: unknown): body is LlmChoice {
+  return isLlmModel(body) && isOptional((body as LlmChoice).fallback, isLlmModel);
+}
+
 /**
  * Narrow an unknown body to JoinPayload.
  */
@@ -17,5 +154,187 @@ export function isJoinPayload(body: unknown): body is JoinPayload {
   return typeof body === "object" && body !== null
     && typeof (body as JoinPayload).sessionId === "string"
     && typeof (body as JoinPayload).playerId === "string"
-    && typeof (body as JoinPayload).name === "string";
+    && typeof (body as JoinPayload).name === "string"
+    && ((body as JoinPayload).character === undefined || isCharacterInput((body as JoinPayload).character))
+    && ((body as JoinPayload).settings === undefined || isSessionSettingsInput((body as JoinPayload).settings))
+    && ((body as JoinPayload).inviteCode === undefined || typeof (body as JoinPayload).inviteCode === "string");
+}
+
+const isStringArray = (value: unknown) => Array.isArray(value) && value.every(entry => typeof entry === "string");
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === "object" && value !== null;
+
+const isConditionList = (value: unknown) => Array.isArray(value) && value.every(isCondition);
+
+const isNonNegativeInt = (value: unknown) => Number.isInteger(value) && (value as number) >= 0;
+
+function isArchivedPlayer(value: unknown): boolean {
+  return isRecord(value)
+    && typeof value.id === "string"
+    && typeof value.name === "string"
+    && isNonNegativeInt(value.hp)
+    && Array.isArray(value.inventory) && value.inventory.every(isItem)
+    && isOptional(value.purse, isPurse)
+    && isCharacterSheet(value.character)
+    && isOptional(value.conditions, isConditionList)
+    && isOptional(value.deathSaves, isDeathSaves)
+    && isOptional(value.dead, v => typeof v === "boolean")
+    && isOptional(value.xp, isNonNegativeInt);
+}
+
+function isArchivedEnemy(value: unknown): boolean {
+  return isRecord(value)
+    && typeof value.id === "string" && value.id.length > 0
+    && typeof value.name === "string" && value.name.length > 0
+    && isOptional(value.type, v => typeof v === "string")
+    && isNonNegativeInt(value.hp)
+    && isOptional(value.maxHp, isNonNegativeInt)
+    && isOptional(value.stats, isStatBlock)
+    && isOptional(value.conditions, isConditionList);
+}
+
+function isArchivedInitiative(value: unknown): boolean {
+  return isRecord(value)
+    && typeof value.id === "string"
+    && typeof value.name === "string"
+    && (value.kind === "player" || value.kind === "enemy")
+    && [value.modifier, value.roll, value.total, value.tiebreaker].every(Number.isInteger);
+}
+
+function isArchivedReadied(value: unknown): boolean {
+  return isRecord(value)
+    && typeof value.id === "string"
+    && typeof value.name === "string"
+    && typeof value.trigger === "string"
+    && isNonNegativeInt(value.round);
+}
+
+// Every field of CombatState, with initiative in step with the turn order and naming only creatures
+// that are in the archive.
+function isArchivedCombat(value: unknown, playerIds: Set<string>): boolean {
+  if (!isRecord(value)) return false;
+  const { enemies, initiative, turnOrder, readied, reactionsUsed } = value;
+  const shaped = typeof value.active === "boolean"
+    && isNonNegativeInt(value.round)
+    && isNonNegativeInt(value.currentTurnIndex)
+    && Array.isArray(enemies) && enemies.every(isArchivedEnemy)
+    && Array.isArray(initiative) && initiative.every(isArchivedInitiative)
+    && isStringArray(turnOrder)
+    && Array.isArray(readied) && readied.every(isArchivedReadied)
+    && isStringArray(reactionsUsed);
+  if (!shaped) return false;
+  const enemyIds = new Set(enemies.map(enemy => enemy.id as string));
+  const known = (entry: Record<string, unknown>) =>
+    (entry.kind === "player" ? playerIds : enemyIds).has(entry.id as string);
+  return enemyIds.size === enemies.length
+    && (turnOrder as string[]).length === initiative.length
+    && (initiative.length === 0 || (value.currentTurnIndex as number) < initiative.length)
+    && initiative.every(known);
+}
+
+function isArchivedMessage(value: unknown): boolean {
+  return isRecord(value)
+    && Number.isInteger(value.seq) && (value.seq as number) > 0
+    && typeof value.actor === "string"
+    && typeof value.content === "string"
+    && typeof value.ts === "number"
+    && isOptional(value.type, v => v === "roll")
+    && isOptional(value.rolls, Array.isArray)
+    && isOptional(value.draw, isNonNegativeInt);
+}
+
+/**
+ * Full check of a campaign archive: every player, item, sheet, enemy and combat field the session
+ * reads, unique player and enemy IDs, initiative that names only archived creatures, and a
+ * transcript in strictly increasing seq order.
+ */
+export function isCampaignArchive(body: unknown): body is CampaignArchive {
+  if (!isRecord(body)) return false;
+  const archive = body as unknown as CampaignArchive;
+  const shaped = archive.format === ARCHIVE_FORMAT
+    && Number.isInteger(archive.version) && archive.version >= 1 && archive.version <= ARCHIVE_VERSION
+    && typeof archive.exportedAt === "number"
+    && typeof archive.sessionId === "string"
+    && isSessionSettingsInput(archive.settings)
+    && typeof archive.createdAt === "number"
+    && (archive.ownerId === null || typeof archive.ownerId === "string")
+    && isStringArray(archive.banned)
+    && Array.isArray(archive.players) && archive.players.length > 0 && archive.players.every(isArchivedPlayer)
+    && isArchivedCombat(archive.combat, new Set(archive.players.map(player => player.id)))
+    && isRecord(archive.memory) && typeof archive.memory.summary === "string" && isStringArray(archive.memory.facts)
+    && Number.isInteger(archive.memory.summarizedThrough)
+    && Array.isArray(archive.messages) && archive.messages.every(isArchivedMessage);
+  if (!shaped) return false;
+  return new Set(archive.players.map(player => player.id)).size === archive.players.length
+    && archive.messages.every((message, index) => index === 0 || message.seq > archive.messages[index - 1].seq);
+}
+
+/**
+ * Narrow an unknown body to ImportPayload.
+ */
+export function isImportPayload(body: unknown): body is ImportPayload {
+  return isRecord(body)
+    && typeof body.sessionId === "string" && body.sessionId.trim().length > 0
+    && typeof body.playerId === "string"
+    && isCampaignArchive(body.archive);
+}
+
+export const DEFAULT_HISTORY_LIMIT = 50;
+export const MAX_HISTORY_LIMIT = 200;
+
+const parsePositiveInt = (value: string) => (/^[1-9]\d*$/.test(value) ? parseInt(value, 10) : null);
+
+/**
+ * Read `before` and `limit` from a history request's query string. Returns null when either is
+ * present but not a positive integer, or when limit exceeds MAX_HISTORY_LIMIT.
+ */
+export function parseHistoryQuery(params: URLSearchParams): HistoryQuery | null {
+  const before = params.get("before");
+  const limit = params.get("limit");
+  const query: HistoryQuery = { limit: DEFAULT_HISTORY_LIMIT };
+  if (before !== null) {
+    const cursor = parsePositiveInt(before);
+    if (cursor === null) return null;
+    query.before = cursor;
+  }
+  if (limit !== null) {
+    const size = parsePositiveInt(limit);
+    if (size === null || size > MAX_HISTORY_LIMIT) return null;
+    query.limit = size;
+  }
+  return query;
+}
+
+export const DEFAULT_SESSION_PAGE = 20;
+export const MAX_SESSION_PAGE = 100;
+
+const SESSION_SORTS: SessionListQuery["sort"][] = ["lastActivity", "createdAt", "players", "title"];
+
+const parseFlag = (value: string | null) => (value === null ? false : value === "true" ? true : value === "false" ? false : null);
+
+/**
+ * Read the lobby listing query. Returns null when any parameter is present but invalid. Titles sort
+ * A to Z by default; everything else sorts highest first.
+ */
+export function parseSessionListQuery(params: URLSearchParams): SessionListQuery | null {
+  const sort = params.get("sort") ?? "lastActivity";
+  const order = params.get("order") ?? (sort === "title" ? "asc" : "desc");
+  const openSeats = parseFlag(params.get("openSeats"));
+  const active = parseFlag(params.get("active"));
+  const offset = params.get("offset");
+  const limit = params.get("limit");
+  if (!SESSION_SORTS.includes(sort as SessionListQuery["sort"]) || (order !== "asc" && order !== "desc")) return null;
+  if (openSeats === null || active === null) return null;
+
+  const query: SessionListQuery = { sort: sort as SessionListQuery["sort"], order, openSeats, active, offset: 0, limit: DEFAULT_SESSION_PAGE };
+  if (offset !== null) {
+    if (!/^\d+$/.test(offset)) return null;
+    query.offset = parseInt(offset, 10);
+  }
+  if (limit !== null) {
+    const size = parsePositiveInt(limit);
+    if (size === null || size > MAX_SESSION_PAGE) return null;
+    query.limit = size;
+  }
+  return query;
 }
@@ -0,0 +1,83 @@
+import type { SessionSettings } from "./api-types";
+import { maxHpOf } from "./character";
+import type { CampaignMemory } from "./memory";
+import type { CombatState, Message, Player } from "./session";
+
+/**
+ * Campaign archives. A session lives only in its Durable Object and is wiped when it ends, so players
+ * can export it as one versioned JSON document and restore that into a new session later, or as a
+ * Markdown transcript to read and share.
+ */
+
+export const ARCHIVE_FORMAT = "dnd-ai-campaign";
+// Bump when the archive shape changes; imports refuse versions newer than this.
+export const ARCHIVE_VERSION = 1;
+
+export interface CampaignArchive {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: number;
+  // The session the archive was exported from. Its player tokens claim seats in the restored session.
+  sessionId: string;
+  settings: SessionSettings;
+  createdAt: number;
+  ownerId: string | null;
+  banned: string[];
+  players: Player[];
+  combat: CombatState;
+  memory: CampaignMemory;
+  // The whole transcript, oldest first, with its original seqs.
+  messages: Message[];
+}
+
+/**
+ * Copy an archived player's known fields only, so nothing else the archive carries is stored.
+ * The archive must have passed `isCampaignArchive`.
+ */
+export function restorePlayer({ id, name, hp, inventory, purse, character, conditions, deathSaves, dead, xp }: Player): Player {
+  const player: Player = { id, name, hp, inventory, character };
+  if (purse) player.purse = purse;
+  if (conditions) player.conditions = conditions;
+  if (deathSaves) player.deathSaves = deathSaves;
+  if (dead !== undefined) player.dead = dead;
+  if (xp !== undefined) player.xp = xp;
+  return player;
+}
+
+/**
+ * A download name made from the session title, e.g. "the-sunken-keep.json".
+ */
+export function archiveFilename(title: string, extension: "json" | "md"): string {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "").slice(0, 60);
+  return `${slug || "campaign"}.${extension}`;
+}
+
+function formatMessage(message: Message): string {
+  if (message.type === "roll") return `🎲 *${message.actor}: ${message.content}*`;
+  // DM narration is Markdown already; its headings become the transcript's chapter headings.
+  if (message.actor === "DM") return message.content;
+  return `**${message.actor}:** ${message.content}`;
+}
+
+function describeMember(player: Player): string {
+  const sheet = player.character;
+  const build = sheet ? `, level ${sheet.level} ${sheet.race} ${sheet.className}` : "";
+  return `- **${player.name}**${build}, ${player.hp}/${maxHpOf(player)} HP`;
+}
+
+/**
+ * The archive as a readable Markdown document: title, party, then every message in order.
+ */
+export function archiveToMarkdown(archive: CampaignArchive): string {
+  const { settings } = archive;
+  const exported = new Date(archive.exportedAt).toISOString().slice(0, 10);
+  const header = [
+    `# ${settings.title}`,
+    settings.description,
+    `*Exported ${exported} from session ${archive.sessionId}.*`,
+    "## Party",
+    archive.players.map(describeMember).join("\n"),
+    "---",
+  ].filter(Boolean);
+  return `${[...header, ...archive.messages.map(formatMessage)].join("\n\n")}\n`;
+}
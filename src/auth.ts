@@ -0,0 +1,67 @@
+/**
+ * Player identity tokens. Joining a session issues an HMAC-SHA256 signature over the session and
+ * player IDs, keyed with the PLAYER_TOKEN_SECRET binding. Mutating routes take it back as
+ * `Authorization: Bearer <token>`. Tokens hold no server state, so any tab presenting one acts as
+ * that player in that session, and rotating the secret revokes every token at once. Registry-wide
+ * operations take the ADMIN_KEY secret the same way.
+ */
+
+const TOKEN_VERSION = "v1";
+const encoder = new TextEncoder();
+
+const hmacKey = (secret: string) =>
+  crypto.subtle.importKey("raw", encoder.encode(secret), { name: "HMAC", hash: "SHA-256" }, false, ["sign", "verify"]);
+
+// The session ID is length-prefixed so "a:b" + "c" and "a" + "b:c" sign different claims.
+const claim = (sessionId: string, playerId: string) =>
+  encoder.encode(`${TOKEN_VERSION}:${sessionId.length}:${sessionId}:${playerId}`);
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+
+function fromBase64Url(text: string): Uint8Array | null {
+  if (!/^[A-Za-z0-9_-]+$/.test(text)) return null;
+  try {
+    const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+    return Uint8Array.from(binary, char => char.charCodeAt(0));
+  } catch {
+    return null;
+  }
+}
+
+export async function signPlayerToken(secret: string, sessionId: string, playerId: string): Promise<string> {
+  const signature = await crypto.subtle.sign("HMAC", await hmacKey(secret), claim(sessionId, playerId));
+  return `${TOKEN_VERSION}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * True when `token` was issued for this player in this session. The comparison is constant-time.
+ */
+export async function verifyPlayerToken(secret: string, sessionId: string, playerId: string, token: string): Promise<boolean> {
+  const [version, encoded, ...rest] = token.split(".");
+  if (version !== TOKEN_VERSION || !encoded || rest.length > 0) return false;
+  const signature = fromBase64Url(encoded);
+  if (!signature) return false;
+  return crypto.subtle.verify("HMAC", await hmacKey(secret), signature, claim(sessionId, playerId));
+}
+
+/**
+ * The token from an `Authorization: Bearer ...` header, if there is one.
+ */
+export function bearerToken(request: Request): string | null {
+  const match = request.headers.get("Authorization")?.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+}
+
+/**
+ * True when the request carries the configured admin key as its bearer token. Always false when no
+ * key is configured, so admin routes stay closed by default.
+ */
+export function isAdminRequest(request: Request, adminKey: string | undefined): boolean {
+  const token = bearerToken(request);
+  if (!adminKey || !token) return false;
+  const presented = encoder.encode(token);
+  const expected = encoder.encode(adminKey);
+  // Only the key's length can leak through timing; its contents are compared in constant time.
+  return presented.byteLength === expected.byteLength && crypto.subtle.timingSafeEqual(presented, expected);
+}
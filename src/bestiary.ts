@@ -0,0 +1,217 @@
+import { abilityModifier, Ability, AbilityScores, ABILITIES } from "./character";
+import { isValidNotation, Rng, rollNotation } from "./dice";
+import coreMonsters from "./data/bestiary.json";
+
+/**
+ * Monster stat blocks, loaded from JSON so new creatures are data rather than code.
+ *
+ * Format (one object per monster, see src/data/bestiary.json):
+ * - `name`: display name, also the key the DM uses in `enemy_spawn`.
+ * - `aliases` (optional): other names that resolve to this monster, e.g. "dragon".
+ * - `ac`: armor class.
+ * - `hp`: hit dice in dice notation, e.g. "2d6" or "7d10+21"; rolled per spawned enemy.
+ * - `abilities`: the six ability scores, keyed `str` .. `cha`.
+ * - `attacks`: `{ name, bonus, damage, damageType, notes? }`, where damage is dice notation.
+ * - `cr`: challenge rating as written in the stat block ("1/4", "5").
+ * - `xp`: experience awarded for defeating it.
+ * - `traits` (optional): free-text special abilities shown to the DM.
+ *
+ * Homebrew monsters use the same format. Put a JSON array in the HOMEBREW_MONSTERS variable;
+ * entries replace core monsters with the same name.
+ */
+
+export interface Attack {
+  name: string;
+  bonus: number;
+  damage: string;
+  damageType: string;
+  notes?: string;
+}
+
+export interface StatBlock {
+  name: string;
+  aliases?: string[];
+  ac: number;
+  hp: string;
+  abilities: AbilityScores;
+  attacks: Attack[];
+  cr: string;
+  xp: number;
+  traits?: string[];
+}
+
+// Used when the DM names a creature the bestiary does not know and gives no HP.
+export const DEFAULT_ENEMY_HP = 15;
+
+/**
+ * Everything an enemy instance takes from the bestiary; enemies.ts adds the ID and label.
+ */
+export interface RolledMonster {
+  // Stat block name for known monsters, otherwise the name as given.
+  type: string;
+  hp: number;
+  maxHp?: number;
+  stats?: StatBlock;
+}
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === "string" && value.trim().length > 0;
+
+const isNonNegativeInt = (value: unknown): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value >= 0;
+
+function isAttack(value: unknown): value is Attack {
+  if (typeof value !== "object" || value === null) return false;
+  const attack = value as Attack;
+  return isNonEmptyString(attack.name)
+    && Number.isInteger(attack.bonus)
+    && isNonEmptyString(attack.damage) && isValidNotation(attack.damage)
+    && isNonEmptyString(attack.damageType)
+    && (attack.notes === undefined || typeof attack.notes === "string");
+}
+
+/**
+ * Narrow one decoded bestiary entry to a StatBlock.
+ */
+export function isStatBlock(value: unknown): value is StatBlock {
+  if (typeof value !== "object" || value === null) return false;
+  const block = value as StatBlock;
+  return isNonEmptyString(block.name)
+    && (block.aliases === undefined || (Array.isArray(block.aliases) && block.aliases.every(isNonEmptyString)))
+    && isNonNegativeInt(block.ac)
+    && isNonEmptyString(block.hp) && isValidNotation(block.hp)
+    && typeof block.abilities === "object" && block.abilities !== null
+    && ABILITIES.every(ability => isNonNegativeInt(block.abilities[ability]))
+    && Array.isArray(block.attacks) && block.attacks.every(isAttack)
+    && isNonEmptyString(block.cr)
+    && isNonNegativeInt(block.xp)
+    && (block.traits === undefined || (Array.isArray(block.traits) && block.traits.every(item => typeof item === "string")));
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const normalize = (name: string) => name.trim().toLowerCase().replace(/^(?:a|an|the)\s+/, "").replace(/\s+/g, " ");
+
+export class Bestiary {
+  private readonly byName = new Map<string, StatBlock>();
+
+  constructor(entries: StatBlock[]) {
+    for (const entry of entries) {
+      this.add(entry);
+    }
+  }
+
+  /**
+   * Register a monster; a later entry with the same name or alias wins.
+   */
+  add(entry: StatBlock) {
+    for (const key of [entry.name, ...(entry.aliases ?? [])]) {
+      this.byName.set(normalize(key), entry);
+    }
+  }
+
+  /**
+   * Look up by name or alias, tolerating articles and simple plurals ("the goblins").
+   */
+  find(name: string): StatBlock | undefined {
+    const key = normalize(name);
+    return this.byName.get(key)
+      ?? (key.endsWith("es") ? this.byName.get(key.slice(0, -2)) : undefined)
+      ?? (key.endsWith("s") ? this.byName.get(key.slice(0, -1)) : undefined);
+  }
+
+  all(): StatBlock[] {
+    return Array.from(new Set(this.byName.values()));
+  }
+
+  /**
+   * Every name and alias, longest first so regex alternations prefer "giant spider" over "spider".
+   */
+  names(): string[] {
+    return Array.from(this.byName.keys()).sort((a, b) => b.length - a.length);
+  }
+
+  /**
+   * Regex alternation matching any known name or alias, for prose scanning.
+   */
+  namePattern(): string {
+    return this.names().map(escapeRegExp).join("|");
+  }
+
+  /**
+   * Monsters named anywhere in free text, e.g. the player's action or the DM's narration.
+   */
+  mentionedIn(text: string): StatBlock[] {
+    const found = new Set<StatBlock>();
+    let remaining = text.toLowerCase();
+    for (const name of this.names()) {
+      const pattern = new RegExp(`\\b${escapeRegExp(name)}(?:e?s)?\\b`, "g");
+      if (pattern.test(remaining)) {
+        found.add(this.byName.get(name)!);
+        // Blank out the match so "giant spider" does not also count as a giant and a spider.
+        remaining = remaining.replace(pattern, " ");
+      }
+    }
+    return Array.from(found);
+  }
+
+  /**
+   * Roll hit points for one creature. Unknown creatures still get HP, just without a stat block.
+   */
+  roll(name: string, rng: Rng, hp?: number): RolledMonster {
+    const stats = this.find(name);
+    if (!stats) {
+      return { type: name, hp: hp ?? DEFAULT_ENEMY_HP };
+    }
+    const rolled = hp ?? Math.max(1, rollNotation(stats.hp, rng)!.total);
+    return { type: stats.name, hp: rolled, maxHp: rolled, stats };
+  }
+}
+
+/**
+ * Merge the core bestiary with homebrew JSON. Invalid homebrew entries are reported and skipped
+ * rather than failing the whole load.
+ */
+export function loadBestiary(homebrew?: string): { bestiary: Bestiary; errors: string[] } {
+  const bestiary = new Bestiary((coreMonsters as unknown[]).filter(isStatBlock));
+  const errors: string[] = [];
+  if (!homebrew?.trim()) return { bestiary, errors };
+
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(homebrew);
+  } catch {
+    return { bestiary, errors: ["Homebrew monsters are not valid JSON."] };
+  }
+  if (!Array.isArray(decoded)) {
+    return { bestiary, errors: ["Homebrew monsters must be a JSON array of stat blocks."] };
+  }
+  decoded.forEach((entry, index) => {
+    if (isStatBlock(entry)) {
+      bestiary.add(entry);
+    } else {
+      errors.push(`Homebrew monster #${index + 1} is not a valid stat block.`);
+    }
+  });
+  return { bestiary, errors };
+}
+
+export function monsterModifier(stats: StatBlock | undefined, ability: Ability): number {
+  return stats ? abilityModifier(stats.abilities[ability]) : 0;
+}
+
+/**
+ * Stat block line for the DM, e.g.
+ * "Goblin: AC 15, HP 2d6, CR 1/4 (50 XP); STR 8 (-1) ...; Attacks: Scimitar +4 (1d6+2 slashing), ...".
+ */
+export function describeStatBlock(stats: StatBlock): string {
+  const abilities = ABILITIES.map(ability => {
+    const modifier = abilityModifier(stats.abilities[ability]);
+    return `${ability.toUpperCase()} ${stats.abilities[ability]} (${modifier >= 0 ? "+" : ""}${modifier})`;
+  }).join(" ");
+  const attacks = stats.attacks
+    .map(attack => `${attack.name} +${attack.bonus} (${attack.damage} ${attack.damageType}${attack.notes ? `; ${attack.notes}` : ""})`)
+    .join(", ");
+  const traits = stats.traits?.length ? ` Traits: ${stats.traits.join(" ")}` : "";
+  return `${stats.name}: AC ${stats.ac}, HP ${stats.hp}, CR ${stats.cr} (${stats.xp} XP); ${abilities}; Attacks: ${attacks}.${traits}`;
+}
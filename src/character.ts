@@ -0,0 +1,324 @@
+import type { Player } from "./session";
+
+/**
+ * D&D 5e character sheets. Only level-1 creation is validated here; everything else derives
+ * from the stored ability scores, class and level so the sheet cannot drift out of sync.
+ */
+
+export const ABILITIES = ["str", "dex", "con", "int", "wis", "cha"] as const;
+export type Ability = typeof ABILITIES[number];
+export type AbilityScores = Record<Ability, number>;
+
+export const SKILLS = {
+  "acrobatics": "dex",
+  "animal-handling": "wis",
+  "arcana": "int",
+  "athletics": "str",
+  "deception": "cha",
+  "history": "int",
+  "insight": "wis",
+  "intimidation": "cha",
+  "investigation": "int",
+  "medicine": "wis",
+  "nature": "int",
+  "perception": "wis",
+  "performance": "cha",
+  "persuasion": "cha",
+  "religion": "int",
+  "sleight-of-hand": "dex",
+  "stealth": "dex",
+  "survival": "wis",
+} as const satisfies Record<string, Ability>;
+export type Skill = keyof typeof SKILLS;
+const ALL_SKILLS = Object.keys(SKILLS) as Skill[];
+
+interface RaceDefinition {
+  name: string;
+  bonuses: Partial<AbilityScores>;
+}
+
+type ArmorRule = "light" | "medium" | "heavy" | "unarmored" | "barbarian" | "monk";
+
+interface ClassDefinition {
+  name: string;
+  hitDie: number;
+  savingThrows: Ability[];
+  skillChoices: number;
+  skillOptions: Skill[];
+  // Abilities in the order the standard array is assigned when the player does not choose.
+  priority: Ability[];
+  armor: ArmorRule;
+}
+
+// Core races with their fixed Player's Handbook bonuses; subrace choices are left to the DM.
+const RACES: Record<string, RaceDefinition> = {
+  human: { name: "Human", bonuses: { str: 1, dex: 1, con: 1, int: 1, wis: 1, cha: 1 } },
+  elf: { name: "Elf", bonuses: { dex: 2 } },
+  dwarf: { name: "Dwarf", bonuses: { con: 2 } },
+  halfling: { name: "Halfling", bonuses: { dex: 2 } },
+  gnome: { name: "Gnome", bonuses: { int: 2 } },
+  "half-orc": { name: "Half-Orc", bonuses: { str: 2, con: 1 } },
+  tiefling: { name: "Tiefling", bonuses: { cha: 2, int: 1 } },
+  dragonborn: { name: "Dragonborn", bonuses: { str: 2, cha: 1 } },
+};
+
+const CLASSES: Record<string, ClassDefinition> = {
+  barbarian: { name: "Barbarian", hitDie: 12, savingThrows: ["str", "con"], skillChoices: 2, skillOptions: ["animal-handling", "athletics", "intimidation", "nature", "perception", "survival"], priority: ["str", "con", "dex", "wis", "cha", "int"], armor: "barbarian" },
+  bard: { name: "Bard", hitDie: 8, savingThrows: ["dex", "cha"], skillChoices: 3, skillOptions: ALL_SKILLS, priority: ["cha", "dex", "con", "wis", "int", "str"], armor: "light" },
+  cleric: { name: "Cleric", hitDie: 8, savingThrows: ["wis", "cha"], skillChoices: 2, skillOptions: ["history", "insight", "medicine", "persuasion", "religion"], priority: ["wis", "con", "str", "cha", "dex", "int"], armor: "medium" },
+  druid: { name: "Druid", hitDie: 8, savingThrows: ["int", "wis"], skillChoices: 2, skillOptions: ["arcana", "animal-handling", "insight", "medicine", "nature", "perception", "religion", "survival"], priority: ["wis", "con", "dex", "int", "cha", "str"], armor: "light" },
+  fighter: { name: "Fighter", hitDie: 10, savingThrows: ["str", "con"], skillChoices: 2, skillOptions: ["acrobatics", "animal-handling", "athletics", "history", "insight", "intimidation", "perception", "survival"], priority: ["str", "con", "dex", "wis", "cha", "int"], armor: "heavy" },
+  monk: { name: "Monk", hitDie: 8, savingThrows: ["str", "dex"], skillChoices: 2, skillOptions: ["acrobatics", "athletics", "history", "insight", "religion", "stealth"], priority: ["dex", "wis", "con", "str", "int", "cha"], armor: "monk" },
+  paladin: { name: "Paladin", hitDie: 10, savingThrows: ["wis", "cha"], skillChoices: 2, skillOptions: ["athletics", "insight", "intimidation", "medicine", "persuasion", "religion"], priority: ["str", "cha", "con", "wis", "dex", "int"], armor: "heavy" },
+  ranger: { name: "Ranger", hitDie: 10, savingThrows: ["str", "dex"], skillChoices: 3, skillOptions: ["animal-handling", "athletics", "insight", "investigation", "nature", "perception", "stealth", "survival"], priority: ["dex", "wis", "con", "str", "int", "cha"], armor: "medium" },
+  rogue: { name: "Rogue", hitDie: 8, savingThrows: ["dex", "int"], skillChoices: 4, skillOptions: ["acrobatics", "athletics", "deception", "insight", "intimidation", "investigation", "perception", "performance", "persuasion", "sleight-of-hand", "stealth"], priority: ["dex", "con", "int", "wis", "cha", "str"], armor: "light" },
+  sorcerer: { name: "Sorcerer", hitDie: 6, savingThrows: ["con", "cha"], skillChoices: 2, skillOptions: ["arcana", "deception", "insight", "intimidation", "persuasion", "religion"], priority: ["cha", "con", "dex", "wis", "int", "str"], armor: "unarmored" },
+  warlock: { name: "Warlock", hitDie: 8, savingThrows: ["wis", "cha"], skillChoices: 2, skillOptions: ["arcana", "deception", "history", "intimidation", "investigation", "nature", "religion"], priority: ["cha", "con", "dex", "wis", "int", "str"], armor: "light" },
+  wizard: { name: "Wizard", hitDie: 6, savingThrows: ["int", "wis"], skillChoices: 2, skillOptions: ["arcana", "history", "insight", "investigation", "medicine", "religion"], priority: ["int", "con", "dex", "wis", "cha", "str"], armor: "unarmored" },
+};
+
+const ABILITY_SCORE_IMPROVEMENT = "Ability Score Improvement";
+
+// Headline features gained at each level; the DM fills in the details from the Player's Handbook.
+const CLASS_FEATURES: Record<string, Record<number, string[]>> = {
+  barbarian: { 1: ["Rage", "Unarmored Defense"], 2: ["Reckless Attack", "Danger Sense"], 3: ["Primal Path"], 5: ["Extra Attack", "Fast Movement"], 7: ["Feral Instinct"], 9: ["Brutal Critical"], 11: ["Relentless Rage"], 15: ["Persistent Rage"], 18: ["Indomitable Might"], 20: ["Primal Champion"] },
+  bard: { 1: ["Spellcasting", "Bardic Inspiration (d6)"], 2: ["Jack of All Trades", "Song of Rest"], 3: ["Bard College", "Expertise"], 5: ["Bardic Inspiration (d8)", "Font of Inspiration"], 6: ["Countercharm"], 10: ["Bardic Inspiration (d10)", "Magical Secrets"], 15: ["Bardic Inspiration (d12)"], 20: ["Superior Inspiration"] },
+  cleric: { 1: ["Spellcasting", "Divine Domain"], 2: ["Channel Divinity (1/rest)"], 5: ["Destroy Undead (CR 1/2)"], 6: ["Channel Divinity (2/rest)"], 10: ["Divine Intervention"], 18: ["Channel Divinity (3/rest)"] },
+  druid: { 1: ["Druidic", "Spellcasting"], 2: ["Wild Shape", "Druid Circle"], 18: ["Timeless Body", "Beast Spells"], 20: ["Archdruid"] },
+  fighter: { 1: ["Fighting Style", "Second Wind"], 2: ["Action Surge"], 3: ["Martial Archetype"], 5: ["Extra Attack"], 9: ["Indomitable"], 11: ["Extra Attack (2)"], 20: ["Extra Attack (3)"] },
+  monk: { 1: ["Unarmored Defense", "Martial Arts"], 2: ["Ki", "Unarmored Movement"], 3: ["Monastic Tradition", "Deflect Missiles"], 4: ["Slow Fall"], 5: ["Extra Attack", "Stunning Strike"], 6: ["Ki-Empowered Strikes"], 7: ["Evasion", "Stillness of Mind"], 10: ["Purity of Body"], 14: ["Diamond Soul"], 18: ["Empty Body"], 20: ["Perfect Self"] },
+  paladin: { 1: ["Divine Sense", "Lay on Hands"], 2: ["Fighting Style", "Spellcasting", "Divine Smite"], 3: ["Divine Health", "Sacred Oath"], 5: ["Extra Attack"], 6: ["Aura of Protection"], 10: ["Aura of Courage"], 11: ["Improved Divine Smite"], 14: ["Cleansing Touch"] },
+  ranger: { 1: ["Favored Enemy", "Natural Explorer"], 2: ["Fighting Style", "Spellcasting"], 3: ["Ranger Archetype", "Primeval Awareness"], 5: ["Extra Attack"], 8: ["Land's Stride"], 10: ["Hide in Plain Sight"], 14: ["Vanish"], 18: ["Feral Senses"], 20: ["Foe Slayer"] },
+  rogue: { 1: ["Expertise", "Sneak Attack (1d6)", "Thieves' Cant"], 2: ["Cunning Action"], 3: ["Roguish Archetype", "Sneak Attack (2d6)"], 5: ["Uncanny Dodge", "Sneak Attack (3d6)"], 7: ["Evasion", "Sneak Attack (4d6)"], 9: ["Sneak Attack (5d6)"], 11: ["Reliable Talent", "Sneak Attack (6d6)"], 14: ["Blindsense"], 15: ["Slippery Mind"], 18: ["Elusive"], 20: ["Stroke of Luck"] },
+  sorcerer: { 1: ["Spellcasting", "Sorcerous Origin"], 2: ["Font of Magic"], 3: ["Metamagic"], 20: ["Sorcerous Restoration"] },
+  warlock: { 1: ["Otherworldly Patron", "Pact Magic"], 2: ["Eldritch Invocations"], 3: ["Pact Boon"], 11: ["Mystic Arcanum (6th level)"], 20: ["Eldritch Master"] },
+  wizard: { 1: ["Spellcasting", "Arcane Recovery"], 2: ["Arcane Tradition"], 18: ["Spell Mastery"], 20: ["Signature Spells"] },
+};
+
+// Levels granting an Ability Score Improvement; fighters and rogues get extras.
+const ASI_LEVELS: Record<string, number[]> = {
+  default: [4, 8, 12, 16, 19],
+  fighter: [4, 6, 8, 12, 14, 16, 19],
+  rogue: [4, 8, 10, 12, 16, 19],
+};
+
+export const STANDARD_ARRAY = [15, 14, 13, 12, 10, 8] as const;
+const POINT_BUY_BUDGET = 27;
+const POINT_BUY_COST: Record<number, number> = { 8: 0, 9: 1, 10: 2, 11: 3, 12: 4, 13: 5, 14: 7, 15: 9 };
+
+/**
+ * Max HP for players created before character sheets existed.
+ */
+export const DEFAULT_MAX_HP = 20;
+
+export interface CharacterSheet {
+  race: string;
+  className: string;
+  level: number;
+  // Final scores with racial bonuses applied.
+  abilities: AbilityScores;
+  modifiers: AbilityScores;
+  maxHp: number;
+  ac: number;
+  proficiencyBonus: number;
+  savingThrows: Ability[];
+  skills: Skill[];
+  // Class features gained so far; absent on sheets created before leveling existed.
+  features?: string[];
+}
+
+/**
+ * What a client sends to create a character. Abilities are base scores before racial bonuses;
+ * omitting them assigns the standard array by class priority, omitting skills takes the
+ * first class options.
+ */
+export interface CharacterInput {
+  race: string;
+  className: string;
+  method?: "standard" | "pointbuy";
+  abilities?: AbilityScores;
+  skills?: string[];
+}
+
+export type CharacterResult = { ok: true; sheet: CharacterSheet } | { ok: false; errors: string[] };
+
+export const abilityModifier = (score: number) => Math.floor((score - 10) / 2);
+
+export const proficiencyBonusForLevel = (level: number) => 2 + Math.floor((Math.max(1, level) - 1) / 4);
+
+const formatBonus = (value: number) => (value >= 0 ? `+${value}` : String(value));
+
+function computeArmorClass(rule: ArmorRule, modifiers: AbilityScores): number {
+  switch (rule) {
+    case "heavy":
+      return 16; // Chain mail
+    case "medium":
+      return 14 + Math.min(2, modifiers.dex); // Scale mail
+    case "light":
+      return 11 + modifiers.dex; // Leather armor
+    case "barbarian":
+      return 10 + modifiers.dex + modifiers.con;
+    case "monk":
+      return 10 + modifiers.dex + modifiers.wis;
+    case "unarmored":
+      return 10 + modifiers.dex;
+  }
+}
+
+function validateBaseScores(method: "standard" | "pointbuy", scores: AbilityScores, errors: string[]) {
+  const values = ABILITIES.map(ability => scores[ability]);
+  if (!values.every(value => Number.isInteger(value))) {
+    errors.push("Ability scores must be whole numbers for all six abilities.");
+    return;
+  }
+
+  if (method === "standard") {
+    const sorted = [...values].sort((a, b) => b - a);
+    if (sorted.join(",") !== STANDARD_ARRAY.join(",")) {
+      errors.push(`Standard array scores must be exactly ${STANDARD_ARRAY.join(", ")}.`);
+    }
+    return;
+  }
+
+  if (!values.every(value => value in POINT_BUY_COST)) {
+    errors.push("Point buy scores must be between 8 and 15 before racial bonuses.");
+    return;
+  }
+  const spent = values.reduce((sum, value) => sum + POINT_BUY_COST[value], 0);
+  if (spent > POINT_BUY_BUDGET) {
+    errors.push(`Point buy spends ${spent} points; the budget is ${POINT_BUY_BUDGET}.`);
+  }
+}
+
+function assignStandardArray(priority: Ability[]): AbilityScores {
+  const scores = {} as AbilityScores;
+  priority.forEach((ability, index) => { scores[ability] = STANDARD_ARRAY[index]; });
+  return scores;
+}
+
+/**
+ * Recompute everything derived from abilities, class and level. Call after level-ups or score changes.
+ */
+export function refreshDerivedStats(sheet: CharacterSheet) {
+  const definition = CLASSES[sheet.className.toLowerCase()];
+  sheet.modifiers = Object.fromEntries(ABILITIES.map(ability => [ability, abilityModifier(sheet.abilities[ability])])) as AbilityScores;
+  sheet.proficiencyBonus = proficiencyBonusForLevel(sheet.level);
+  if (definition) {
+    sheet.ac = computeArmorClass(definition.armor, sheet.modifiers);
+  }
+}
+
+/**
+ * Validate creation input and build a level-1 sheet.
+ */
+export function createCharacter(input: CharacterInput): CharacterResult {
+  const errors: string[] = [];
+  const race = RACES[input.race.trim().toLowerCase()];
+  const definition = CLASSES[input.className.trim().toLowerCase()];
+  if (!race) errors.push(`Unknown race "${input.race}". Choose one of: ${Object.values(RACES).map(r => r.name).join(", ")}.`);
+  if (!definition) errors.push(`Unknown class "${input.className}". Choose one of: ${Object.values(CLASSES).map(c => c.name).join(", ")}.`);
+  if (!race || !definition) return { ok: false, errors };
+
+  const method = input.method ?? "standard";
+  const base = input.abilities ?? assignStandardArray(definition.priority);
+  validateBaseScores(method, base, errors);
+
+  const skills = (input.skills ?? definition.skillOptions.slice(0, definition.skillChoices)).map(skill => skill.trim().toLowerCase());
+  const invalidSkills = skills.filter(skill => !definition.skillOptions.includes(skill as Skill));
+  if (invalidSkills.length > 0) {
+    errors.push(`${definition.name}s cannot choose: ${invalidSkills.join(", ")}.`);
+  }
+  if (new Set(skills).size !== definition.skillChoices || skills.length !== definition.skillChoices) {
+    errors.push(`${definition.name}s choose exactly ${definition.skillChoices} different skills.`);
+  }
+
+  if (errors.length > 0) return { ok: false, errors };
+
+  const abilities = Object.fromEntries(ABILITIES.map(ability => [ability, base[ability] + (race.bonuses[ability] ?? 0)])) as AbilityScores;
+  const sheet: CharacterSheet = {
+    race: race.name,
+    className: definition.name,
+    level: 1,
+    abilities,
+    modifiers: abilities,
+    maxHp: 0,
+    ac: 10,
+    proficiencyBonus: 2,
+    savingThrows: [...definition.savingThrows],
+    skills: skills as Skill[],
+    features: classFeatures(definition.name, 1),
+  };
+  refreshDerivedStats(sheet);
+  sheet.maxHp = Math.max(1, definition.hitDie + sheet.modifiers.con);
+  return { ok: true, sheet };
+}
+
+const isAbilityScores = (value: unknown): value is AbilityScores =>
+  typeof value === "object" && value !== null
+  && ABILITIES.every(ability => Number.isInteger((value as AbilityScores)[ability]));
+
+const isAbilityList = (value: unknown): value is Ability[] =>
+  Array.isArray(value) && value.every(ability => (ABILITIES as readonly unknown[]).includes(ability));
+
+/**
+ * Narrow a stored sheet, e.g. from an archive, to a CharacterSheet of a known race and class.
+ */
+export function isCharacterSheet(value: unknown): value is CharacterSheet {
+  if (typeof value !== "object" || value === null) return false;
+  const sheet = value as CharacterSheet;
+  return typeof sheet.race === "string" && RACES[sheet.race.toLowerCase()] !== undefined
+    && typeof sheet.className === "string" && CLASSES[sheet.className.toLowerCase()] !== undefined
+    && Number.isInteger(sheet.level) && sheet.level >= 1 && sheet.level <= 20
+    && isAbilityScores(sheet.abilities) && isAbilityScores(sheet.modifiers)
+    && Number.isInteger(sheet.maxHp) && sheet.maxHp >= 1
+    && Number.isInteger(sheet.ac)
+    && Number.isInteger(sheet.proficiencyBonus)
+    && isAbilityList(sheet.savingThrows)
+    && Array.isArray(sheet.skills) && sheet.skills.every(skill => ALL_SKILLS.includes(skill))
+    && (sheet.features === undefined || (Array.isArray(sheet.features) && sheet.features.every(feature => typeof feature === "string")));
+}
+
+/**
+ * Sheet used when a client joins without choosing a character (and for legacy players).
+ */
+export function defaultCharacter(): CharacterSheet {
+  const result = createCharacter({ race: "human", className: "fighter" });
+  if (!result.ok) throw new Error("Default character is invalid");
+  return result.sheet;
+}
+
+export function classFeatures(className: string, level: number): string[] {
+  const key = className.toLowerCase();
+  const features = [...(CLASS_FEATURES[key]?.[level] ?? [])];
+  if ((ASI_LEVELS[key] ?? ASI_LEVELS.default).includes(level)) features.push(ABILITY_SCORE_IMPROVEMENT);
+  return features;
+}
+
+export function hitDieFor(className: string): number {
+  return CLASSES[className.toLowerCase()]?.hitDie ?? 8;
+}
+
+export function maxHpOf(player: Player): number {
+  return player.character?.maxHp ?? DEFAULT_MAX_HP;
+}
+
+export function savingThrowBonus(sheet: CharacterSheet, ability: Ability): number {
+  return sheet.modifiers[ability] + (sheet.savingThrows.includes(ability) ? sheet.proficiencyBonus : 0);
+}
+
+export function skillBonus(sheet: CharacterSheet, skill: Skill): number {
+  return sheet.modifiers[SKILLS[skill]] + (sheet.skills.includes(skill) ? sheet.proficiencyBonus : 0);
+}
+
+/**
+ * One-line sheet for the DM prompt.
+ */
+export function describeCharacter(player: Player): string {
+  const sheet = player.character;
+  if (!sheet) return `${player.name} | HP ${player.hp}/${maxHpOf(player)}`;
+  const scores = ABILITIES.map(ability => `${ability.toUpperCase()} ${sheet.abilities[ability]}(${formatBonus(sheet.modifiers[ability])})`).join(" ");
+  const saves = sheet.savingThrows.map(ability => `${ability.toUpperCase()} ${formatBonus(savingThrowBonus(sheet, ability))}`).join(", ");
+  const skills = sheet.skills.map(skill => `${skill} ${formatBonus(skillBonus(sheet, skill))}`).join(", ");
+  const features = sheet.features?.length ? ` | Features: ${sheet.features.join(", ")}` : "";
+  return `${player.name} — ${sheet.race} ${sheet.className} ${sheet.level} (${player.xp ?? 0} XP) | HP ${player.hp}/${sheet.maxHp} | AC ${sheet.ac} | PB ${formatBonus(sheet.proficiencyBonus)} | ${scores} | Saves: ${saves} | Skills: ${skills}${features}`;
+}
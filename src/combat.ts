@@ -0,0 +1,297 @@
+import { monsterModifier } from "./bestiary";
+import { Rng, rollNotation } from "./dice";
+import type { CombatState, Enemy, Player } from "./session";
+
+/**
+ * Initiative bookkeeping for CombatState. `initiative` is the source of truth for turn order;
+ * `turnOrder` mirrors its names so older clients and the DM summary keep working.
+ */
+
+export interface Combatant {
+  // Player ID for players; enemy instance ID for enemies.
+  id: string;
+  name: string;
+  kind: "player" | "enemy";
+  modifier: number;
+}
+
+export interface InitiativeEntry extends Combatant {
+  roll: number;
+  total: number;
+  // Only consulted when total and DEX modifier are both tied.
+  tiebreaker: number;
+}
+
+export interface ReadiedAction {
+  id: string;
+  name: string;
+  trigger: string;
+  round: number;
+}
+
+/**
+ * How an action sent during combat relates to the initiative order:
+ * - `turn`: the player's main action; only allowed when they are up.
+ * - `reaction`: tagged with `/react` or `[reaction]`; once per round, any time.
+ * - `speech`: `/say ...` or a fully quoted line; free, never reaches the DM.
+ */
+export type CombatActionKind = "turn" | "reaction" | "speech";
+
+export interface CombatAction {
+  kind: CombatActionKind;
+  // The action with its tag stripped.
+  text: string;
+}
+
+/**
+ * Called with the combatant whose turn just ended, before the next one starts.
+ */
+export type TurnEndHook = (ended: InitiativeEntry) => void;
+
+/**
+ * Whether a combatant can take their own turn; players who cannot are passed over like enemies.
+ */
+export type CanActCheck = (entry: InitiativeEntry) => boolean;
+
+const isPlayerEntry: CanActCheck = entry => entry.kind === "player";
+
+// Defeated enemies keep their place in the order until combat ends, but have no turns left to take.
+const isDefeated = (combat: CombatState, entry: InitiativeEntry) =>
+  combat.enemies.some(enemy => enemy.id === entry.id && enemy.hp <= 0);
+
+export const playerCombatant = (player: Player): Combatant => ({
+  id: player.id,
+  name: player.name,
+  kind: "player",
+  modifier: player.character?.modifiers.dex ?? 0,
+});
+
+export const enemyCombatant = (enemy: Enemy): Combatant => ({
+  id: enemy.id,
+  name: enemy.name,
+  kind: "enemy",
+  modifier: monsterModifier(enemy.stats, "dex"),
+});
+
+/**
+ * Provide a pristine combat template so resets never mutate shared references.
+ */
+export const defaultCombatState = (): CombatState => ({
+  active: false,
+  turnOrder: [],
+  currentTurnIndex: 0,
+  enemies: [],
+  round: 0,
+  initiative: [],
+  readied: [],
+  reactionsUsed: [],
+});
+
+/**
+ * End combat in place so callers holding the object see the reset.
+ */
+export function resetCombat(combat: CombatState) {
+  Object.assign(combat, defaultCombatState());
+}
+
+const d20 = (rng: Rng) => rollNotation("1d20", rng)!.total;
+
+/**
+ * Higher total first, then higher DEX modifier, then a hidden roll-off.
+ */
+export function compareInitiative(a: InitiativeEntry, b: InitiativeEntry): number {
+  return b.total - a.total || b.modifier - a.modifier || b.tiebreaker - a.tiebreaker;
+}
+
+export function rollInitiative(combatant: Combatant, rng: Rng): InitiativeEntry {
+  const roll = d20(rng);
+  return { ...combatant, roll, total: roll + combatant.modifier, tiebreaker: d20(rng) };
+}
+
+function syncTurnOrder(combat: CombatState) {
+  combat.turnOrder = combat.initiative.map(entry => entry.name);
+}
+
+/**
+ * Roll initiative for everyone and start round one.
+ */
+export function beginCombat(combat: CombatState, combatants: Combatant[], rng: Rng) {
+  combat.active = true;
+  combat.initiative = combatants.map(combatant => rollInitiative(combatant, rng)).sort(compareInitiative);
+  combat.currentTurnIndex = 0;
+  combat.round = 1;
+  combat.readied = [];
+  combat.reactionsUsed = [];
+  syncTurnOrder(combat);
+}
+
+/**
+ * Slot a late arrival into the order by initiative without changing whose turn it is.
+ * Someone who would have acted earlier this round simply waits for the next one.
+ */
+export function addCombatant(combat: CombatState, combatant: Combatant, rng: Rng): InitiativeEntry | undefined {
+  if (!combat.active || combat.initiative.some(entry => entry.id === combatant.id)) return undefined;
+  const entry = rollInitiative(combatant, rng);
+  let index = combat.initiative.findIndex(existing => compareInitiative(entry, existing) < 0);
+  if (index === -1) index = combat.initiative.length;
+  combat.initiative.splice(index, 0, entry);
+  if (index <= combat.currentTurnIndex && combat.initiative.length > 1) {
+    combat.currentTurnIndex++;
+  }
+  syncTurnOrder(combat);
+  return entry;
+}
+
+/**
+ * Take a combatant out of the order, e.g. a player who left the table. If it was their turn, the
+ * next combatant is up without a turn ending, so no turn-end effects fire for the one who left.
+ */
+export function removeCombatant(combat: CombatState, id: string) {
+  const index = combat.initiative.findIndex(entry => entry.id === id);
+  if (index === -1) return;
+  combat.initiative.splice(index, 1);
+  combat.readied = combat.readied.filter(readied => readied.id !== id);
+  combat.reactionsUsed = combat.reactionsUsed.filter(used => used !== id);
+  if (index < combat.currentTurnIndex) {
+    combat.currentTurnIndex--;
+  } else if (combat.currentTurnIndex >= combat.initiative.length) {
+    combat.currentTurnIndex = 0;
+    combat.round++;
+  }
+  syncTurnOrder(combat);
+}
+
+export function currentCombatant(combat: CombatState): InitiativeEntry | undefined {
+  if (!combat.active) return undefined;
+  return combat.initiative[combat.currentTurnIndex];
+}
+
+/**
+ * Move to the next combatant, starting a new round after the last one. Readied actions expire
+ * and reactions come back when their owner's turn comes around again.
+ */
+export function advanceTurn(combat: CombatState, onTurnEnd?: TurnEndHook) {
+  if (!combat.active || combat.initiative.length === 0) return;
+  const ended = currentCombatant(combat);
+  if (ended) onTurnEnd?.(ended);
+  combat.currentTurnIndex++;
+  if (combat.currentTurnIndex >= combat.initiative.length) {
+    combat.currentTurnIndex = 0;
+    combat.round++;
+  }
+  const current = currentCombatant(combat);
+  combat.readied = combat.readied.filter(readied => readied.id !== current?.id);
+  combat.reactionsUsed = combat.reactionsUsed.filter(id => id !== current?.id);
+}
+
+/**
+ * The player whose action the table is waiting on: the current combatant, or the first player
+ * after the enemies whose turns come before theirs. The DM narrates those enemy turns as part
+ * of that player's action, so enemies never stall the table. Players failing `canAct`
+ * (unconscious, dead) are skipped the same way.
+ */
+export function actingPlayer(combat: CombatState, canAct: CanActCheck = isPlayerEntry): InitiativeEntry | undefined {
+  if (!combat.active) return undefined;
+  const count = combat.initiative.length;
+  for (let offset = 0; offset < count; offset++) {
+    const entry = combat.initiative[(combat.currentTurnIndex + offset) % count];
+    if (entry.kind === "player" && canAct(entry)) return entry;
+  }
+  return undefined;
+}
+
+/**
+ * Enemies still standing that act before `id` gets their turn, in order.
+ */
+export function enemiesBefore(combat: CombatState, id: string): InitiativeEntry[] {
+  const count = combat.initiative.length;
+  const enemies: InitiativeEntry[] = [];
+  for (let offset = 0; offset < count; offset++) {
+    const entry = combat.initiative[(combat.currentTurnIndex + offset) % count];
+    if (entry.id === id) return enemies;
+    if (entry.kind === "enemy" && !isDefeated(combat, entry)) enemies.push(entry);
+  }
+  return [];
+}
+
+/**
+ * Finish `id`'s turn, along with any enemy turns that preceded it. No-op when `id` is not the acting player,
+ * so a stale or duplicate request can never move the order twice.
+ */
+export function completeTurn(combat: CombatState, id: string, onTurnEnd?: TurnEndHook, canAct?: CanActCheck) {
+  if (actingPlayer(combat, canAct)?.id !== id) return;
+  let finished: InitiativeEntry | undefined;
+  do {
+    finished = currentCombatant(combat);
+    advanceTurn(combat, onTurnEnd);
+  } while (finished && finished.id !== id);
+}
+
+/**
+ * Spend `id`'s reaction for the round. A readied action is fired by its reaction, so it is consumed too.
+ */
+export function useReaction(combat: CombatState, id: string): string | null {
+  if (combat.reactionsUsed.includes(id)) return "You have already used your reaction this round.";
+  combat.reactionsUsed.push(id);
+  combat.readied = combat.readied.filter(readied => readied.id !== id);
+  return null;
+}
+
+/**
+ * Split off the reaction and speech tags players use to act outside their turn.
+ */
+export function classifyCombatAction(action: string): CombatAction {
+  const trimmed = action.trim();
+  const reaction = trimmed.match(/^(?:\/react(?:ion)?\b|\[reaction\])\s*(.*)$/is);
+  if (reaction) return { kind: "reaction", text: reaction[1] };
+  const speech = trimmed.match(/^\/say\b\s*(.*)$/is);
+  if (speech) return { kind: "speech", text: speech[1] };
+  if (/^["“][^"“”]+["”]$/.test(trimmed)) return { kind: "speech", text: trimmed };
+  return { kind: "turn", text: trimmed };
+}
+
+/**
+ * The current combatant postpones their turn until right after `afterId` (or the end of the round).
+ * Returns an error message when the delay is not possible.
+ */
+export function delayTurn(combat: CombatState, id: string, afterId?: string): string | null {
+  const current = currentCombatant(combat);
+  if (!current || current.id !== id) return "You can only delay on your own turn.";
+
+  const index = combat.currentTurnIndex;
+  const remaining = combat.initiative.slice(index + 1);
+  if (remaining.length === 0) return "You already act last this round.";
+
+  let insertAfter = remaining.length - 1;
+  if (afterId) {
+    insertAfter = remaining.findIndex(entry => entry.id === afterId);
+    if (insertAfter === -1) return "You can only delay until after someone who has not acted yet this round.";
+  }
+
+  // The next combatant slides into the current slot, so the index already points at them.
+  combat.initiative.splice(index, 1);
+  combat.initiative.splice(index + insertAfter + 1, 0, current);
+  syncTurnOrder(combat);
+  return null;
+}
+
+/**
+ * The current combatant readies an action against a trigger and ends their turn.
+ */
+export function readyAction(combat: CombatState, id: string, trigger: string, onTurnEnd?: TurnEndHook): string | null {
+  const current = currentCombatant(combat);
+  if (!current || current.id !== id) return "You can only ready an action on your own turn.";
+  combat.readied.push({ id, name: current.name, trigger, round: combat.round });
+  advanceTurn(combat, onTurnEnd);
+  return null;
+}
+
+/**
+ * Transcript line announcing the rolled order.
+ */
+export function describeInitiative(combat: CombatState): string {
+  const order = combat.initiative
+    .map(entry => `${entry.name} ${entry.total} (d20 ${entry.roll}${entry.modifier >= 0 ? "+" : ""}${entry.modifier})`)
+    .join(", ");
+  return `Initiative: ${order}`;
+}
@@ -0,0 +1,149 @@
+import { monsterModifier } from "./bestiary";
+import { Ability, ABILITIES, savingThrowBonus } from "./character";
+import { Rng, rollNotation } from "./dice";
+import type { Enemy, Player } from "./session";
+
+/**
+ * 5e conditions plus concentration. A condition lasts until removed, for a number of rounds,
+ * or until its bearer passes a saving throw at the end of their turn — whichever comes first.
+ */
+export const CONDITIONS = [
+  "blinded",
+  "charmed",
+  "deafened",
+  "frightened",
+  "grappled",
+  "incapacitated",
+  "invisible",
+  "paralyzed",
+  "petrified",
+  "poisoned",
+  "prone",
+  "restrained",
+  "stunned",
+  "unconscious",
+  "concentrating",
+] as const;
+export type ConditionName = typeof CONDITIONS[number];
+
+export interface ConditionSave {
+  ability: Ability;
+  dc: number;
+}
+
+export interface Condition {
+  name: ConditionName;
+  // Counts down at the end of each of the bearer's turns; absent means no time limit.
+  roundsRemaining?: number;
+  save?: ConditionSave;
+  // What caused it, e.g. "Giant Spider bite"; shown to the DM only.
+  source?: string;
+}
+
+type Creature = Player | Enemy;
+
+export const isConditionName = (value: unknown): value is ConditionName =>
+  typeof value === "string" && (CONDITIONS as readonly string[]).includes(value);
+
+export const isAbility = (value: unknown): value is Ability =>
+  typeof value === "string" && (ABILITIES as readonly string[]).includes(value);
+
+export const isConditionSave = (value: unknown): value is ConditionSave =>
+  typeof value === "object" && value !== null
+  && isAbility((value as ConditionSave).ability)
+  && Number.isInteger((value as ConditionSave).dc) && (value as ConditionSave).dc > 0;
+
+/**
+ * Narrow a stored condition, e.g. from an archive, to a Condition.
+ */
+export function isCondition(value: unknown): value is Condition {
+  if (typeof value !== "object" || value === null) return false;
+  const condition = value as Condition;
+  return isConditionName(condition.name)
+    && (condition.roundsRemaining === undefined || (Number.isInteger(condition.roundsRemaining) && condition.roundsRemaining > 0))
+    && (condition.save === undefined || isConditionSave(condition.save))
+    && (condition.source === undefined || typeof condition.source === "string");
+}
+
+/**
+ * Add or refresh a condition. Reapplying keeps one entry and takes the new duration and save.
+ */
+export function addCondition(creature: Creature, condition: Condition) {
+  const conditions = (creature.conditions ??= []);
+  const index = conditions.findIndex(existing => existing.name === condition.name);
+  if (index === -1) {
+    conditions.push(condition);
+  } else {
+    conditions[index] = condition;
+  }
+}
+
+export function removeCondition(creature: Creature, name: ConditionName): boolean {
+  const before = creature.conditions?.length ?? 0;
+  creature.conditions = creature.conditions?.filter(condition => condition.name !== name);
+  return (creature.conditions?.length ?? 0) < before;
+}
+
+export function hasCondition(creature: Creature, name: ConditionName): boolean {
+  return creature.conditions?.some(condition => condition.name === name) ?? false;
+}
+
+/**
+ * End-of-turn bookkeeping: attempt saves, then count durations down. Returns transcript lines
+ * describing every save and every condition that ended.
+ */
+export function tickConditions(creature: Creature, rng: Rng): string[] {
+  if (!creature.conditions?.length) return [];
+  const lines: string[] = [];
+
+  creature.conditions = creature.conditions.filter(condition => {
+    if (condition.save) {
+      const bonus = "inventory" in creature
+        ? (creature.character ? savingThrowBonus(creature.character, condition.save.ability) : 0)
+        : monsterModifier(creature.stats, condition.save.ability);
+      const roll = rollNotation("1d20", rng)!.total;
+      const total = roll + bonus;
+      const saved = total >= condition.save.dc;
+      lines.push(
+        `${creature.name} rolls a ${condition.save.ability.toUpperCase()} save against ${condition.name} (DC ${condition.save.dc}): `
+        + `d20 ${roll}${bonus >= 0 ? "+" : ""}${bonus} = ${total}, ${saved ? `success. ${creature.name} is no longer ${condition.name}.` : "failure."}`,
+      );
+      if (saved) return false;
+    }
+    if (condition.roundsRemaining !== undefined) {
+      condition.roundsRemaining--;
+      if (condition.roundsRemaining <= 0) {
+        lines.push(`${creature.name} is no longer ${condition.name}.`);
+        return false;
+      }
+    }
+    return true;
+  });
+  return lines;
+}
+
+/**
+ * Rounds stop counting once a fight is over, so timed conditions lapse with it. Untimed ones stay
+ * until the DM removes them. Returns the names that ended.
+ */
+export function clearTimedConditions(creature: Creature): ConditionName[] {
+  const ended = (creature.conditions ?? []).filter(condition => condition.roundsRemaining !== undefined || condition.save);
+  creature.conditions = creature.conditions?.filter(condition => !ended.includes(condition));
+  return ended.map(condition => condition.name);
+}
+
+/**
+ * Compact form for the DM summary, e.g. "poisoned (2 rounds), prone, frightened (WIS save DC 13)".
+ */
+export function describeConditions(creature: Creature): string {
+  return (creature.conditions ?? [])
+    .map(condition => {
+      const details = [
+        condition.roundsRemaining !== undefined ? `${condition.roundsRemaining} round${condition.roundsRemaining === 1 ? "" : "s"}` : "",
+        condition.save ? `${condition.save.ability.toUpperCase()} save DC ${condition.save.dc}` : "",
+        condition.source ? `from ${condition.source}` : "",
+      ].filter(Boolean);
+      return details.length > 0 ? `${condition.name} (${details.join(", ")})` : condition.name;
+    })
+    .join(", ");
+}
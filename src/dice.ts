@@ -0,0 +1,253 @@
+/**
+ * Server-side dice engine. Every roll shown to players or handed to the DM comes from here, so
+ * results are reproducible (given a seed) and never invented by the model.
+ *
+ * Supported notation, combined with `+`/`-` across up to MAX_TERMS terms:
+ * - `NdM` and `d%` (e.g. `2d6`, `d20`, `d%`)
+ * - keep/drop highest/lowest: `4d6kh3`, `4d6dl1`, `2d20kl1`
+ * - advantage/disadvantage on a single die: `d20adv`, `d20dis`
+ * - exploding dice, rerolling and adding on the maximum face: `3d6!`
+ * - flat modifiers: `2d6+3`, `d20-1`
+ */
+
+export type Rng = () => number;
+
+export interface DieResult {
+  value: number;
+  dropped: boolean;
+  exploded: boolean;
+}
+
+export interface TermResult {
+  kind: "dice" | "constant";
+  notation: string;
+  sign: 1 | -1;
+  dice: DieResult[];
+  value: number;
+}
+
+export interface RollResult {
+  notation: string;
+  terms: TermResult[];
+  total: number;
+}
+
+interface DiceTerm {
+  kind: "dice";
+  notation: string;
+  sign: 1 | -1;
+  count: number;
+  sides: number;
+  explode: boolean;
+  keep?: { mode: "kh" | "kl" | "dh" | "dl"; amount: number };
+}
+
+interface ConstantTerm {
+  kind: "constant";
+  notation: string;
+  sign: 1 | -1;
+  value: number;
+}
+
+type Term = DiceTerm | ConstantTerm;
+
+const MAX_TERMS = 20;
+const MAX_DICE = 100;
+const MAX_SIDES = 1000;
+const MAX_CONSTANT = 10000;
+const MAX_EXPLOSIONS = 100;
+const DICE_PATTERN = /^(\d*)d(\d+|%)(!)?(?:(kh|kl|dh|dl)(\d+))?(adv|dis)?$/;
+const CONSTANT_PATTERN = /^\d+$/;
+
+/**
+ * Dice handed to the DM before every narration so attack rolls, saves and damage use real numbers.
+ */
+const DM_DICE_TRAY = ["1d20", "1d20", "1d20", "1d20", "1d4", "1d6", "1d6", "1d8", "1d8", "1d10", "1d12"] as const;
+
+/**
+ * Most inline notations rolled for a single action; anything past this stays plain text.
+ */
+export const MAX_DECLARED_ROLLS = 4;
+
+/**
+ * Where a seeded sequence stands: its seed and how many numbers were drawn from it. Saving the
+ * position lets a session resume the same sequence, and replaying from draw 0 audits every roll.
+ */
+export interface RngPosition {
+  seed: number;
+  draws: number;
+}
+
+/**
+ * mulberry32: tiny, fast and good enough for tabletop dice. Same seed, same sequence.
+ */
+export function createRng(seed: number = randomSeed()): Rng {
+  return trackedRng({ seed, draws: 0 });
+}
+
+/**
+ * Draws from `position`'s sequence and advances `position.draws` as it goes; reassigning the
+ * position's fields moves the generator along with it.
+ */
+export function trackedRng(position: RngPosition): Rng {
+  return () => {
+    // mulberry32's state after n draws is the seed plus n steps, so any position is reachable at once.
+    let t = (position.seed + Math.imul(++position.draws, 0x6d2b79f5)) >>> 0;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function randomSeed(): number {
+  const buffer = new Uint32Array(1);
+  crypto.getRandomValues(buffer);
+  return buffer[0];
+}
+
+/**
+ * Parse notation into terms; returns null for anything outside the supported grammar or limits.
+ */
+function parseNotation(notation: string): Term[] | null {
+  const compact = notation.replace(/\s+/g, "").toLowerCase();
+  if (!compact) return null;
+
+  const tokens = compact.split(/([+-])/);
+  if (tokens[0] === "") {
+    // Leading sign, e.g. "-1+d4".
+    tokens.shift();
+  } else {
+    tokens.unshift("+");
+  }
+  if (tokens.length % 2 !== 0 || tokens.length / 2 > MAX_TERMS) return null;
+
+  const terms: Term[] = [];
+  for (let i = 0; i < tokens.length; i += 2) {
+    const sign = tokens[i] === "-" ? -1 : 1;
+    const term = parseTerm(tokens[i + 1], sign);
+    if (!term) return null;
+    terms.push(term);
+  }
+  return terms;
+}
+
+function parseTerm(token: string, sign: 1 | -1): Term | null {
+  if (CONSTANT_PATTERN.test(token)) {
+    const value = parseInt(token, 10);
+    return value <= MAX_CONSTANT ? { kind: "constant", notation: token, sign, value } : null;
+  }
+
+  const match = token.match(DICE_PATTERN);
+  if (!match) return null;
+  const [, rawCount, rawSides, bang, keepMode, rawKeep, edge] = match;
+
+  let count = rawCount ? parseInt(rawCount, 10) : 1;
+  const sides = rawSides === "%" ? 100 : parseInt(rawSides, 10);
+  const explode = bang === "!";
+  let keep: DiceTerm["keep"];
+
+  if (count < 1 || count > MAX_DICE || sides < 1 || sides > MAX_SIDES) return null;
+  // A one-sided exploding die would never stop.
+  if (explode && sides === 1) return null;
+
+  if (keepMode) {
+    const amount = parseInt(rawKeep, 10);
+    if (amount < 1 || amount > count) return null;
+    keep = { mode: keepMode as "kh" | "kl" | "dh" | "dl", amount };
+  }
+
+  if (edge) {
+    if (count !== 1 || keep) return null;
+    count = 2;
+    keep = { mode: edge === "adv" ? "kh" : "kl", amount: 1 };
+  }
+
+  return { kind: "dice", notation: token, sign, count, sides, explode, keep };
+}
+
+function rollDie(sides: number, rng: Rng): number {
+  return Math.floor(rng() * sides) + 1;
+}
+
+function rollTerm(term: Term, rng: Rng): TermResult {
+  if (term.kind === "constant") {
+    return { kind: "constant", notation: term.notation, sign: term.sign, dice: [], value: term.value };
+  }
+
+  const dice: DieResult[] = [];
+  let explosions = 0;
+  for (let i = 0; i < term.count; i++) {
+    let value = rollDie(term.sides, rng);
+    dice.push({ value, dropped: false, exploded: false });
+    while (term.explode && value === term.sides && explosions < MAX_EXPLOSIONS) {
+      dice[dice.length - 1].exploded = true;
+      explosions++;
+      value = rollDie(term.sides, rng);
+      dice.push({ value, dropped: false, exploded: false });
+    }
+  }
+
+  if (term.keep) {
+    // Sort indices rather than dice so the log keeps the original roll order.
+    const byValue = dice.map((die, index) => ({ die, index })).sort((a, b) => a.die.value - b.die.value || a.index - b.index);
+    const { mode, amount } = term.keep;
+    const dropCount = mode === "kh" || mode === "kl" ? Math.max(0, dice.length - amount) : Math.min(amount, dice.length);
+    const dropLowest = mode === "kh" || mode === "dl";
+    const toDrop = dropLowest ? byValue.slice(0, dropCount) : byValue.slice(byValue.length - dropCount);
+    toDrop.forEach(({ die }) => { die.dropped = true; });
+  }
+
+  const value = dice.filter(die => !die.dropped).reduce((sum, die) => sum + die.value, 0);
+  return { kind: "dice", notation: term.notation, sign: term.sign, dice, value };
+}
+
+/**
+ * Cheap check used to decide whether a string is worth rolling.
+ */
+export function isValidNotation(notation: string): boolean {
+  return parseNotation(notation) !== null;
+}
+
+/**
+ * Roll a full expression. Returns null when the notation cannot be parsed.
+ */
+export function rollNotation(notation: string, rng: Rng): RollResult | null {
+  const terms = parseNotation(notation);
+  if (!terms) return null;
+
+  const results = terms.map(term => rollTerm(term, rng));
+  const total = results.reduce((sum, term) => sum + term.sign * term.value, 0);
+  return { notation: notation.replace(/\s+/g, "").toLowerCase(), terms: results, total };
+}
+
+/**
+ * Roll the fixed tray of dice the DM consumes in order while narrating a turn.
+ */
+export function rollDiceTray(rng: Rng): RollResult[] {
+  return DM_DICE_TRAY.map(notation => rollNotation(notation, rng)!);
+}
+
+/**
+ * Pull inline notation such as "I swing, 1d20+5" out of free text, keeping at most
+ * {@link MAX_DECLARED_ROLLS} of them.
+ */
+export function findNotations(text: string): string[] {
+  // Grab anything dice-shaped, then let the real parser decide what is valid.
+  const candidates = text.match(/\b\d*d(?:\d+|%)[a-z\d!]*(?:\s*[+-]\s*\d*d?(?:\d+|%)[a-z\d!]*)*/gi) ?? [];
+  return candidates.filter(isValidNotation).slice(0, MAX_DECLARED_ROLLS);
+}
+
+/**
+ * Human-readable roll line, e.g. `4d6kh3+2: [6, 5, ~1~, 3] + 2 = 16`. Dropped dice are wrapped
+ * in tildes and exploded dice carry a trailing `!`.
+ */
+export function formatRoll(result: RollResult): string {
+  const parts = result.terms.map((term, index) => {
+    const body = term.kind === "constant"
+      ? String(term.value)
+      : `[${term.dice.map(die => `${die.dropped ? "~" : ""}${die.value}${die.exploded ? "!" : ""}${die.dropped ? "~" : ""}`).join(", ")}]`;
+    if (index === 0) return term.sign === -1 ? `-${body}` : body;
+    return `${term.sign === -1 ? "-" : "+"} ${body}`;
+  });
+  return `${result.notation}: ${parts.join(" ")} = ${result.total}`;
+}
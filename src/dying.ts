@@ -0,0 +1,163 @@
+import { maxHpOf } from "./character";
+import { addCondition, removeCondition } from "./conditions";
+import { Rng, rollNotation } from "./dice";
+import type { Player } from "./session";
+
+/**
+ * 5e dying rules. A character dropped to 0 HP falls unconscious and rolls a death save at the end
+ * of each of their turns: three successes stabilize them, three failures kill them. Damage taken
+ * while down counts as a failure, and damage that overflows 0 HP by their max HP kills outright.
+ * Any healing brings a living character back.
+ */
+
+export interface DeathSaves {
+  successes: number;
+  failures: number;
+  // Stable characters stop rolling but stay unconscious at 0 HP until healed.
+  stable: boolean;
+}
+
+const SAVES_NEEDED = 3;
+
+export const isDeathSaves = (value: unknown): value is DeathSaves =>
+  typeof value === "object" && value !== null
+  && [(value as DeathSaves).successes, (value as DeathSaves).failures].every(count => Number.isInteger(count) && count >= 0 && count <= SAVES_NEEDED)
+  && typeof (value as DeathSaves).stable === "boolean";
+
+const freshSaves = (): DeathSaves => ({ successes: 0, failures: 0, stable: false });
+
+export const isDead = (player: Player) => player.dead === true;
+
+/**
+ * Unconscious or dead: either way the character cannot take actions.
+ */
+export const isDown = (player: Player) => isDead(player) || player.hp <= 0;
+
+export const isDying = (player: Player) => !isDead(player) && player.hp <= 0 && !player.deathSaves?.stable;
+
+function die(player: Player) {
+  player.hp = 0;
+  player.dead = true;
+  player.deathSaves = undefined;
+  player.conditions = [];
+}
+
+function fallUnconscious(player: Player) {
+  player.hp = 0;
+  player.deathSaves = freshSaves();
+  addCondition(player, { name: "unconscious", source: "0 HP" });
+}
+
+function recordFailures(player: Player, count: number) {
+  const saves = (player.deathSaves ??= freshSaves());
+  saves.stable = false;
+  saves.failures = Math.min(SAVES_NEEDED, saves.failures + count);
+  if (saves.failures >= SAVES_NEEDED) die(player);
+}
+
+export function damagePlayer(player: Player, amount: number) {
+  if (isDead(player) || amount <= 0) return;
+  const maxHp = maxHpOf(player);
+
+  if (player.hp <= 0) {
+    // Massive damage while down is fatal; anything else costs a death save.
+    if (amount >= maxHp) {
+      die(player);
+    } else {
+      recordFailures(player, 1);
+    }
+    return;
+  }
+
+  const remaining = player.hp - amount;
+  if (remaining > 0) {
+    player.hp = remaining;
+  } else if (-remaining >= maxHp) {
+    die(player);
+  } else {
+    fallUnconscious(player);
+  }
+}
+
+export function healPlayer(player: Player, amount: number) {
+  if (isDead(player) || amount <= 0) return;
+  const wasDown = player.hp <= 0;
+  player.hp = Math.min(maxHpOf(player), Math.max(0, player.hp) + amount);
+  if (wasDown) revive(player);
+}
+
+function revive(player: Player) {
+  player.deathSaves = undefined;
+  removeCondition(player, "unconscious");
+}
+
+/**
+ * Spare the Dying, a Medicine check and the like. Returns false when there was nobody to stabilize.
+ */
+export function stabilize(player: Player): boolean {
+  if (!isDying(player)) return false;
+  (player.deathSaves ??= freshSaves()).stable = true;
+  return true;
+}
+
+/**
+ * Roll one death save and return the transcript line. A natural 20 brings the character back with
+ * 1 HP and a natural 1 counts as two failures.
+ */
+export function rollDeathSave(player: Player, rng: Rng): string | null {
+  if (!isDying(player)) return null;
+  const roll = rollNotation("1d20", rng)!.total;
+  const saves = (player.deathSaves ??= freshSaves());
+  const prefix = `${player.name} makes a death saving throw: d20 ${roll}`;
+
+  if (roll === 20) {
+    player.hp = 1;
+    revive(player);
+    return `${prefix}, a natural 20! ${player.name} regains consciousness with 1 HP.`;
+  }
+  if (roll < 10) {
+    recordFailures(player, roll === 1 ? 2 : 1);
+    return isDead(player)
+      ? `${prefix}, ${roll === 1 ? "a natural 1" : "failure"}. ${player.name} has died.`
+      : `${prefix}, ${roll === 1 ? "a natural 1, two failures" : "failure"} (${saves.successes}/3 successes, ${saves.failures}/3 failures).`;
+  }
+  saves.successes++;
+  if (saves.successes >= SAVES_NEEDED) {
+    saves.stable = true;
+    return `${prefix}, success. ${player.name} is stable.`;
+  }
+  return `${prefix}, success (${saves.successes}/3 successes, ${saves.failures}/3 failures).`;
+}
+
+export interface Vitals {
+  hp: number;
+  dead: boolean;
+}
+
+export const vitalsOf = (player: Player): Vitals => ({ hp: player.hp, dead: isDead(player) });
+
+/**
+ * Transcript line for a change in whether a character is up, down or dead, if there was one.
+ */
+export function describeVitalChange(before: Vitals, player: Player): string | null {
+  if (!before.dead && isDead(player)) {
+    return before.hp > 0 ? `${player.name} is killed outright!` : `${player.name} has died.`;
+  }
+  if (before.hp > 0 && player.hp <= 0 && !isDead(player)) {
+    return `${player.name} falls unconscious and is dying.`;
+  }
+  if (before.hp <= 0 && player.hp > 0) {
+    return `${player.name} regains consciousness.`;
+  }
+  return null;
+}
+
+/**
+ * DM summary tag, e.g. "dying (1/3 successes, 2/3 failures)".
+ */
+export function describeVitals(player: Player): string {
+  if (isDead(player)) return "dead";
+  if (player.hp > 0) return "";
+  const saves = player.deathSaves ?? freshSaves();
+  return saves.stable ? "stable" : `dying (${saves.successes}/3 successes, ${saves.failures}/3 failures)`;
+}
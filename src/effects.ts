@@ -0,0 +1,298 @@
+import { Bestiary, loadBestiary } from "./bestiary";
+import { addCombatant, beginCombat, enemyCombatant, playerCombatant, resetCombat } from "./combat";
+import { addCondition, ConditionName, ConditionSave, isConditionName, isConditionSave, removeCondition } from "./conditions";
+import { createRng, Rng } from "./dice";
+import { damagePlayer, healPlayer, isDead, stabilize } from "./dying";
+import { findEnemy, MAX_SPAWN_COUNT, spawnEnemies } from "./enemies";
+import type { CombatState, Enemy, Player } from "./session";
+import { addItem, adjustPurse, COINS, createItem, emptyPurse, formatCoins, isCoinChange, MAX_ITEM_QUANTITY, removeItem } from "./inventory";
+import { gainXp, MAX_MILESTONE_XP } from "./progression";
+import { IS_LOCAL_DEV } from "./runtime";
+
+/**
+ * Machine-readable outcomes the DM appends to its narration inside an <effects> block.
+ */
+export type DmEffect =
+  | { type: "damage"; target: string; amount: number }
+  | { type: "heal"; target: string; amount: number }
+  // quantity defaults to 1.
+  | { type: "item_gained"; target: string; item: string; quantity?: number }
+  | { type: "item_lost"; target: string; item: string; quantity?: number }
+  // Signed coin changes, e.g. { gp: 15 } for loot or { sp: -5 } for a purchase.
+  | { type: "coins"; target: string; gp?: number; sp?: number; cp?: number }
+  // hp is optional: bestiary monsters roll their hit dice when it is omitted. count defaults to 1.
+  | { type: "enemy_spawn"; name: string; hp?: number; count?: number }
+  | { type: "combat_start" }
+  | { type: "combat_end" }
+  | { type: "condition_add"; target: string; condition: ConditionName; rounds?: number; save?: ConditionSave; source?: string }
+  | { type: "condition_remove"; target: string; condition: ConditionName }
+  | { type: "stabilize"; target: string }
+  // Story XP; without a target it goes to every living party member.
+  | { type: "milestone"; amount: number; target?: string; reason?: string };
+
+const isPositiveInt = (value: unknown): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value > 0;
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === "string" && value.trim().length > 0;
+
+/**
+ * Narrow a single decoded entry to a DmEffect; unknown types or malformed fields are rejected.
+ */
+export function isDmEffect(value: unknown): value is DmEffect {
+  if (typeof value !== "object" || value === null) return false;
+  const effect = value as Record<string, unknown>;
+  switch (effect.type) {
+    case "damage":
+    case "heal":
+      return isNonEmptyString(effect.target) && isPositiveInt(effect.amount);
+    case "item_gained":
+    case "item_lost":
+      return isNonEmptyString(effect.target) && isNonEmptyString(effect.item)
+        && (effect.quantity === undefined || (isPositiveInt(effect.quantity) && effect.quantity <= MAX_ITEM_QUANTITY));
+    case "coins":
+      return isNonEmptyString(effect.target)
+        && COINS.every(coin => effect[coin] === undefined || isCoinChange(effect[coin]))
+        && COINS.some(coin => effect[coin] !== undefined);
+    case "enemy_spawn":
+      return isNonEmptyString(effect.name) && (effect.hp === undefined || isPositiveInt(effect.hp))
+        && (effect.count === undefined || (isPositiveInt(effect.count) && effect.count <= MAX_SPAWN_COUNT));
+    case "combat_start":
+    case "combat_end":
+      return true;
+    case "condition_add":
+      return isNonEmptyString(effect.target) && isConditionName(effect.condition)
+        && (effect.rounds === undefined || isPositiveInt(effect.rounds))
+        && (effect.save === undefined || isConditionSave(effect.save))
+        && (effect.source === undefined || typeof effect.source === "string");
+    case "condition_remove":
+      return isNonEmptyString(effect.target) && isConditionName(effect.condition);
+    case "stabilize":
+      return isNonEmptyString(effect.target);
+    case "milestone":
+      return isPositiveInt(effect.amount) && effect.amount <= MAX_MILESTONE_XP
+        && (effect.target === undefined || isNonEmptyString(effect.target))
+        && (effect.reason === undefined || typeof effect.reason === "string");
+    default:
+      return false;
+  }
+}
+
+/**
+ * Decode the raw contents of an <effects> block. Returns null when the block is not valid JSON
+ * or any entry fails the schema, so callers can fall back to prose parsing as a whole.
+ */
+export function parseEffects(raw: string): DmEffect[] | null {
+  // Models like to wrap JSON in markdown fences even when told not to.
+  const json = raw.trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(json);
+  } catch {
+    return null;
+  }
+  if (!Array.isArray(decoded) || !decoded.every(isDmEffect)) {
+    return null;
+  }
+  return decoded;
+}
+
+/**
+ * Applies validated DM effects to session state. Unlike EffectResolver it never guesses:
+ * targets must name a known player or enemy, otherwise the effect is skipped.
+ */
+export class EffectApplier {
+  constructor(private readonly rng: Rng = createRng(), private readonly bestiary: Bestiary = loadBestiary().bestiary) {}
+
+  apply(effects: DmEffect[], players: Map<string, Player>, combat: CombatState) {
+    for (const effect of effects) {
+      switch (effect.type) {
+        case "damage":
+          this.applyDamage(effect.target, effect.amount, players, combat);
+          break;
+        case "heal":
+          this.applyHealing(effect.target, effect.amount, players);
+          break;
+        case "item_gained":
+          this.gainItem(effect.target, effect.item, effect.quantity ?? 1, players);
+          break;
+        case "item_lost":
+          this.loseItem(effect.target, effect.item, effect.quantity ?? 1, players);
+          break;
+        case "coins":
+          this.changeCoins(effect, players);
+          break;
+        case "enemy_spawn":
+          this.spawnEnemy(effect.name, effect.hp, effect.count ?? 1, players, combat);
+          break;
+        case "combat_start":
+          this.startCombat(players, combat);
+          break;
+        case "combat_end":
+          this.endCombat(combat);
+          break;
+        case "condition_add":
+          this.addCondition(effect, players, combat);
+          break;
+        case "condition_remove":
+          this.removeCondition(effect.target, effect.condition, players, combat);
+          break;
+        case "stabilize":
+          this.stabilize(effect.target, players);
+          break;
+        case "milestone":
+          this.grantMilestone(effect, players);
+          break;
+      }
+    }
+
+    // Mirror EffectResolver: combat wraps up once every spawned enemy is down.
+    if (combat.active && combat.enemies.length > 0 && combat.enemies.every(e => e.hp <= 0)) {
+      this.endCombat(combat);
+    }
+  }
+
+  private applyDamage(target: string, amount: number, players: Map<string, Player>, combat: CombatState) {
+    const player = this.findPlayer(target, players);
+    if (player) {
+      const oldHp = player.hp;
+      damagePlayer(player, amount);
+      this.log(`[Damage Applied] ${player.name}: ${oldHp} → ${player.hp} (took ${amount} damage)`);
+      return;
+    }
+
+    const enemy = findEnemy(combat.enemies, target);
+    if (enemy) {
+      const oldHp = enemy.hp;
+      enemy.hp = Math.max(0, enemy.hp - amount);
+      this.log(`[Enemy Damage] ${enemy.name}: ${oldHp} → ${enemy.hp} (took ${amount} damage)`);
+      return;
+    }
+
+    this.log(`[Effect Skipped] Unknown damage target: ${target}`);
+  }
+
+  private applyHealing(target: string, amount: number, players: Map<string, Player>) {
+    const player = this.findPlayer(target, players);
+    if (!player) {
+      this.log(`[Effect Skipped] Unknown heal target: ${target}`);
+      return;
+    }
+    const oldHp = player.hp;
+    healPlayer(player, amount);
+    this.log(`[Healing Applied] ${player.name}: ${oldHp} → ${player.hp} (healed ${amount} HP)`);
+  }
+
+  private stabilize(target: string, players: Map<string, Player>) {
+    const player = this.findPlayer(target, players);
+    if (player && stabilize(player)) {
+      this.log(`[Stabilized] ${player.name}`);
+    }
+  }
+
+  private grantMilestone(effect: Extract<DmEffect, { type: "milestone" }>, players: Map<string, Player>) {
+    const recipients = effect.target
+      ? [this.findPlayer(effect.target, players)]
+      : Array.from(players.values()).filter(player => !isDead(player));
+    for (const player of recipients) {
+      if (!player) {
+        this.log(`[Effect Skipped] Unknown milestone target: ${effect.target}`);
+        continue;
+      }
+      gainXp(player, effect.amount);
+      this.log(`[Milestone] ${player.name} gained ${effect.amount} XP${effect.reason ? ` (${effect.reason})` : ""}`);
+    }
+  }
+
+  private gainItem(target: string, item: string, quantity: number, players: Map<string, Player>) {
+    const player = this.findPlayer(target, players);
+    if (!player) return;
+    const error = addItem(player, createItem(item, quantity));
+    this.log(error ? `[Effect Skipped] ${error}` : `[Item Added] ${player.name} gained: ${quantity} × ${item}`);
+  }
+
+  private loseItem(target: string, item: string, quantity: number, players: Map<string, Player>) {
+    const player = this.findPlayer(target, players);
+    if (!player) return;
+    const removed = removeItem(player, item, quantity);
+    if (removed) {
+      this.log(`[Item Removed] ${player.name} lost: ${removed.removed} × ${removed.item.name}`);
+    }
+  }
+
+  private changeCoins(effect: Extract<DmEffect, { type: "coins" }>, players: Map<string, Player>) {
+    const player = this.findPlayer(effect.target, players);
+    if (!player) {
+      this.log(`[Effect Skipped] Unknown coins target: ${effect.target}`);
+      return;
+    }
+    const error = adjustPurse(player, { gp: effect.gp, sp: effect.sp, cp: effect.cp });
+    this.log(error ? `[Effect Skipped] ${error}` : `[Coins] ${player.name}: ${formatCoins(player.purse ?? emptyPurse())}`);
+  }
+
+  private addCondition(
+    effect: Extract<DmEffect, { type: "condition_add" }>,
+    players: Map<string, Player>,
+    combat: CombatState,
+  ) {
+    const creature = this.findCreature(effect.target, players, combat);
+    if (!creature) {
+      this.log(`[Effect Skipped] Unknown condition target: ${effect.target}`);
+      return;
+    }
+    addCondition(creature, {
+      name: effect.condition,
+      roundsRemaining: effect.rounds,
+      save: effect.save,
+      source: effect.source?.trim() || undefined,
+    });
+    this.log(`[Condition Added] ${creature.name}: ${effect.condition}`);
+  }
+
+  private removeCondition(target: string, condition: ConditionName, players: Map<string, Player>, combat: CombatState) {
+    const creature = this.findCreature(target, players, combat);
+    if (creature && removeCondition(creature, condition)) {
+      this.log(`[Condition Removed] ${creature.name}: ${condition}`);
+    }
+  }
+
+  private spawnEnemy(name: string, hp: number | undefined, count: number, players: Map<string, Player>, combat: CombatState) {
+    const spawned = spawnEnemies(combat, this.bestiary, name.trim(), count, this.rng, hp);
+    this.log(`[Enemies Spawned] ${spawned.map(enemy => enemy.name).join(", ")}`);
+    if (combat.active) {
+      spawned.forEach(enemy => addCombatant(combat, enemyCombatant(enemy), this.rng));
+    } else {
+      this.startCombat(players, combat);
+    }
+  }
+
+  private startCombat(players: Map<string, Player>, combat: CombatState) {
+    if (combat.active) return;
+    const combatants = [...Array.from(players.values()).map(playerCombatant), ...combat.enemies.map(enemyCombatant)];
+    beginCombat(combat, combatants, this.rng);
+    this.log("[Combat Started]", { enemies: combat.enemies, initiative: combat.initiative });
+  }
+
+  private endCombat(combat: CombatState) {
+    resetCombat(combat);
+    this.log("[Combat Ended]");
+  }
+
+  private findPlayer(target: string, players: Map<string, Player>): Player | undefined {
+    const name = target.trim().toLowerCase();
+    return players.get(target) ?? Array.from(players.values()).find(p => p.name.toLowerCase() === name);
+  }
+
+  private findCreature(target: string, players: Map<string, Player>, combat: CombatState): Player | Enemy | undefined {
+    return this.findPlayer(target, players) ?? findEnemy(combat.enemies, target);
+  }
+
+  private log(message: string, data?: unknown) {
+    if (!IS_LOCAL_DEV) return;
+    if (data === undefined) {
+      console.log(message);
+    } else {
+      console.log(message, data);
+    }
+  }
+}
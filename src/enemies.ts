@@ -0,0 +1,103 @@
+import { Bestiary } from "./bestiary";
+import { Rng } from "./dice";
+import type { CombatState, Enemy } from "./session";
+
+/**
+ * Enemy instances. Every enemy has a stable ID and a label that is unique within the fight:
+ * a lone monster keeps its plain name ("Ogre"), while a group is lettered ("Goblin A", "Goblin B").
+ * Later arrivals of a type continue the lettering, so existing labels never change.
+ */
+
+// How many of a creature a single spawn may create; keeps runaway narration in check.
+export const MAX_SPAWN_COUNT = 10;
+
+const COUNT_WORDS: Record<string, number> = {
+  a: 1, an: 1, the: 1, one: 1,
+  two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  "a pair of": 2, "a couple of": 2,
+};
+
+/**
+ * Regex fragment matching a count in prose: digits, number words, "a pair of"...
+ */
+export const COUNT_PATTERN = "a pair of|a couple of|\\d+|an?|the|one|two|three|four|five|six|seven|eight|nine|ten";
+
+export function parseCount(word: string, max = MAX_SPAWN_COUNT): number {
+  const normalized = word.trim().toLowerCase().replace(/\s+/g, " ");
+  const count = /^\d+$/.test(normalized) ? parseInt(normalized, 10) : COUNT_WORDS[normalized] ?? 1;
+  return Math.min(max, Math.max(1, count));
+}
+
+const slug = (text: string) => text.trim().toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+
+// A, B, ... Z, AA, AB, ...
+function letter(index: number): string {
+  let label = "";
+  for (let n = index; n >= 0; n = Math.floor(n / 26) - 1) {
+    label = String.fromCharCode(65 + (n % 26)) + label;
+  }
+  return label;
+}
+
+export const enemyType = (enemy: Enemy) => enemy.type ?? enemy.name;
+
+/**
+ * Create `count` instances of a creature, label them and add them to the fight.
+ */
+export function spawnEnemies(combat: CombatState, bestiary: Bestiary, name: string, count: number, rng: Rng, hp?: number): Enemy[] {
+  const spawned: Enemy[] = [];
+  for (let i = 0; i < count; i++) {
+    const rolled = bestiary.roll(name, rng, hp);
+    const existing = combat.enemies.filter(enemy => enemyType(enemy).toLowerCase() === rolled.type.toLowerCase()).length;
+    // A plain-named lone enemy implicitly holds the letter A.
+    const lettered = count > 1 || existing > 0;
+    const label = lettered ? `${rolled.type} ${letter(existing)}` : rolled.type;
+    const enemy: Enemy = { id: uniqueId(combat, slug(label)), name: label, ...rolled };
+    combat.enemies.push(enemy);
+    spawned.push(enemy);
+  }
+  return spawned;
+}
+
+function uniqueId(combat: CombatState, base: string): string {
+  const taken = new Set(combat.enemies.map(enemy => enemy.id));
+  let id = base || "enemy";
+  for (let n = 2; taken.has(id); n++) {
+    id = `${base}-${n}`;
+  }
+  return id;
+}
+
+const clean = (target: string) => target.trim().toLowerCase().replace(/^(?:the|a|an)\s+/, "").replace(/\s+/g, " ");
+
+/**
+ * Resolve a target to one instance: its exact label or ID, or its type when only one of that
+ * type is still standing. Ambiguous targets ("goblin" with three alive) resolve to nothing.
+ */
+export function findEnemy(enemies: Enemy[], target: string): Enemy | undefined {
+  const name = clean(target);
+  const exact = enemies.find(enemy => enemy.name.toLowerCase() === name || enemy.id === name);
+  if (exact) return exact;
+  return soleOfType(enemies, type => type === name);
+}
+
+/**
+ * Prose variant of findEnemy for captures like "goblin b and runs" or "then goblin b": matches the
+ * longest label at either end of the text, falling back to a type with a single enemy standing.
+ */
+export function findEnemyInText(enemies: Enemy[], text: string): Enemy | undefined {
+  const name = clean(text);
+  const mentions = (label: string) => name === label || name.startsWith(`${label} `) || name.endsWith(` ${label}`);
+  const byLabel = [...enemies]
+    .sort((a, b) => b.name.length - a.name.length)
+    .find(enemy => mentions(enemy.name.toLowerCase()));
+  if (byLabel) return byLabel;
+  return soleOfType(enemies, mentions);
+}
+
+function soleOfType(enemies: Enemy[], matches: (type: string) => boolean): Enemy | undefined {
+  const ofType = enemies.filter(enemy => matches(enemyType(enemy).toLowerCase()));
+  const standing = ofType.filter(enemy => enemy.hp > 0);
+  if (ofType.length === 1) return ofType[0];
+  return standing.length === 1 ? standing[0] : undefined;
+}
@@ -1,11 +1,27 @@
-import { ActionPayload, JoinPayload } from "./api-types";
-import { isActionPayload, isJoinPayload } from "./api-validation";
+import { ActionPayload, ImportPayload, InventoryPayload, JoinPayload, ModerationPayload, ReviewPayload, RewindPayload, RollPayload, TurnPayload } from "./api-types";
+import { isActionPayload, isImportPayload, isInventoryPayload, isJoinPayload, isModerationPayload, isReviewPayload, isRewindPayload, isRollPayload, isTurnPayload, MAX_HISTORY_LIMIT, MAX_SESSION_PAGE, parseHistoryQuery, parseSessionListQuery } from "./api-validation";
+import { bearerToken, isAdminRequest, verifyPlayerToken } from "./auth";
 
 export interface Env {
   SESSION_COORDINATOR: DurableObjectNamespace;
   SESSION_REGISTRY: DurableObjectNamespace;
   AI: Ai;
   ASSETS: Fetcher;
+  // Optional JSON array of homebrew stat blocks merged into the bestiary (see src/bestiary.ts).
+  HOMEBREW_MONSTERS?: string;
+  // Signs player tokens (see src/auth.ts); set with `wrangler secret put PLAYER_TOKEN_SECRET`.
+  PLAYER_TOKEN_SECRET?: string;
+  // Bearer key for registry-wide operations such as /api/sessions/clear; they are refused while unset.
+  ADMIN_KEY?: string;
+  // Model for sessions that do not pick one, as a JSON LlmChoice (see src/llm.ts). Defaults to Workers AI.
+  DEFAULT_LLM?: string;
+  // Models sessions may pick besides the default, as a JSON array of LlmModel (see src/llm.ts).
+  ALLOWED_LLMS?: string;
+  // OpenAI-compatible chat completions endpoint, e.g. "http://localhost:8080/v1" for llama.cpp.
+  OPENAI_BASE_URL?: string;
+  OPENAI_API_KEY?: string;
+  // The endpoint's context window in tokens, if smaller than the default 24k.
+  OPENAI_CONTEXT_WINDOW?: string;
 }
 
 export { SessionCoordinator, SessionRegistry } from "./session";
@@ -19,6 +35,8 @@ const METHOD_NOT_ALLOWED = (methods: string[]) => new Response("Method Not Allow
 
 const BAD_REQUEST = (message: string) => new Response(message, { status: 400 });
 
+const TOKENS_UNCONFIGURED = () => new Response("Player tokens are not configured", { status: 500 });
+
 const serviceUnavailable = () => new Response("Session service unavailable", { status: 502 });
 
 /**
@@ -36,6 +54,34 @@ async function readJson<T>(request: Request, guard: (body: unknown) => body is T
   }
 }
 
+/**
+ * Check the bearer token against the player the payload claims to be; returns an error response on failure.
+ * Without a secret nothing can be verified, so every mutating route is refused.
+ */
+async function authorizePlayer(request: Request, env: Env, sessionId: string, playerId: string): Promise<Response | null> {
+  if (!env.PLAYER_TOKEN_SECRET) return TOKENS_UNCONFIGURED();
+  const token = bearerToken(request);
+  if (!token) return new Response("Missing player token", { status: 401 });
+  if (!(await verifyPlayerToken(env.PLAYER_TOKEN_SECRET, sessionId, playerId, token))) {
+    return new Response("Player token does not match this player", { status: 403 });
+  }
+  return null;
+}
+
+/**
+ * Read routes carry the caller's `playerId` and bearer token through, for private sessions to check.
+ */
+function readerParams(url: URL, params = new URLSearchParams()): URLSearchParams {
+  const playerId = url.searchParams.get("playerId");
+  if (playerId) params.set("playerId", playerId);
+  return params;
+}
+
+function readerInit(request: Request): RequestInit {
+  const authorization = request.headers.get("Authorization");
+  return authorization ? { headers: { Authorization: authorization } } : {};
+}
+
 /**
  * Resolve the per-session Durable Object stub so we can forward API traffic.
  */
@@ -76,7 +122,48 @@ export default {
       if (!sessionId) return new Response("Missing sessionId", { status: 400 });
 
       const session = getCoordinator(env, sessionId);
-      return safeFetch(session, "http://internal/state");
+      return safeFetch(session, `http://internal/state?${readerParams(url)}`, readerInit(request));
+    }
+
+    if (url.pathname === "/api/session/history") {
+      if (request.method !== "GET") return METHOD_NOT_ALLOWED(["GET"]);
+      const sessionId = url.searchParams.get("sessionId");
+      if (!sessionId) return new Response("Missing sessionId", { status: 400 });
+      const query = parseHistoryQuery(url.searchParams);
+      if (!query) return BAD_REQUEST(`before and limit must be positive integers; limit is at most ${MAX_HISTORY_LIMIT}`);
+
+      const params = new URLSearchParams({ limit: String(query.limit) });
+      if (query.before !== undefined) params.set("before", String(query.before));
+      const session = getCoordinator(env, sessionId);
+      return safeFetch(session, `http://internal/history?${readerParams(url, params)}`, readerInit(request));
+    }
+
+    if (url.pathname === "/api/session/export") {
+      if (request.method !== "GET") return METHOD_NOT_ALLOWED(["GET"]);
+      const sessionId = url.searchParams.get("sessionId");
+      if (!sessionId) return new Response("Missing sessionId", { status: 400 });
+      const format = url.searchParams.get("format") ?? "json";
+      if (format !== "json" && format !== "markdown") return BAD_REQUEST("format is json or markdown");
+
+      const session = getCoordinator(env, sessionId);
+      return safeFetch(session, `http://internal/export?${readerParams(url, new URLSearchParams({ format }))}`, readerInit(request));
+    }
+
+    if (url.pathname === "/api/session/ws") {
+      if (request.method !== "GET") return METHOD_NOT_ALLOWED(["GET"]);
+      const sessionId = url.searchParams.get("sessionId");
+      if (!sessionId) return new Response("Missing sessionId", { status: 400 });
+      if (request.headers.get("Upgrade")?.toLowerCase() !== "websocket") {
+        return new Response("Expected WebSocket upgrade", { status: 426 });
+      }
+
+      // Hand the upgrade straight to the coordinator so it can accept a hibernatable socket. Browsers
+      // cannot set headers on WebSockets, so private sessions take the player token as a parameter.
+      const params = readerParams(url);
+      const token = url.searchParams.get("token");
+      if (token) params.set("token", token);
+      const session = getCoordinator(env, sessionId);
+      return safeFetch(session, new Request(`http://internal/ws?${params}`, request));
     }
 
     if (url.pathname === "/api/session/action") {
@@ -84,6 +171,8 @@ export default {
       const [body, error] = await readJson<ActionPayload>(request, isActionPayload);
       if (error || !body) return error ?? BAD_REQUEST("Invalid request payload");
       const { sessionId, playerId, playerAction } = body;
+      const denied = await authorizePlayer(request, env, sessionId, playerId);
+      if (denied) return denied;
 
       const session = getCoordinator(env, sessionId);
       return safeFetch(session, "http://internal/action", {
@@ -93,28 +182,190 @@ export default {
       });
     }
 
+    if (url.pathname === "/api/session/action/stream") {
+      if (request.method !== "POST") return METHOD_NOT_ALLOWED(["POST"]);
+      const [body, error] = await readJson<ActionPayload>(request, isActionPayload);
+      if (error || !body) return error ?? BAD_REQUEST("Invalid request payload");
+      const { sessionId, playerId, playerAction } = body;
+      const denied = await authorizePlayer(request, env, sessionId, playerId);
+      if (denied) return denied;
+
+      // Same checks as /api/session/action; accepted actions answer with text/event-stream.
+      const session = getCoordinator(env, sessionId);
+      return safeFetch(session, "http://internal/action/stream", {
+        method: "POST",
+        headers: JSON_HEADERS,
+        body: JSON.stringify({ sessionId, playerId, playerAction }),
+      });
+    }
+
+    if (url.pathname === "/api/session/roll") {
+      if (request.method !== "POST") return METHOD_NOT_ALLOWED(["POST"]);
+      const [body, error] = await readJson<RollPayload>(request, isRollPayload);
+      if (error || !body) return error ?? BAD_REQUEST("Invalid request payload");
+      const { sessionId, playerId, notation, label } = body;
+      const denied = await authorizePlayer(request, env, sessionId, playerId);
+      if (denied) return denied;
+
+      const session = getCoordinator(env, sessionId);
+      return safeFetch(session, "http://internal/roll", {
+        method: "POST",
+        headers: JSON_HEADERS,
+        body: JSON.stringify({ sessionId, playerId, notation, label }),
+      });
+    }
+
+    if (url.pathname === "/api/session/turn") {
+      if (request.method !== "POST") return METHOD_NOT_ALLOWED(["POST"]);
+      const [body, error] = await readJson<TurnPayload>(request, isTurnPayload);
+      if (error || !body) return error ?? BAD_REQUEST("Invalid request payload");
+      const { sessionId, playerId, intent, after, trigger } = body;
+      const denied = await authorizePlayer(request, env, sessionId, playerId);
+      if (denied) return denied;
+
+      const session = getCoordinator(env, sessionId);
+      return safeFetch(session, "http://internal/turn", {
+        method: "POST",
+        headers: JSON_HEADERS,
+        body: JSON.stringify({ sessionId, playerId, intent, after, trigger }),
+      });
+    }
+
+    if (url.pathname === "/api/session/inventory") {
+      if (request.method !== "POST") return METHOD_NOT_ALLOWED(["POST"]);
+      const [body, error] = await readJson<InventoryPayload>(request, isInventoryPayload);
+      if (error || !body) return error ?? BAD_REQUEST("Invalid request payload");
+      const { sessionId, playerId, intent, item, quantity, type, weight, properties, coins } = body;
+      const denied = await authorizePlayer(request, env, sessionId, playerId);
+      if (denied) return denied;
+
+      const session = getCoordinator(env, sessionId);
+      return safeFetch(session, "http://internal/inventory", {
+        method: "POST",
+        headers: JSON_HEADERS,
+        body: JSON.stringify({ sessionId, playerId, intent, item, quantity, type, weight, properties, coins }),
+      });
+    }
+
+    if (url.pathname === "/api/session/moderate") {
+      if (request.method !== "POST") return METHOD_NOT_ALLOWED(["POST"]);
+      const [body, error] = await readJson<ModerationPayload>(request, isModerationPayload);
+      if (error || !body) return error ?? BAD_REQUEST("Invalid request payload");
+      const { sessionId, playerId, intent, target } = body;
+      const denied = await authorizePlayer(request, env, sessionId, playerId);
+      if (denied) return denied;
+
+      // The token proves who is asking; the coordinator checks that they own the session.
+      const session = getCoordinator(env, sessionId);
+      return safeFetch(session, "http://internal/moderate", {
+        method: "POST",
+        headers: JSON_HEADERS,
+        body: JSON.stringify({ sessionId, playerId, intent, target }),
+      });
+    }
+
+    if (url.pathname === "/api/session/review") {
+      if (request.method !== "POST") return METHOD_NOT_ALLOWED(["POST"]);
+      const [body, error] = await readJson<ReviewPayload>(request, isReviewPayload);
+      if (error || !body) return error ?? BAD_REQUEST("Invalid request payload");
+      const { sessionId, playerId, intent, draftId, text, effects } = body;
+      const denied = await authorizePlayer(request, env, sessionId, playerId);
+      if (denied) return denied;
+
+      // As with moderation, the coordinator checks that the caller is the session's DM.
+      const session = getCoordinator(env, sessionId);
+      return safeFetch(session, "http://internal/review", {
+        method: "POST",
+        headers: JSON_HEADERS,
+        body: JSON.stringify({ sessionId, playerId, intent, draftId, text, effects }),
+      });
+    }
+
+    if (url.pathname === "/api/session/rewind") {
+      if (request.method !== "POST") return METHOD_NOT_ALLOWED(["POST"]);
+      const [body, error] = await readJson<RewindPayload>(request, isRewindPayload);
+      if (error || !body) return error ?? BAD_REQUEST("Invalid request payload");
+      const { sessionId, playerId, intent } = body;
+      const denied = await authorizePlayer(request, env, sessionId, playerId);
+      if (denied) return denied;
+
+      // The coordinator checks that the caller owns the session and that the turn is still the last one.
+      const session = getCoordinator(env, sessionId);
+      return safeFetch(session, "http://internal/rewind", {
+        method: "POST",
+        headers: JSON_HEADERS,
+        body: JSON.stringify({ sessionId, playerId, intent }),
+      });
+    }
+
+    if (url.pathname === "/api/session/drafts") {
+      if (request.method !== "GET") return METHOD_NOT_ALLOWED(["GET"]);
+      const sessionId = url.searchParams.get("sessionId");
+      const playerId = url.searchParams.get("playerId");
+      if (!sessionId || !playerId) return new Response("Missing sessionId or playerId", { status: 400 });
+      const denied = await authorizePlayer(request, env, sessionId, playerId);
+      if (denied) return denied;
+
+      const session = getCoordinator(env, sessionId);
+      return safeFetch(session, `http://internal/drafts?${readerParams(url)}`, readerInit(request));
+    }
+
     if (url.pathname === "/api/session/join") {
       if (request.method !== "POST") return METHOD_NOT_ALLOWED(["POST"]);
       const [body, error] = await readJson<JoinPayload>(request, isJoinPayload);
       if (error || !body) return error ?? BAD_REQUEST("Invalid request payload");
-      const { sessionId, playerId, name } = body;
+      const { sessionId, playerId, name, character, settings, inviteCode } = body;
+      if (!env.PLAYER_TOKEN_SECRET) return TOKENS_UNCONFIGURED();
 
+      // Only the coordinator knows whether the player exists, so it checks rejoin tokens itself.
+      const authorization = request.headers.get("Authorization");
       const session = getCoordinator(env, sessionId);
       return safeFetch(session, "http://internal/join", {
+        method: "POST",
+        headers: authorization ? { ...JSON_HEADERS, Authorization: authorization } : JSON_HEADERS,
+        body: JSON.stringify({ sessionId, playerId, name, character, settings, inviteCode }),
+      });
+    }
+
+    if (url.pathname === "/api/session/import") {
+      if (request.method !== "POST") return METHOD_NOT_ALLOWED(["POST"]);
+      const [body, error] = await readJson<ImportPayload>(request, isImportPayload);
+      if (error || !body) return error ?? BAD_REQUEST("Invalid request payload");
+      const { sessionId, playerId, archive } = body;
+      // The importer proves they played in the archived campaign with their token from it.
+      const denied = await authorizePlayer(request, env, archive.sessionId, playerId);
+      if (denied) return denied;
+
+      const session = getCoordinator(env, sessionId);
+      return safeFetch(session, "http://internal/import", {
         method: "POST",
         headers: JSON_HEADERS,
-        body: JSON.stringify({ sessionId, playerId, name }),
+        body: JSON.stringify({ sessionId, playerId, archive }),
       });
     }
 
     if (url.pathname === "/api/sessions") {
       if (request.method !== "GET") return METHOD_NOT_ALLOWED(["GET"]);
+      const query = parseSessionListQuery(url.searchParams);
+      if (!query) {
+        return BAD_REQUEST(`sort is lastActivity, createdAt, players or title; order is asc or desc; openSeats and active are true or false; offset and limit are whole numbers and limit is at most ${MAX_SESSION_PAGE}`);
+      }
+
+      const params = new URLSearchParams({
+        sort: query.sort,
+        order: query.order,
+        openSeats: String(query.openSeats),
+        active: String(query.active),
+        offset: String(query.offset),
+        limit: String(query.limit),
+      });
       const registry = getRegistry(env);
-      return safeFetch(registry, "http://internal/list");
+      return safeFetch(registry, `http://internal/list?${params}`);
     }
 
     if (url.pathname === "/api/sessions/clear") {
       if (request.method !== "POST") return METHOD_NOT_ALLOWED(["POST"]);
+      if (!isAdminRequest(request, env.ADMIN_KEY)) return new Response("Admin key required", { status: 403 });
       const registry = getRegistry(env);
       return safeFetch(registry, "http://internal/clear", {
         method: "POST",
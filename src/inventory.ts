@@ -0,0 +1,316 @@
+import type { Player } from "./session";
+
+/**
+ * Structured inventory: stacked items with a type, weight and equipped flag, a coin purse and
+ * 5e carrying capacity (STR × 15 lb, with every 50 coins weighing a pound). Item names are stored
+ * in lowercase and a stack is keyed by its name, so two health potions are one entry with quantity 2.
+ */
+
+export const ITEM_TYPES = ["weapon", "armor", "shield", "potion", "ammunition", "gear", "tool", "treasure"] as const;
+export type ItemType = typeof ITEM_TYPES[number];
+
+export interface ItemProperties {
+  // Weapons: damage dice and type, e.g. "1d8" slashing.
+  damage?: string;
+  damageType?: string;
+  // Armor: base AC; shields: the bonus they add.
+  ac?: number;
+  // Potions: hit points restored, in dice notation.
+  heal?: string;
+  notes?: string;
+}
+
+export interface Item {
+  name: string;
+  quantity: number;
+  type: ItemType;
+  // Pounds per unit.
+  weight: number;
+  equipped?: boolean;
+  properties?: ItemProperties;
+}
+
+export interface Purse {
+  gp: number;
+  sp: number;
+  cp: number;
+}
+
+export const COINS = ["gp", "sp", "cp"] as const;
+export type Coin = typeof COINS[number];
+
+// How the DM tends to write coins in prose.
+export const COIN_WORDS: Record<string, Coin> = { gold: "gp", silver: "sp", copper: "cp", gp: "gp", sp: "sp", cp: "cp" };
+
+// Upper bound for one narrated or requested stack change, e.g. "finds 20 arrows".
+export const MAX_ITEM_QUANTITY = 100;
+// Upper bound for one coin in one narrated or requested purse change; keeps purses far from unsafe integers.
+export const MAX_COIN_CHANGE = 10000;
+
+export const isCoinChange = (value: unknown): value is number =>
+  Number.isInteger(value) && Math.abs(value as number) <= MAX_COIN_CHANGE;
+
+type CatalogEntry = Omit<Item, "name" | "quantity" | "equipped">;
+
+// Common Player's Handbook gear, so narrated loot gets real weights and stats.
+const CATALOG: Record<string, CatalogEntry> = {
+  "basic sword": { type: "weapon", weight: 3, properties: { damage: "1d8", damageType: "slashing" } },
+  "longsword": { type: "weapon", weight: 3, properties: { damage: "1d8", damageType: "slashing", notes: "versatile (1d10)" } },
+  "shortsword": { type: "weapon", weight: 2, properties: { damage: "1d6", damageType: "piercing", notes: "finesse, light" } },
+  "greatsword": { type: "weapon", weight: 6, properties: { damage: "2d6", damageType: "slashing", notes: "heavy, two-handed" } },
+  "greataxe": { type: "weapon", weight: 7, properties: { damage: "1d12", damageType: "slashing", notes: "heavy, two-handed" } },
+  "handaxe": { type: "weapon", weight: 2, properties: { damage: "1d6", damageType: "slashing", notes: "light, thrown (20/60)" } },
+  "battleaxe": { type: "weapon", weight: 4, properties: { damage: "1d8", damageType: "slashing", notes: "versatile (1d10)" } },
+  "warhammer": { type: "weapon", weight: 2, properties: { damage: "1d8", damageType: "bludgeoning", notes: "versatile (1d10)" } },
+  "mace": { type: "weapon", weight: 4, properties: { damage: "1d6", damageType: "bludgeoning" } },
+  "quarterstaff": { type: "weapon", weight: 4, properties: { damage: "1d6", damageType: "bludgeoning", notes: "versatile (1d8)" } },
+  "dagger": { type: "weapon", weight: 1, properties: { damage: "1d4", damageType: "piercing", notes: "finesse, light, thrown (20/60)" } },
+  "rapier": { type: "weapon", weight: 2, properties: { damage: "1d8", damageType: "piercing", notes: "finesse" } },
+  "spear": { type: "weapon", weight: 3, properties: { damage: "1d6", damageType: "piercing", notes: "thrown (20/60), versatile (1d8)" } },
+  "shortbow": { type: "weapon", weight: 2, properties: { damage: "1d6", damageType: "piercing", notes: "ammunition (80/320), two-handed" } },
+  "longbow": { type: "weapon", weight: 2, properties: { damage: "1d8", damageType: "piercing", notes: "ammunition (150/600), heavy, two-handed" } },
+  "light crossbow": { type: "weapon", weight: 5, properties: { damage: "1d8", damageType: "piercing", notes: "ammunition (80/320), loading, two-handed" } },
+  "padded armor": { type: "armor", weight: 8, properties: { ac: 11, notes: "light, stealth disadvantage" } },
+  "leather armor": { type: "armor", weight: 10, properties: { ac: 11, notes: "light" } },
+  "studded leather armor": { type: "armor", weight: 13, properties: { ac: 12, notes: "light" } },
+  "scale mail": { type: "armor", weight: 45, properties: { ac: 14, notes: "medium, stealth disadvantage" } },
+  "chain shirt": { type: "armor", weight: 20, properties: { ac: 13, notes: "medium" } },
+  "chain mail": { type: "armor", weight: 55, properties: { ac: 16, notes: "heavy, STR 13, stealth disadvantage" } },
+  "plate armor": { type: "armor", weight: 65, properties: { ac: 18, notes: "heavy, STR 15, stealth disadvantage" } },
+  "shield": { type: "shield", weight: 6, properties: { ac: 2 } },
+  "health potion": { type: "potion", weight: 0.5, properties: { heal: "2d4+2" } },
+  "potion of healing": { type: "potion", weight: 0.5, properties: { heal: "2d4+2" } },
+  "potion of greater healing": { type: "potion", weight: 0.5, properties: { heal: "4d4+4" } },
+  "arrow": { type: "ammunition", weight: 0.05 },
+  "crossbow bolt": { type: "ammunition", weight: 0.075 },
+  "torch": { type: "gear", weight: 1 },
+  "rope": { type: "gear", weight: 10, properties: { notes: "hempen, 50 feet" } },
+  "rations": { type: "gear", weight: 2, properties: { notes: "one day" } },
+  "waterskin": { type: "gear", weight: 5 },
+  "bedroll": { type: "gear", weight: 7 },
+  "backpack": { type: "gear", weight: 5 },
+  "thieves' tools": { type: "tool", weight: 1 },
+  "healer's kit": { type: "tool", weight: 3, properties: { notes: "10 uses; stabilize without a check" } },
+  "gem": { type: "treasure", weight: 0 },
+};
+
+export const isItemType = (value: unknown): value is ItemType =>
+  typeof value === "string" && (ITEM_TYPES as readonly string[]).includes(value);
+
+export const emptyPurse = (): Purse => ({ gp: 0, sp: 0, cp: 0 });
+
+const isOptional = (value: unknown, check: (value: unknown) => boolean) => value === undefined || check(value);
+
+export function isItemProperties(value: unknown): value is ItemProperties {
+  if (typeof value !== "object" || value === null) return false;
+  const properties = value as ItemProperties;
+  return isOptional(properties.damage, v => typeof v === "string")
+    && isOptional(properties.damageType, v => typeof v === "string")
+    && isOptional(properties.ac, v => Number.isInteger(v))
+    && isOptional(properties.heal, v => typeof v === "string")
+    && isOptional(properties.notes, v => typeof v === "string");
+}
+
+/**
+ * Narrow a stored stack, e.g. from an archive, to an Item.
+ */
+export function isItem(value: unknown): value is Item {
+  if (typeof value !== "object" || value === null) return false;
+  const item = value as Item;
+  return typeof item.name === "string" && item.name.trim().length > 0
+    && Number.isInteger(item.quantity) && item.quantity > 0
+    && isItemType(item.type)
+    && typeof item.weight === "number" && Number.isFinite(item.weight) && item.weight >= 0
+    && isOptional(item.equipped, v => typeof v === "boolean")
+    && isOptional(item.properties, isItemProperties);
+}
+
+export const isPurse = (value: unknown): value is Purse =>
+  typeof value === "object" && value !== null
+  && COINS.every(coin => Number.isSafeInteger((value as Purse)[coin]) && (value as Purse)[coin] >= 0);
+
+export const normalizeItemName = (name: string) =>
+  name.trim().toLowerCase().replace(/^(?:a|an|the|their|some)\s+/, "").replace(/\s+/g, " ");
+
+/**
+ * The catalog key for a name, tolerating simple plurals ("arrows", "torches").
+ */
+function catalogKey(name: string): string | undefined {
+  if (name in CATALOG) return name;
+  if (name.endsWith("es") && name.slice(0, -2) in CATALOG) return name.slice(0, -2);
+  if (name.endsWith("s") && name.slice(0, -1) in CATALOG) return name.slice(0, -1);
+  return undefined;
+}
+
+/**
+ * Build an item, filling type, weight and properties from the catalog when the name is known.
+ * Explicit fields win; unknown items default to weightless gear.
+ */
+export function createItem(name: string, quantity = 1, details: Partial<CatalogEntry> = {}): Item {
+  const normalized = normalizeItemName(name);
+  const key = catalogKey(normalized);
+  const known = key ? CATALOG[key] : undefined;
+  const properties = details.properties ?? known?.properties;
+  return {
+    name: key ?? normalized,
+    quantity,
+    type: details.type ?? known?.type ?? "gear",
+    weight: details.weight ?? known?.weight ?? 0,
+    ...(properties ? { properties: { ...properties } } : {}),
+  };
+}
+
+/**
+ * What a new character carries before the first adventure.
+ */
+export function starterKit(): { inventory: Item[]; purse: Purse } {
+  return {
+    inventory: [
+      { ...createItem("basic sword"), equipped: true },
+      { ...createItem("leather armor"), equipped: true },
+      createItem("health potion", 2),
+    ],
+    purse: { gp: 10, sp: 0, cp: 0 },
+  };
+}
+
+/**
+ * Find a stack by name: exact (or plural) first, then the single item whose name ends with it,
+ * so "potion" finds "health potion" but never "potion of giant strength".
+ */
+export function findItem(player: Player, name: string): Item | undefined {
+  const wanted = normalizeItemName(name);
+  const singular = catalogKey(wanted) ?? wanted.replace(/([^s])s$/, "$1");
+  const exact = player.inventory.find(item => item.name === wanted || item.name === singular);
+  if (exact) return exact;
+  const suffixed = player.inventory.filter(item => item.name.endsWith(` ${wanted}`) || item.name.endsWith(` ${singular}`));
+  return suffixed.length === 1 ? suffixed[0] : undefined;
+}
+
+const coinWeight = (purse: Purse) => (purse.gp + purse.sp + purse.cp) / 50;
+
+export function carriedWeight(player: Player): number {
+  const items = player.inventory.reduce((sum, item) => sum + item.weight * item.quantity, 0);
+  return Math.round((items + coinWeight(player.purse ?? emptyPurse())) * 100) / 100;
+}
+
+export function carryingCapacity(player: Player): number {
+  return (player.character?.abilities.str ?? 10) * 15;
+}
+
+/**
+ * Add to a stack (or start one). Returns an error when the extra weight would exceed capacity.
+ */
+export function addItem(player: Player, item: Item): string | null {
+  const extra = item.weight * item.quantity;
+  if (extra > 0 && carriedWeight(player) + extra > carryingCapacity(player)) {
+    return `${player.name} cannot carry ${item.quantity > 1 ? `${item.quantity} × ` : ""}${item.name} (${carriedWeight(player)}/${carryingCapacity(player)} lb carried).`;
+  }
+  const existing = player.inventory.find(stack => stack.name === item.name);
+  if (existing) {
+    existing.quantity += item.quantity;
+  } else {
+    player.inventory.push({ ...item, equipped: undefined });
+  }
+  return null;
+}
+
+/**
+ * Remove up to `quantity` from a stack and return how many were removed; an emptied stack is dropped.
+ */
+export function removeItem(player: Player, name: string, quantity = 1): { item: Item; removed: number } | null {
+  const item = findItem(player, name);
+  if (!item) return null;
+  const removed = Math.min(quantity, item.quantity);
+  item.quantity -= removed;
+  if (item.quantity <= 0) {
+    player.inventory = player.inventory.filter(stack => stack !== item);
+  }
+  return { item, removed };
+}
+
+/**
+ * Equip or unequip a weapon, armor or shield. Donning armor or a shield takes off the previous one.
+ */
+export function setEquipped(player: Player, name: string, equipped: boolean): string | null {
+  const item = findItem(player, name);
+  if (!item) return `${player.name} has no ${normalizeItemName(name)}.`;
+  if (item.type !== "weapon" && item.type !== "armor" && item.type !== "shield") {
+    return `The ${item.name} cannot be equipped.`;
+  }
+  if (equipped && item.type !== "weapon") {
+    player.inventory.filter(other => other.type === item.type).forEach(other => { other.equipped = undefined; });
+  }
+  item.equipped = equipped || undefined;
+  return null;
+}
+
+const COIN_VALUE: Record<Coin, number> = { gp: 100, sp: 10, cp: 1 };
+
+export const purseValue = (purse: Purse) => COINS.reduce((sum, coin) => sum + purse[coin] * COIN_VALUE[coin], 0);
+
+/**
+ * Apply signed coin changes. Each cost is paid in its own coin where possible; any shortfall is
+ * covered from the smallest coins up, with change given back. Fails without touching the purse
+ * when the total value is not there.
+ */
+export function adjustPurse(player: Player, change: Partial<Purse>): string | null {
+  const purse = { ...(player.purse ?? emptyPurse()) };
+  for (const coin of COINS) {
+    purse[coin] += Math.max(0, change[coin] ?? 0);
+  }
+  const cost = COINS.reduce((sum, coin) => sum + Math.max(0, -(change[coin] ?? 0)) * COIN_VALUE[coin], 0);
+  if (cost > purseValue(purse)) {
+    return `${player.name} cannot afford ${formatCoins(negate(change))}; they have ${formatCoins(purse)}.`;
+  }
+
+  let owed = 0;
+  for (const coin of COINS) {
+    const due = Math.max(0, -(change[coin] ?? 0));
+    const paid = Math.min(purse[coin], due);
+    purse[coin] -= paid;
+    owed += (due - paid) * COIN_VALUE[coin];
+  }
+  for (const coin of [...COINS].reverse()) {
+    if (owed <= 0) break;
+    const paid = Math.min(purse[coin], Math.ceil(owed / COIN_VALUE[coin]));
+    purse[coin] -= paid;
+    owed -= paid * COIN_VALUE[coin];
+  }
+  // Overpaying with a larger coin comes back as silver and copper.
+  purse.sp += Math.floor(-owed / COIN_VALUE.sp);
+  purse.cp += -owed % COIN_VALUE.sp;
+  player.purse = purse;
+  return null;
+}
+
+const negate = (change: Partial<Purse>): Partial<Purse> =>
+  Object.fromEntries(COINS.filter(coin => (change[coin] ?? 0) < 0).map(coin => [coin, -(change[coin] ?? 0)]));
+
+/**
+ * "12 gp, 5 sp" style; "0 gp" for an empty purse.
+ */
+export function formatCoins(coins: Partial<Purse>): string {
+  const parts = COINS.filter(coin => (coins[coin] ?? 0) !== 0).map(coin => `${coins[coin]} ${coin}`);
+  return parts.length > 0 ? parts.join(", ") : "0 gp";
+}
+
+export function describeItem(item: Item): string {
+  const details = [
+    item.equipped ? "equipped" : "",
+    item.properties?.damage ? `${item.properties.damage} ${item.properties.damageType ?? ""}`.trim() : "",
+    item.properties?.ac !== undefined ? (item.type === "shield" ? `+${item.properties.ac} AC` : `AC ${item.properties.ac}`) : "",
+    item.properties?.heal ? `heals ${item.properties.heal}` : "",
+    item.properties?.notes ?? "",
+  ].filter(Boolean);
+  const name = item.quantity > 1 ? `${item.quantity} × ${item.name}` : item.name;
+  return details.length > 0 ? `${name} (${details.join("; ")})` : name;
+}
+
+/**
+ * DM summary line, e.g. "basic sword (equipped; 1d8 slashing), 2 × health potion (heals 2d4+2) | 10 gp | 14/150 lb".
+ */
+export function describeInventory(player: Player): string {
+  const items = player.inventory.map(describeItem).join(", ") || "nothing";
+  return `${items} | ${formatCoins(player.purse ?? emptyPurse())} | ${carriedWeight(player)}/${carryingCapacity(player)} lb`;
+}
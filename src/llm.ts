@@ -0,0 +1,259 @@
+import type { LlmChoice, LlmModel, LlmProviderName } from "./api-types";
+import { isLlmChoice, isLlmModel } from "./api-validation";
+import type { Env } from "./index";
+import { CONTEXT_WINDOW_TOKENS } from "./prompt";
+import { openAiDelta, readAiStream } from "./streaming";
+
+/**
+ * Language model providers. The DM talks to a provider instead of a binding, so a session can run on
+ * Workers AI, on any OpenAI-compatible server (a hosted API or a local llama.cpp server), or on a
+ * scripted provider that answers deterministically for tests and offline development.
+ */
+
+export const DEFAULT_MODEL = { provider: "workers-ai", model: "@cf/meta/llama-3.3-70b-instruct-fp8-fast" } as const satisfies LlmModel;
+
+export interface ChatMessage {
+  role: "system" | "assistant" | "user";
+  content: string;
+}
+
+export interface CompletionRequest {
+  messages: ChatMessage[];
+  maxTokens: number;
+}
+
+export interface ProviderCapabilities {
+  // Whether `stream` yields text as the model writes it.
+  streaming: boolean;
+  // Prompt plus response, in tokens.
+  contextWindow: number;
+}
+
+export interface LlmProvider {
+  readonly name: LlmProviderName;
+  readonly model: string;
+  readonly capabilities: ProviderCapabilities;
+  complete(request: CompletionRequest): Promise<string>;
+  // Only called when `capabilities.streaming` is set. Throws if the stream breaks off.
+  stream?(request: CompletionRequest): AsyncIterable<string>;
+}
+
+// A model name the binding knows. Session settings can only name models on the operator's allow-list.
+export type WorkersAiModel = keyof AiModels;
+
+/**
+ * Models on the Workers AI binding.
+ */
+export class WorkersAiProvider implements LlmProvider {
+  readonly name = "workers-ai";
+  readonly capabilities: ProviderCapabilities = { streaming: true, contextWindow: CONTEXT_WINDOW_TOKENS };
+
+  constructor(
+    private readonly ai: Pick<Ai, "run">,
+    readonly model: WorkersAiModel = DEFAULT_MODEL.model,
+  ) {}
+
+  async complete({ messages, maxTokens }: CompletionRequest): Promise<string> {
+    const result: unknown = await this.ai.run(this.model, { messages, max_tokens: maxTokens });
+    return (result as { response?: string }).response ?? "";
+  }
+
+  async *stream({ messages, maxTokens }: CompletionRequest): AsyncIterable<string> {
+    const result: unknown = await this.ai.run(this.model, { messages, max_tokens: maxTokens, stream: true });
+    // Bindings without stream support answer with the whole response at once.
+    if (result instanceof ReadableStream) {
+      yield* readAiStream(result);
+    } else {
+      yield (result as { response?: string }).response ?? "";
+    }
+  }
+}
+
+export interface OpenAiCompatibleOptions {
+  // Up to and including the version, e.g. "https://api.openai.com/v1" or "http://localhost:8080/v1".
+  baseUrl: string;
+  apiKey?: string;
+  contextWindow?: number;
+  fetcher?: typeof fetch;
+}
+
+/**
+ * Any server speaking the OpenAI chat completions API. Errors carry the HTTP status, so the DM's
+ * retry logic treats a 503 or 504 as transient.
+ */
+export class OpenAiCompatibleProvider implements LlmProvider {
+  readonly name = "openai";
+  readonly capabilities: ProviderCapabilities;
+  private readonly fetcher: typeof fetch;
+
+  constructor(readonly model: string, private readonly options: OpenAiCompatibleOptions) {
+    this.capabilities = { streaming: true, contextWindow: options.contextWindow ?? CONTEXT_WINDOW_TOKENS };
+    this.fetcher = options.fetcher ?? ((input, init) => fetch(input, init));
+  }
+
+  async complete(request: CompletionRequest): Promise<string> {
+    const response = await this.post(request, false);
+    const body = await response.json() as { choices?: { message?: { content?: unknown } }[] };
+    const content = body.choices?.[0]?.message?.content;
+    return typeof content === "string" ? content : "";
+  }
+
+  async *stream(request: CompletionRequest): AsyncIterable<string> {
+    const response = await this.post(request, true);
+    if (!response.body) throw new Error("OpenAI-compatible stream has no body");
+    yield* readAiStream(response.body, openAiDelta);
+  }
+
+  private async post({ messages, maxTokens }: CompletionRequest, stream: boolean): Promise<Response> {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (this.options.apiKey) headers.Authorization = `Bearer ${this.options.apiKey}`;
+    const response = await this.fetcher(`${this.options.baseUrl.replace(/\/+$/, "")}/chat/completions`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ model: this.model, messages, max_tokens: maxTokens, stream }),
+    });
+    if (!response.ok) {
+      throw new Error(`OpenAI-compatible endpoint answered ${response.status} ${response.statusText}`);
+    }
+    return response;
+  }
+}
+
+// Writes a reply to a request; `call` counts from 0 across the provider's lifetime.
+export type Script = (request: CompletionRequest, call: number) => string;
+
+/**
+ * Answers from a script instead of a model, so tests and offline games are repeatable. A list is
+ * played in order and its last entry repeats; an Error entry is thrown, to rehearse outages.
+ */
+export class ScriptedProvider implements LlmProvider {
+  readonly name = "scripted";
+  readonly capabilities: ProviderCapabilities = { streaming: true, contextWindow: CONTEXT_WINDOW_TOKENS };
+  private calls = 0;
+
+  constructor(readonly model = "offline", private readonly script: Script | Array<string | Error> = offlineScript) {}
+
+  async complete(request: CompletionRequest): Promise<string> {
+    return this.next(request);
+  }
+
+  async *stream(request: CompletionRequest): AsyncIterable<string> {
+    // Word by word, so the stream splitter sees tags broken across chunks as it would from a model.
+    for (const piece of this.next(request).match(/\s*\S+/g) ?? []) {
+      yield piece;
+    }
+  }
+
+  private next(request: CompletionRequest): string {
+    const call = this.calls++;
+    if (typeof this.script === "function") return this.script(request, call);
+    const entry = this.script[Math.min(call, this.script.length - 1)];
+    if (entry instanceof Error) throw entry;
+    return entry ?? "";
+  }
+}
+
+const OFFLINE_SCENES = [
+  "The air grows still as the world weighs the attempt.",
+  "Somewhere nearby, something takes notice.",
+  "The moment passes, and the path ahead stays open.",
+];
+
+/**
+ * The offline DM: a plain acknowledgement of the action with no effects, and a memory summary that
+ * keeps the story so far. Good enough to play through the rules without a model.
+ */
+export const offlineScript: Script = (request, call) => {
+  const system = request.messages[0]?.content ?? "";
+  const prompt = request.messages[request.messages.length - 1]?.content ?? "";
+  if (system.startsWith("You keep the campaign memory")) {
+    const summary = prompt.match(/^Story so far:\n([^\n]*)/)?.[1];
+    return JSON.stringify({ summary: summary && summary !== "(nothing yet)" ? summary : "The adventure is under way.", facts: [] });
+  }
+  const action = prompt.match(/^(.+?) \(.+?\) acts: ([\s\S]*)$/);
+  const opening = action ? `The DM notes ${action[1]}'s action ("${action[2].trim()}").` : "The DM listens.";
+  return `${opening} ${OFFLINE_SCENES[call % OFFLINE_SCENES.length]}`;
+};
+
+const modelsOf = (choice: LlmChoice): LlmModel[] => [choice, ...(choice.fallback ? [choice.fallback] : [])];
+
+const missingEndpoint = (env: Env, choice: LlmChoice) =>
+  modelsOf(choice).some(model => model.provider === "openai") && !env.OPENAI_BASE_URL;
+
+const listed = (allowed: LlmModel[], { provider, model }: LlmModel) =>
+  allowed.some(entry => entry.provider === provider && entry.model === model);
+
+// Only models the operator listed reach the binding, and they list models it serves.
+const isWorkersAiModel = (allowed: LlmModel[], model: string): model is WorkersAiModel =>
+  listed(allowed, { provider: "workers-ai", model });
+
+/**
+ * Models sessions may pick: those in the ALLOWED_LLMS variable (a JSON array of LlmModel) and the server
+ * default. Every model costs the operator, so visitors cannot name any other; scripted ones run nothing
+ * and need no listing.
+ */
+function allowedModels(env: Env): LlmModel[] {
+  const defaults = modelsOf(defaultChoice(env));
+  if (!env.ALLOWED_LLMS) return defaults;
+  try {
+    const parsed: unknown = JSON.parse(env.ALLOWED_LLMS);
+    if (Array.isArray(parsed) && parsed.every(isLlmModel)) return [...parsed, ...defaults];
+  } catch {
+    // Reported below.
+  }
+  console.warn("Ignoring invalid ALLOWED_LLMS; sessions may only use the default model.");
+  return defaults;
+}
+
+/**
+ * Why a session cannot use `choice` on this server, or null if it can.
+ */
+export function unavailableModel(env: Env, choice: LlmChoice | null): string | null {
+  if (!choice) return null;
+  if (missingEndpoint(env, choice)) {
+    return "This server has no OpenAI-compatible endpoint configured.";
+  }
+  const allowed = allowedModels(env);
+  const refused = modelsOf(choice).find(model => model.provider !== "scripted" && !listed(allowed, model));
+  return refused ? `This server does not offer ${refused.model}.` : null;
+}
+
+/**
+ * The session's model, or the server default when it has none or the operator no longer allows it.
+ */
+export function resolveChoice(env: Env, choice: LlmChoice | null): LlmChoice {
+  return choice && !unavailableModel(env, choice) ? choice : defaultChoice(env);
+}
+
+/**
+ * The DEFAULT_LLM variable (a JSON LlmChoice), falling back to Llama 3.3 on Workers AI.
+ */
+function defaultChoice(env: Env): LlmChoice {
+  if (!env.DEFAULT_LLM) return DEFAULT_MODEL;
+  try {
+    const parsed: unknown = JSON.parse(env.DEFAULT_LLM);
+    if (isLlmChoice(parsed) && !missingEndpoint(env, parsed)) return parsed;
+  } catch {
+    // Reported below.
+  }
+  console.warn("Ignoring invalid DEFAULT_LLM; using Workers AI.");
+  return DEFAULT_MODEL;
+}
+
+export function createProvider(env: Env, { provider, model }: LlmModel): LlmProvider {
+  switch (provider) {
+    case "workers-ai":
+      // resolveChoice has already swapped unlisted models for the default; they never reach the binding.
+      return new WorkersAiProvider(env.AI, isWorkersAiModel(allowedModels(env), model) ? model : DEFAULT_MODEL.model);
+    case "openai": {
+      const contextWindow = Number(env.OPENAI_CONTEXT_WINDOW);
+      return new OpenAiCompatibleProvider(model, {
+        baseUrl: env.OPENAI_BASE_URL ?? "",
+        apiKey: env.OPENAI_API_KEY,
+        contextWindow: Number.isInteger(contextWindow) && contextWindow > 0 ? contextWindow : undefined,
+      });
+    }
+    case "scripted":
+      return new ScriptedProvider(model);
+  }
+}
@@ -0,0 +1,81 @@
+import type { SessionListing, SessionListPage, SessionListQuery, SessionSettings, SessionSettingsInput } from "./api-types";
+
+/**
+ * Lobby listings. Each coordinator pushes a SessionListing to the registry when its metadata
+ * changes; the registry filters, sorts and pages them for /api/sessions.
+ */
+
+export const DEFAULT_MAX_PLAYERS = 6;
+export const MAX_PLAYERS = 12;
+export const MAX_TITLE_LENGTH = 80;
+export const MAX_DESCRIPTION_LENGTH = 500;
+// Sessions with activity this recent count as active in the lobby filter.
+export const ACTIVE_WINDOW_MS = 15 * 60 * 1000;
+
+// No 0/O or 1/I, so codes survive being read aloud or copied by hand.
+const INVITE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const INVITE_CODE_LENGTH = 8;
+
+/**
+ * A fresh random invite code for a private session, e.g. "K7QM-2XPA".
+ */
+export function createInviteCode(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(INVITE_CODE_LENGTH));
+  const code = Array.from(bytes, byte => INVITE_ALPHABET[byte % INVITE_ALPHABET.length]).join("");
+  return `${code.slice(0, 4)}-${code.slice(4)}`;
+}
+
+/**
+ * Invite codes match regardless of case, spaces and dashes.
+ */
+export function matchesInviteCode(given: string | undefined, expected: string | null): boolean {
+  const normalize = (code: string) => code.toUpperCase().replace(/[\s-]/g, "");
+  return given !== undefined && expected !== null && normalize(given) === normalize(expected);
+}
+
+/**
+ * Settings for a new session; the session ID doubles as the title when none is given.
+ */
+export function createSettings(input: SessionSettingsInput | undefined, sessionId: string): SessionSettings {
+  return {
+    title: input?.title?.trim() || sessionId,
+    description: input?.description?.trim() ?? "",
+    maxPlayers: input?.maxPlayers ?? DEFAULT_MAX_PLAYERS,
+    visibility: input?.visibility ?? "public",
+    review: input?.review ?? false,
+    llm: input?.llm ?? null,
+  };
+}
+
+const hasOpenSeat = (listing: SessionListing) => !listing.inviteOnly && listing.playerCount < listing.maxPlayers;
+
+const SORT_KEYS: Record<SessionListQuery["sort"], (listing: SessionListing) => number | string> = {
+  lastActivity: listing => listing.lastActivity,
+  createdAt: listing => listing.createdAt,
+  players: listing => listing.playerCount,
+  title: listing => listing.title.toLowerCase(),
+};
+
+/**
+ * One page of public listings matching the query. Ties keep a stable order by session ID so
+ * offsets do not shuffle entries between pages.
+ */
+export function listSessions(listings: Iterable<SessionListing>, query: SessionListQuery, now = Date.now()): SessionListPage {
+  const key = SORT_KEYS[query.sort];
+  const direction = query.order === "asc" ? 1 : -1;
+  const matching = Array.from(listings)
+    .filter(listing => listing.visibility === "public")
+    .filter(listing => !query.openSeats || hasOpenSeat(listing))
+    .filter(listing => !query.active || now - listing.lastActivity < ACTIVE_WINDOW_MS)
+    .sort((a, b) => {
+      const [left, right] = [key(a), key(b)];
+      if (left !== right) return (left < right ? -1 : 1) * direction;
+      return a.sessionId < b.sessionId ? -1 : 1;
+    });
+  const end = query.offset + query.limit;
+  return {
+    sessions: matching.slice(query.offset, end),
+    total: matching.length,
+    nextOffset: end < matching.length ? end : null,
+  };
+}
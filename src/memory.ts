@@ -0,0 +1,96 @@
+import type { Message } from "./session";
+
+/**
+ * Campaign memory. The DM only sees the recent transcript verbatim; older messages are folded into a
+ * model-written "story so far" and a list of key facts (NPC names, promises, quest hooks), both of
+ * which go into the prompt ahead of the recent messages.
+ */
+
+export interface CampaignMemory {
+  summary: string;
+  facts: string[];
+  // Seq of the last message folded in; everything after it is still raw transcript.
+  summarizedThrough: number;
+}
+
+// The DM sees at most this many unsummarized messages verbatim.
+export const RECENT_MESSAGE_LIMIT = 50;
+// Compact once this many messages are unsummarized, keeping the newest KEEP_RECENT as they are.
+export const COMPACT_AFTER = 60;
+const KEEP_RECENT = 20;
+// Caps on one compaction's input, so a long backlog after AI outages is folded in over several passes.
+const MAX_SEGMENT = 40;
+const MAX_MESSAGE_CHARS = 600;
+export const MAX_FACTS = 30;
+
+export const emptyMemory = (): CampaignMemory => ({ summary: "", facts: [], summarizedThrough: 0 });
+
+const unsummarized = (memory: CampaignMemory, messages: Message[]) =>
+  messages.filter(message => message.seq > memory.summarizedThrough);
+
+/**
+ * The transcript the DM sees: what the memory does not cover yet, newest last.
+ */
+export function recentMessages(memory: CampaignMemory, messages: Message[]): Message[] {
+  return unsummarized(memory, messages).slice(-RECENT_MESSAGE_LIMIT);
+}
+
+/**
+ * How many of the oldest unsummarized messages to fold in next, given the last seq in the transcript;
+ * 0 until enough have built up to be worth a compaction.
+ */
+export function segmentLength(memory: CampaignMemory, lastSeq: number): number {
+  const pending = lastSeq - memory.summarizedThrough;
+  if (pending < COMPACT_AFTER) return 0;
+  return Math.min(pending - KEEP_RECENT, MAX_SEGMENT);
+}
+
+/**
+ * Transcript lines for the summarizer, with very long narration cut short.
+ */
+export function formatSegment(messages: Message[]): string {
+  return messages.map(message => {
+    const content = message.content.length > MAX_MESSAGE_CHARS
+      ? `${message.content.slice(0, MAX_MESSAGE_CHARS)}…`
+      : message.content;
+    return `${message.actor}: ${content}`;
+  }).join("\n");
+}
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === "string" && value.trim().length > 0;
+
+/**
+ * Decode the summarizer's `{ "summary": "...", "facts": [...] }` reply into the next memory.
+ * Returns null when the reply is not valid, so the old memory is kept and the segment retried later.
+ */
+export function parseMemoryUpdate(raw: string, segment: Message[]): CampaignMemory | null {
+  const json = raw.trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(json);
+  } catch {
+    return null;
+  }
+  if (typeof decoded !== "object" || decoded === null) return null;
+  const { summary, facts } = decoded as { summary?: unknown; facts?: unknown };
+  if (!isNonEmptyString(summary) || !Array.isArray(facts) || !facts.every(isNonEmptyString)) {
+    return null;
+  }
+  const unique = Array.from(new Set(facts.map(fact => fact.trim())));
+  return {
+    summary: summary.trim(),
+    // The model is asked to drop stale facts itself; past the cap the oldest go first.
+    facts: unique.slice(-MAX_FACTS),
+    summarizedThrough: segment[segment.length - 1].seq,
+  };
+}
+
+/**
+ * Prompt section for the DM; empty until the first compaction.
+ */
+export function describeMemory(memory: CampaignMemory): string {
+  if (!memory.summary) return "";
+  const facts = memory.facts.length > 0 ? `\nKey facts:\n${memory.facts.map(fact => `- ${fact}`).join("\n")}` : "";
+  return `Story so far:\n${memory.summary}${facts}\n`;
+}
@@ -0,0 +1,231 @@
+import { defaultCharacter } from "./character";
+import { defaultCombatState, enemyCombatant, playerCombatant } from "./combat";
+import { randomSeed } from "./dice";
+import { createItem, Item } from "./inventory";
+import { createSettings } from "./lobby";
+import { emptyMemory } from "./memory";
+import type { CombatState, Enemy, Message, Player, SessionSnapshot } from "./session";
+
+/**
+ * Session snapshot migrations. Every snapshot is saved with `schemaVersion`; older ones are upgraded
+ * step by step when a coordinator loads them. Snapshots saved before versioning count as version 0.
+ *
+ * To change the snapshot shape, append a step; `SNAPSHOT_VERSION` follows the last one. Released steps
+ * never change, because stored sessions may sit at any version.
+ */
+
+// A snapshot as any past version saved it: every field may be missing or in an older shape.
+export interface LegacySnapshot {
+  schemaVersion?: number;
+  players?: [string, LegacyPlayer][];
+  // Sessions saved as one blob, before messages were stored one per key. The loader moves these out.
+  messages?: LegacyMessage[];
+  combat?: Partial<Omit<CombatState, "enemies">> & { enemies?: LegacyEnemy[] };
+  lastActivity?: number;
+  sessionId?: string;
+  nextSeq?: number;
+  [field: string]: unknown;
+}
+
+type LegacyPlayer = Omit<Player, "inventory"> & { inventory: Array<Item | string> };
+type LegacyMessage = Omit<Message, "seq"> & { seq?: number };
+type LegacyEnemy = Omit<Enemy, "id"> & { id?: string };
+
+interface Migration {
+  // The version a snapshot has once this step ran.
+  version: number;
+  description: string;
+  migrate(snapshot: LegacySnapshot): void;
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "Players gain a default character sheet",
+    migrate(snapshot) {
+      snapshot.players?.forEach(([, player]) => { player.character = player.character ?? defaultCharacter(); });
+    },
+  },
+  {
+    version: 2,
+    description: "Inventories saved as plain strings become single catalog items",
+    migrate(snapshot) {
+      snapshot.players?.forEach(([, player]) => {
+        player.inventory = player.inventory.map(item => (typeof item === "string" ? createItem(item) : item));
+      });
+    },
+  },
+  {
+    version: 3,
+    description: "Blob transcripts gain seqs and the session its next seq",
+    migrate(snapshot) {
+      snapshot.messages?.forEach((message, index) => { message.seq = message.seq ?? index + 1; });
+      snapshot.nextSeq = snapshot.nextSeq ?? (snapshot.messages ? snapshot.messages.length + 1 : 1);
+    },
+  },
+  {
+    version: 4,
+    description: "Combat gains initiative, rounds, readied actions and reactions",
+    migrate(snapshot) {
+      const combat = { ...defaultCombatState(), ...snapshot.combat };
+      if (combat.active && combat.initiative.length === 0) {
+        // Combats saved before initiative tracking keep their order with zeroed rolls.
+        const byName = new Map((snapshot.players ?? []).map(([, player]) => [player.name, player]));
+        combat.initiative = combat.turnOrder.map(name => {
+          const player = byName.get(name);
+          const combatant = player ? playerCombatant(player as Player) : enemyCombatant({ id: name, name, hp: 0 });
+          return { ...combatant, roll: 0, total: 0, tiebreaker: 0 };
+        });
+        combat.round = Math.max(1, combat.round);
+      }
+      snapshot.combat = combat;
+    },
+  },
+  {
+    version: 5,
+    description: "Enemies gain instance IDs",
+    migrate(snapshot) {
+      // Enemies saved before instance IDs were keyed by name, which was unique back then.
+      snapshot.combat?.enemies?.forEach(enemy => { enemy.id = enemy.id ?? enemy.name; });
+    },
+  },
+  {
+    version: 6,
+    description: "Sessions gain campaign memory",
+    migrate(snapshot) {
+      snapshot.memory = snapshot.memory ?? emptyMemory();
+    },
+  },
+  {
+    version: 7,
+    description: "Sessions gain an owner and a ban list",
+    migrate(snapshot) {
+      // The first player to have joined becomes the owner.
+      if (snapshot.ownerId === undefined) snapshot.ownerId = snapshot.players?.[0]?.[0] ?? null;
+      snapshot.banned = snapshot.banned ?? [];
+    },
+  },
+  {
+    version: 8,
+    description: "Sessions gain lobby settings, a creation time and an invite code",
+    migrate(snapshot) {
+      const seated = (snapshot.players?.length ?? 0) > 0;
+      snapshot.settings = snapshot.settings ?? (seated && snapshot.sessionId ? createSettings(undefined, snapshot.sessionId) : null);
+      snapshot.lastActivity = snapshot.lastActivity ?? Date.now();
+      snapshot.createdAt = snapshot.createdAt ?? snapshot.lastActivity;
+      snapshot.inviteCode = snapshot.inviteCode ?? null;
+    },
+  },
+  {
+    version: 9,
+    description: "Sessions gain review drafts and the archive they were imported from",
+    migrate(snapshot) {
+      snapshot.drafts = snapshot.drafts ?? [];
+      snapshot.importedFrom = snapshot.importedFrom ?? null;
+    },
+  },
+  {
+    version: 10,
+    description: "Sessions gain turn checkpoints for undo and reroll",
+    migrate(snapshot) {
+      snapshot.checkpoints = snapshot.checkpoints ?? [];
+    },
+  },
+  {
+    version: 11,
+    description: "Session settings gain a model choice",
+    migrate(snapshot) {
+      // Sessions created before providers keep running on the server default.
+      const settings = snapshot.settings as { llm?: unknown } | null | undefined;
+      if (settings && settings.llm === undefined) settings.llm = null;
+    },
+  },
+  {
+    version: 12,
+    description: "Sessions gain a recorded dice seed",
+    migrate(snapshot) {
+      // Earlier rolls came from an unrecorded seed; only rolls from here on can be replayed.
+      snapshot.dice = snapshot.dice ?? { seed: randomSeed(), draws: 0 };
+    },
+  },
+];
+
+export const SNAPSHOT_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export type MigrationResult =
+  | { ok: true; snapshot: SessionSnapshot; messages: Message[]; migrated: boolean }
+  | { ok: false; error: string };
+
+/**
+ * Upgrade a stored snapshot to the current version. A legacy transcript blob comes back separately in
+ * `messages`, with seqs, for the caller to store as records. Anything unreadable is an error, as is a
+ * snapshot from a newer version than this code knows.
+ */
+export function migrateSnapshot(stored: unknown): MigrationResult {
+  if (!isObject(stored)) return { ok: false, error: "Snapshot is not an object" };
+  const from = stored.schemaVersion ?? 0;
+  if (typeof from !== "number" || !Number.isInteger(from) || from < 0) {
+    return { ok: false, error: "Snapshot has an invalid schemaVersion" };
+  }
+  if (from > SNAPSHOT_VERSION) {
+    return { ok: false, error: `Snapshot version ${from} is newer than ${SNAPSHOT_VERSION}` };
+  }
+  if (!isLegacyShape(stored)) return { ok: false, error: "Snapshot players, messages or combat are malformed" };
+  // Migrate a copy so a failed step leaves the stored snapshot untouched for quarantine.
+  const snapshot: LegacySnapshot = structuredClone(stored);
+  for (const step of MIGRATIONS) {
+    if (step.version <= from) continue;
+    try {
+      step.migrate(snapshot);
+    } catch (error) {
+      return { ok: false, error: `Migration ${step.version} (${step.description}) failed: ${String(error)}` };
+    }
+    snapshot.schemaVersion = step.version;
+  }
+  const { messages = [], ...current } = snapshot;
+  if (!isSessionSnapshot(current)) return { ok: false, error: "Migrated snapshot is malformed" };
+  return { ok: true, snapshot: current, messages: messages as Message[], migrated: from !== SNAPSHOT_VERSION };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === "string");
+}
+
+// Only what the migration steps themselves read; the result is checked in full afterwards.
+function isLegacyShape(value: Record<string, unknown>): value is LegacySnapshot {
+  const { players, messages, combat } = value;
+  const playersOk = Array.isArray(players) && players.every(entry =>
+    Array.isArray(entry) && entry.length === 2 && typeof entry[0] === "string" && isObject(entry[1])
+    && typeof entry[1].name === "string" && Array.isArray(entry[1].inventory));
+  const messagesOk = messages === undefined || (Array.isArray(messages) && messages.every(isObject));
+  const combatOk = combat === undefined || (isObject(combat)
+    && (combat.enemies === undefined || (Array.isArray(combat.enemies) && combat.enemies.every(isObject)))
+    && (combat.turnOrder === undefined || isStringArray(combat.turnOrder))
+    && (combat.initiative === undefined || Array.isArray(combat.initiative)));
+  return playersOk && messagesOk && combatOk;
+}
+
+function isSessionSnapshot(value: Record<string, unknown>): value is SessionSnapshot & Record<string, unknown> {
+  const { combat, memory } = value;
+  return value.schemaVersion === SNAPSHOT_VERSION
+    && Number.isInteger(value.nextSeq) && (value.nextSeq as number) >= 1
+    && typeof value.lastActivity === "number"
+    && typeof value.createdAt === "number"
+    && (value.sessionId === undefined || typeof value.sessionId === "string")
+    && (value.ownerId === null || typeof value.ownerId === "string")
+    && (value.inviteCode === null || typeof value.inviteCode === "string")
+    && (value.importedFrom === null || typeof value.importedFrom === "string")
+    && (value.settings === null || isObject(value.settings))
+    && isStringArray(value.banned)
+    && Array.isArray(value.drafts)
+    && Array.isArray(value.checkpoints)
+    && isObject(value.dice) && Number.isInteger(value.dice.seed) && Number.isInteger(value.dice.draws)
+    && isObject(memory) && typeof memory.summary === "string" && isStringArray(memory.facts)
+    && isObject(combat) && typeof combat.active === "boolean" && isStringArray(combat.turnOrder)
+    && Array.isArray(combat.enemies) && Array.isArray(combat.initiative)
+    && Array.isArray(combat.readied) && isStringArray(combat.reactionsUsed);
+}
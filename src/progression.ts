@@ -0,0 +1,133 @@
+import { CharacterSheet, classFeatures, hitDieFor, maxHpOf, refreshDerivedStats } from "./character";
+import { isDead } from "./dying";
+import type { Enemy, Player } from "./session";
+
+/**
+ * 5e experience and leveling. Defeated enemies are worth their stat block's XP, split evenly
+ * across the living party; the DM can also grant milestone XP. Crossing a threshold levels the
+ * character up at once: fixed-average hit points, a new proficiency bonus and the class features
+ * for that level.
+ */
+
+// Total XP needed for each level, index 0 being level 1.
+export const XP_THRESHOLDS = [
+  0, 300, 900, 2700, 6500, 14000, 23000, 34000, 48000, 64000,
+  85000, 100000, 120000, 140000, 165000, 195000, 225000, 265000, 305000, 355000,
+] as const;
+export const MAX_LEVEL = XP_THRESHOLDS.length;
+
+// Largest milestone the DM may grant in one effect; enough for a big story beat, not a jump to level 20.
+export const MAX_MILESTONE_XP = 5000;
+
+// Used when a stat block only gives a challenge rating.
+const XP_BY_CR: Record<string, number> = {
+  "0": 10, "1/8": 25, "1/4": 50, "1/2": 100, "1": 200, "2": 450, "3": 700, "4": 1100, "5": 1800,
+  "6": 2300, "7": 2900, "8": 3900, "9": 5000, "10": 5900, "11": 7200, "12": 8400, "13": 10000,
+  "14": 11500, "15": 13000, "16": 15000, "17": 18000, "18": 20000, "19": 22000, "20": 25000,
+};
+
+export const levelForXp = (xp: number) => XP_THRESHOLDS.filter(threshold => xp >= threshold).length;
+
+/**
+ * Total XP at which the next level is reached, or null at level 20.
+ */
+export function nextLevelXp(level: number): number | null {
+  return level < MAX_LEVEL ? XP_THRESHOLDS[level] : null;
+}
+
+/**
+ * What an enemy is worth: the stat block's XP, or its challenge rating when XP is missing.
+ * Creatures the bestiary does not know are worth nothing; the DM can grant milestone XP instead.
+ */
+export function xpValue(enemy: Enemy): number {
+  if (!enemy.stats) return 0;
+  return enemy.stats.xp || XP_BY_CR[enemy.stats.cr] || 0;
+}
+
+export interface CombatAward {
+  defeated: Enemy[];
+  total: number;
+  share: number;
+  recipients: Player[];
+}
+
+/**
+ * Split the XP for every defeated enemy evenly (rounding down) across the surviving party. Players
+ * knocked unconscious at 0 HP survived the fight and get a full share, as in 5e; only the dead miss out.
+ */
+export function combatAward(players: Player[], enemies: Enemy[]): CombatAward {
+  const defeated = enemies.filter(enemy => enemy.hp <= 0);
+  const total = defeated.reduce((sum, enemy) => sum + xpValue(enemy), 0);
+  const recipients = players.filter(player => !isDead(player));
+  const share = recipients.length > 0 ? Math.floor(total / recipients.length) : 0;
+  return { defeated, total, share, recipients };
+}
+
+/**
+ * Add XP and level up through every threshold crossed.
+ */
+export function gainXp(player: Player, amount: number) {
+  if (isDead(player) || amount <= 0) return;
+  player.xp = (player.xp ?? 0) + amount;
+  const sheet = player.character;
+  if (!sheet) return;
+  while (sheet.level < levelForXp(player.xp)) {
+    levelUp(player, sheet);
+  }
+}
+
+function levelUp(player: Player, sheet: CharacterSheet) {
+  sheet.level++;
+  // 5e's fixed hit point option: half the hit die plus one, plus CON.
+  const hitPoints = Math.max(1, Math.floor(hitDieFor(sheet.className) / 2) + 1 + sheet.modifiers.con);
+  sheet.maxHp += hitPoints;
+  // The unconscious stay at 0 HP; a level does not revive anyone.
+  if (player.hp > 0) player.hp += hitPoints;
+  sheet.features = [...(sheet.features ?? []), ...classFeatures(sheet.className, sheet.level)];
+  refreshDerivedStats(sheet);
+}
+
+export interface Progress {
+  xp: number;
+  level: number;
+  maxHp: number;
+  proficiencyBonus: number;
+}
+
+export const progressOf = (player: Player): Progress => ({
+  xp: player.xp ?? 0,
+  level: player.character?.level ?? 1,
+  maxHp: maxHpOf(player),
+  proficiencyBonus: player.character?.proficiencyBonus ?? 2,
+});
+
+/**
+ * Transcript lines for XP gained and every level reached since `before`.
+ */
+export function describeProgress(before: Progress, player: Player): string[] {
+  const after = progressOf(player);
+  if (after.xp <= before.xp) return [];
+  const next = nextLevelXp(after.level);
+  const lines = [`${player.name} gains ${after.xp - before.xp} XP (${after.xp}${next !== null ? `/${next}` : ""} XP).`];
+  if (after.level > before.level) {
+    const features = Array.from({ length: after.level - before.level }, (_, index) =>
+      classFeatures(player.character!.className, before.level + index + 1)).flat();
+    const proficiency = after.proficiencyBonus > before.proficiencyBonus ? `, proficiency bonus +${after.proficiencyBonus}` : "";
+    lines.push(
+      `${player.name} reaches level ${after.level}! Max HP ${before.maxHp} → ${after.maxHp}${proficiency}.`
+      + (features.length > 0 ? ` New features: ${features.join(", ")}.` : ""),
+    );
+  }
+  return lines;
+}
+
+/**
+ * Transcript line for the combat award, e.g. "Defeated Goblin A and Goblin B: 100 XP split 2 ways."
+ */
+export function describeCombatAward(award: CombatAward): string | null {
+  if (award.total <= 0 || award.recipients.length === 0) return null;
+  const names = award.defeated.map(enemy => enemy.name);
+  const list = names.length > 1 ? `${names.slice(0, -1).join(", ")} and ${names[names.length - 1]}` : names[0];
+  const split = award.recipients.length > 1 ? `, split ${award.recipients.length} ways` : "";
+  return `Defeated ${list}: ${award.total} XP${split}.`;
+}
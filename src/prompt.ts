@@ -0,0 +1,91 @@
+/**
+ * Token budgeting for the DM prompt. Every part of the prompt is a section with a priority; when the
+ * whole thing would not fit the model's context window next to the response, the lowest-priority
+ * sections are trimmed first, each only as far as needed.
+ */
+
+// Llama 3.3 70B (fp8-fast) on Workers AI.
+export const CONTEXT_WINDOW_TOKENS = 24000;
+// Headers, separators and chat template tokens around each section, roughly.
+const SECTION_OVERHEAD_TOKENS = 8;
+// English prose and JSON average closer to four characters per token; erring high is deliberate,
+// since overshooting the window fails the request while undershooting only wastes a little of it.
+const CHARS_PER_TOKEN = 3.5;
+
+export const estimateTokens = (text: string) => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+export type TrimStrategy =
+  // Drop whole entries from the start, e.g. the oldest transcript lines.
+  | "oldest"
+  // Cut the end of the text.
+  | "end"
+  // Never trimmed: the rules and the facts of this turn.
+  | "none";
+
+export interface PromptSection {
+  name: string;
+  entries: string[];
+  // Lower priorities are trimmed first.
+  priority: number;
+  trim: TrimStrategy;
+}
+
+export interface SectionTrim {
+  section: string;
+  droppedTokens: number;
+  // The whole section went.
+  removed: boolean;
+}
+
+export interface BuiltPrompt {
+  // Kept text per section name, entries joined by newlines.
+  sections: Map<string, string>;
+  tokens: number;
+  budget: number;
+  trimmed: SectionTrim[];
+}
+
+const joined = (entries: string[]) => entries.join("\n");
+
+const sectionTokens = (entries: string[]) => estimateTokens(joined(entries)) + SECTION_OVERHEAD_TOKENS;
+
+/**
+ * Fit the sections into `budget` tokens. Sections that cannot be trimmed are always kept, so the
+ * result can still be over budget when they alone exceed it.
+ */
+export function buildPrompt(sections: PromptSection[], budget: number): BuiltPrompt {
+  const kept = new Map(sections.map(section => [section.name, section.entries]));
+  let tokens = sections.reduce((sum, section) => sum + sectionTokens(section.entries), 0);
+  const trimmed: SectionTrim[] = [];
+
+  const trimOrder = sections.filter(section => section.trim !== "none").sort((a, b) => a.priority - b.priority);
+  for (const section of trimOrder) {
+    if (tokens <= budget) break;
+    const before = sectionTokens(section.entries);
+    const entries = shrink(section, before - (tokens - budget));
+    const after = entries.length > 0 ? sectionTokens(entries) : 0;
+    kept.set(section.name, entries);
+    tokens -= before - after;
+    trimmed.push({ section: section.name, droppedTokens: before - after, removed: entries.length === 0 });
+  }
+
+  return {
+    sections: new Map(Array.from(kept, ([name, entries]) => [name, joined(entries)])),
+    tokens,
+    budget,
+    trimmed,
+  };
+}
+
+function shrink(section: PromptSection, maxTokens: number): string[] {
+  if (maxTokens <= SECTION_OVERHEAD_TOKENS) return [];
+  if (section.trim === "end") {
+    const chars = Math.floor((maxTokens - SECTION_OVERHEAD_TOKENS - 1) * CHARS_PER_TOKEN);
+    return chars > 0 ? [`${joined(section.entries).slice(0, chars)}…`] : [];
+  }
+  const entries = [...section.entries];
+  while (entries.length > 0 && sectionTokens(entries) > maxTokens) {
+    entries.shift();
+  }
+  return entries;
+}
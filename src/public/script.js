@@ -10,25 +10,98 @@ const sessionIdEl = document.getElementById('sessionId');
 const playerSelectEl = document.getElementById('playerSelect');
 const nameEl = document.getElementById('name');
 const actionEl = document.getElementById('action');
+const raceEl = document.getElementById('race');
+const classNameEl = document.getElementById('className');
+const visibilityEl = document.getElementById('visibility');
+const inviteCodeEl = document.getElementById('inviteCode');
+const reviewEl = document.getElementById('review');
+const llmProviderEl = document.getElementById('llmProvider');
+const llmModelEl = document.getElementById('llmModel');
+const importFileEl = document.getElementById('importFile');
+const draftsPanelEl = document.getElementById('draftsPanel');
+const draftListEl = document.getElementById('draftList');
 const clearSessionsBtn = document.getElementById('clearSessions');
 const currentSessionEl = document.getElementById('currentSession');
 const IS_LOCAL_HOST = location.hostname === 'localhost' || location.hostname === '127.0.0.1';
 let currentPlayerId = '';
 let currentPlayerName = '';
 let currentSessionId = '';
-let lastMessageCount = 0;
-let pollingInterval = null;
+let lastSeq = 0;
+// Oldest transcript seq on screen; older pages load from /api/session/history on scroll-up.
+let oldestSeq = 0;
+let historyLoading = false;
+let socket = null;
+let reconnectTimer = null;
+// Matches the server's close code for kicked and banned players.
+const REMOVED_CLOSE_CODE = 4003;
+let pendingAction = null;
+let latestState = { players: [], combat: null };
+
+// Player tokens from /api/session/join live in localStorage, so a new tab can act as (and rejoin as) the same player.
+const tokenKey = (sessionId, playerId) => `playerToken:${sessionId}:${playerId}`;
+
+function savePlayerToken(sessionId, playerId, token) {
+  if (token) localStorage.setItem(tokenKey(sessionId, playerId), token);
+}
+
+// Sessions restored from an archive remember the session it came from; tokens from there claim the restored seats.
+const importKey = sessionId => `importedFrom:${sessionId}`;
+
+function saveImportedFrom(sessionId, importedFrom) {
+  if (importedFrom) localStorage.setItem(importKey(sessionId), importedFrom);
+}
 
-// Hydrate the session select dropdown from the registry endpoint.
+function playerToken(sessionId, playerId) {
+  const origin = localStorage.getItem(importKey(sessionId));
+  return localStorage.getItem(tokenKey(sessionId, playerId)) || (origin && localStorage.getItem(tokenKey(origin, playerId)));
+}
+
+// JSON headers plus the player's bearer token, when this browser holds one.
+function authHeaders(sessionId, playerId) {
+  const token = playerToken(sessionId, playerId);
+  const headers = { 'Content-Type': 'application/json' };
+  if (token) headers.Authorization = `Bearer ${token}`;
+  return headers;
+}
+
+// Private sessions only show state to players at the table: read as the current player, or as any
+// player this browser has joined the session as before.
+function readerCredentials(sessionId) {
+  let playerId = sessionId === currentSessionId ? currentPlayerId : '';
+  if (!playerId) {
+    const origin = localStorage.getItem(importKey(sessionId));
+    const prefixes = [tokenKey(sessionId, ''), origin && tokenKey(origin, '')].filter(Boolean);
+    const prefix = prefixes.find(p => Object.keys(localStorage).some(k => k.startsWith(p)));
+    const key = prefix && Object.keys(localStorage).find(k => k.startsWith(prefix));
+    playerId = key ? key.slice(prefix.length) : '';
+  }
+  const token = playerId ? playerToken(sessionId, playerId) : null;
+  if (!token) return { query: '', headers: {}, token: '' };
+  return { query: `&playerId=${encodeURIComponent(playerId)}`, headers: { Authorization: `Bearer ${token}` }, token };
+}
+
+// Select a session in the dropdown, adding it first when the lobby does not list it (unlisted and private ones).
+function selectSession(sessionId) {
+  if (!Array.from(sessionIdEl.options).some(option => option.value === sessionId)) {
+    const option = document.createElement('option');
+    option.value = sessionId;
+    option.textContent = sessionId;
+    sessionIdEl.insertBefore(option, sessionIdEl.firstChild);
+  }
+  sessionIdEl.value = sessionId;
+}
+
+// Hydrate the session select dropdown from the registry endpoint, most recently active first.
 async function loadSessions() {
   try {
-    const res = await fetch('/api/sessions');
+    const res = await fetch('/api/sessions?limit=100');
     const data = await res.json();
     sessionIdEl.innerHTML = '';
     data.sessions.forEach(session => {
       const option = document.createElement('option');
-      option.value = session;
-      option.textContent = session;
+      option.value = session.sessionId;
+      option.textContent = `${session.title} (${session.playerCount}/${session.maxPlayers})${session.inCombat ? ' ⚔️' : ''}${session.inviteOnly ? ' 🔒' : ''}`;
+      if (session.description) option.title = session.description;
       sessionIdEl.appendChild(option);
     });
     const createOption = document.createElement('option');
@@ -58,8 +131,11 @@ async function loadPlayers() {
     return;
   }
   try {
-    const res = await fetch(`/api/session/state?sessionId=${encodeURIComponent(sessionId)}`);
-    const data = await res.json();
+    const reader = readerCredentials(sessionId);
+    const res = await fetch(`/api/session/state?sessionId=${encodeURIComponent(sessionId)}${reader.query}`, { headers: reader.headers });
+    // A private session we have no seat at yet: only a new player can join, with the invite code.
+    const data = res.ok ? await res.json() : { players: [] };
+    saveImportedFrom(sessionId, data.importedFrom);
     playerSelectEl.innerHTML = '<option value="new">New Player</option>';
     data.players.forEach(player => {
       const option = document.createElement('option');
@@ -77,6 +153,30 @@ async function loadPlayers() {
 
 function clearLog() {
   log.innerHTML = '';
+  oldestSeq = 0;
+}
+
+// Prepend the page of transcript before the oldest message shown, keeping the view where it was.
+async function loadOlderMessages() {
+  if (historyLoading || oldestSeq <= 1) return;
+  const sessionId = sessionIdEl.value;
+  historyLoading = true;
+  try {
+    const reader = readerCredentials(sessionId);
+    const res = await fetch(`/api/session/history?sessionId=${encodeURIComponent(sessionId)}&before=${oldestSeq}&limit=50${reader.query}`, { headers: reader.headers });
+    if (!res.ok) return;
+    const page = await res.json();
+    const first = log.firstChild;
+    const previousHeight = log.scrollHeight;
+    const previousTop = log.scrollTop;
+    page.messages.forEach(msg => log.insertBefore(addEntry(msg), first));
+    log.scrollTop = previousTop + (log.scrollHeight - previousHeight);
+    oldestSeq = page.nextCursor ?? 1;
+  } catch (e) {
+    console.error('Failed to load older messages', e);
+  } finally {
+    historyLoading = false;
+  }
 }
 
 function showJoinPrompt() {
@@ -100,7 +200,7 @@ function showJoinPrompt() {
   currentPlayerName = '';
   currentSessionId = '';
   actionEl.value = '';
-  stopPolling();
+  disconnectSocket();
 }
 
 function enableChat() {
@@ -124,7 +224,7 @@ function enableChat() {
     console.error('❌ Character panel element not found!');
   }
 
-  startPolling();
+  connectSocket();
 
   // Force initial update
   setTimeout(() => {
@@ -133,66 +233,147 @@ function enableChat() {
   }, 100);
 }
 
-function startPolling() {
-  // Clear any existing polling interval
-  if (pollingInterval) {
-    clearInterval(pollingInterval);
-  }
+// Open a live channel to the session; the server pushes messages, roster and combat changes.
+function connectSocket() {
+  disconnectSocket();
+  if (!currentSessionId) return;
 
-  // Poll for updates every 2 seconds for more responsive character panel updates
-  pollingInterval = setInterval(async () => {
-    if (!currentSessionId) {
-      console.log('⏸️ Polling skipped - no current session');
-      return;
-    }
+  const protocol = location.protocol === 'https:' ? 'wss:' : 'ws:';
+  const reader = readerCredentials(currentSessionId);
+  const token = reader.token ? `&token=${encodeURIComponent(reader.token)}` : '';
+  const ws = new WebSocket(`${protocol}//${location.host}/api/session/ws?sessionId=${encodeURIComponent(currentSessionId)}${reader.query}${token}`);
+  socket = ws;
 
-    console.log('🔄 Polling for updates...');
+  ws.addEventListener('message', event => {
     try {
-      const res = await fetch(`/api/session/state?sessionId=${encodeURIComponent(currentSessionId)}`);
-      console.log('📡 Polling response status:', res.status);
-
-      if (res.ok) {
-        const data = await res.json();
-        console.log('📊 Polling data received:', data);
-
-        if (data.messages && data.messages.length > lastMessageCount) {
-          console.log('💬 New messages detected:', data.messages.length - lastMessageCount);
-          // New messages available - only add the new ones to avoid duplicates
-          const newMessages = data.messages.slice(lastMessageCount);
-          newMessages.forEach(msg => {
-            addMsg(msg.actor, msg.content);
-          });
-          lastMessageCount = data.messages.length;
-        }
-        // Always update character panel with latest data
-        console.log('🔄 Calling updateCharacterPanel from polling...');
-        updateCharacterPanel(data.players, data.combat);
-      } else {
-        console.error('❌ Polling failed with status:', res.status);
-      }
+      handleSessionEvent(JSON.parse(event.data));
     } catch (e) {
-      console.error('❌ Polling error:', e);
+      console.error('❌ Failed to handle session event:', e);
     }
-  }, 2000);
+  });
+
+  ws.addEventListener('close', event => {
+    // Only reconnect sockets we still care about; explicit disconnects clear `socket` first.
+    if (socket !== ws || !currentSessionId) return;
+    socket = null;
+    if (event.code === REMOVED_CLOSE_CODE) {
+      resetAppToInitialState('You were removed from the table.');
+      return;
+    }
+    reconnectTimer = setTimeout(connectSocket, 2000);
+  });
+}
+
+function disconnectSocket() {
+  if (reconnectTimer) {
+    clearTimeout(reconnectTimer);
+    reconnectTimer = null;
+  }
+  if (socket) {
+    const ws = socket;
+    socket = null;
+    ws.close();
+  }
 }
 
-function stopPolling() {
-  if (pollingInterval) {
-    clearInterval(pollingInterval);
-    pollingInterval = null;
+function handleSessionEvent(event) {
+  switch (event.type) {
+    case 'snapshot':
+      event.messages.forEach(receiveMessage);
+      latestState = { players: event.players, combat: event.combat };
+      updateCharacterPanel(latestState.players, latestState.combat);
+      break;
+    case 'message':
+      receiveMessage(event.message);
+      break;
+    case 'players':
+      latestState.players = event.players;
+      updateCharacterPanel(latestState.players, latestState.combat);
+      break;
+    case 'combat':
+      latestState.combat = event.combat;
+      updateCharacterPanel(latestState.players, latestState.combat);
+      break;
+    case 'owner':
+      // Review drafts follow the DM role; a new owner's socket is sent the queue separately.
+      if (event.ownerId !== currentPlayerId) renderDrafts(null);
+      break;
+    case 'drafts':
+      renderDrafts(event.drafts);
+      break;
+    case 'rewind':
+      // The owner took back or rerolled the last turn; what it wrote is gone and a reroll's answer follows.
+      log.querySelectorAll('.msg[data-seq]').forEach(div => {
+        if (Number(div.dataset.seq) >= event.seq) div.remove();
+      });
+      lastSeq = Math.min(lastSeq, event.seq - 1);
+      addMsg('DM', event.intent === 'undo' ? `${event.playerName}'s last action was taken back.` : `The DM answers ${event.playerName}'s action again...`);
+      break;
+    case 'reset':
+      // The action response drives the reset for whoever typed the end command.
+      if (!pendingAction) {
+        resetAppToInitialState(event.message);
+      }
+      break;
+  }
+}
+
+// Render a pushed message once, skipping the ones this tab already shows optimistically.
+function receiveMessage(msg) {
+  if (msg.seq <= lastSeq) return;
+  lastSeq = msg.seq;
+  if (!oldestSeq) oldestSeq = msg.seq;
+
+  if (pendingAction) {
+    if (!pendingAction.playerSeen && msg.actor === pendingAction.actor && msg.content === pendingAction.content) {
+      pendingAction.playerSeen = true;
+      pendingAction.entry.dataset.seq = msg.seq;
+      return;
+    }
+    if (pendingAction.playerSeen && msg.actor === 'DM') {
+      // The action response fills the placeholder, including the DM's thinking.
+      renderDmInto(pendingAction.placeholder, msg.content);
+      pendingAction.placeholder.dataset.seq = msg.seq;
+      return;
+    }
+  }
+
+  const div = addEntry(msg);
+  // Keep the pending DM placeholder at the bottom of the log.
+  if (pendingAction) {
+    log.insertBefore(div, pendingAction.placeholder);
   }
 }
 
+// Render a transcript entry from the server, giving dice rolls their own style. The seq lets an
+// undo or reroll remove it again.
+function addEntry(msg) {
+  const div = msg.type === 'roll' ? addMsg(msg.actor, `🎲 ${msg.content}`) : addMsg(msg.actor, msg.content);
+  if (msg.type === 'roll') div.classList.add('roll');
+  div.dataset.seq = msg.seq;
+  return div;
+}
+
+function renderDmInto(element, content, thinking = '') {
+  element.innerHTML = '';
+  element.className = 'msg dm';
+  const label = document.createElement('span');
+  label.textContent = 'DM: ';
+  element.appendChild(label);
+  element.appendChild(renderDmContent(content, thinking));
+}
+
 function hydrateMessages(messages = []) {
   clearLog();
-  messages.forEach(msg => addMsg(msg.actor, msg.content));
-  lastMessageCount = messages.length;
+  messages.forEach(addEntry);
+  lastSeq = messages.reduce((max, msg) => Math.max(max, msg.seq || 0), 0);
+  oldestSeq = messages.length > 0 ? messages[0].seq : 0;
 }
 
 // Lightweight UI reset used whenever a session ends or is cleared.
 async function resetAppToInitialState(finalMessage = 'The adventure has concluded. Returning to the lobby...') {
   try {
-    stopPolling();
+    disconnectSocket();
     clearLog();
     if (finalMessage) {
       addMsg('DM', finalMessage);
@@ -203,7 +384,8 @@ async function resetAppToInitialState(finalMessage = 'The adventure has conclude
     currentPlayerId = '';
     currentPlayerName = '';
     currentSessionId = '';
-    lastMessageCount = 0;
+    renderDrafts(null);
+    lastSeq = 0;
     actionEl.value = '';
     currentSessionEl.textContent = '';
     await loadSessions();
@@ -248,13 +430,22 @@ async function clearAllSessions() {
   if (!confirmed) {
     return;
   }
+  // Clearing the registry takes the server's ADMIN_KEY; it is asked for each time and never stored.
+  const adminKey = window.prompt('Admin key');
+  if (!adminKey) {
+    return;
+  }
 
   const previousLabel = clearSessionsBtn.textContent;
   clearSessionsBtn.disabled = true;
   clearSessionsBtn.textContent = 'Clearing...';
 
   try {
-    const res = await fetch('/api/sessions/clear', { method: 'POST' });
+    const res = await fetch('/api/sessions/clear', { method: 'POST', headers: { Authorization: `Bearer ${adminKey}` } });
+    if (res.status === 403) {
+      addMsg('DM', 'That admin key was not accepted.');
+      return;
+    }
     if (!res.ok) {
       throw new Error('Failed to clear sessions');
     }
@@ -438,12 +629,21 @@ function renderDmContent(rawContent, thinking = '') {
   return fragment;
 }
 
+// The model picked for a new session; null leaves it to the server. The offline script needs no model name.
+function chosenModel() {
+  const provider = llmProviderEl.value;
+  if (!provider) return null;
+  return { provider, model: llmModelEl.value.trim() || (provider === 'scripted' ? 'offline' : '') };
+}
+
 // Join or create a session, then hydrate the UI with the server's response.
 async function join() {
   let sessionId = sessionIdEl.value;
+  // Only the player who creates a session picks who can see and join it.
+  const settings = sessionId === 'create-new' ? { visibility: visibilityEl.value, review: reviewEl.checked, llm: chosenModel() } : undefined;
   if (sessionId === 'create-new') {
     sessionId = generateEpicName();
-    sessionIdEl.value = sessionId;
+    selectSession(sessionId);
   }
   let playerId = playerSelectEl.value;
   if (playerId === 'new') {
@@ -455,22 +655,38 @@ async function join() {
     return;
   }
 
+  // New characters get the standard array and skills the server picks for their class.
+  const character = playerSelectEl.value === 'new' ? { race: raceEl.value, className: classNameEl.value } : undefined;
   const res = await fetch('/api/session/join', {
     method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ sessionId, playerId, name }),
+    headers: authHeaders(sessionId, playerId),
+    body: JSON.stringify({ sessionId, playerId, name, character, settings, inviteCode: inviteCodeEl.value.trim() || undefined }),
   });
   const data = await res.json();
   console.log('🎮 Join response data:', data);
+  if (!res.ok) {
+    const details = Array.isArray(data.details) ? ` ${data.details.join(' ')}` : '';
+    addMsg('DM', `${data.error || 'Unable to join.'}${details}`);
+    return;
+  }
+  savePlayerToken(sessionId, playerId, data.token);
+  await enterSession(sessionId, playerId, name, data);
+}
 
+// Show the table after a join or a restore, from the join response.
+async function enterSession(sessionId, playerId, name, data) {
+  saveImportedFrom(sessionId, data.importedFrom);
   if (data.messages) {
     hydrateMessages(data.messages);
   } else {
     clearLog();
   }
   addMsg('DM', `Joined as ${name}. Players: ${data.players.map(p => p.name).join(', ')}`);
+  if (data.inviteCode) {
+    addMsg('DM', `New players need an invite code. Invite friends with code ${data.inviteCode} or this link: ${inviteLink(sessionId, data.inviteCode)}`);
+  }
   await loadSessions();
-  sessionIdEl.value = sessionId;
+  selectSession(sessionId);
   await loadPlayers();
   playerSelectEl.value = playerId;
   currentPlayerId = playerId;
@@ -487,6 +703,262 @@ async function join() {
   log.scrollTop = log.scrollHeight;
 }
 
+// Download the campaign as a JSON archive to restore later, or as a Markdown transcript to read.
+async function exportCampaign(sessionId, playerId, format) {
+  try {
+    const res = await fetch(`/api/session/export?sessionId=${encodeURIComponent(sessionId)}&format=${format}&playerId=${encodeURIComponent(playerId)}`, {
+      headers: authHeaders(sessionId, playerId),
+    });
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}));
+      addMsg('DM', data.error || `Export failed with status ${res.status}`);
+      return;
+    }
+    const filename = (res.headers.get('Content-Disposition') || '').match(/filename="(.+)"/)?.[1] || `campaign.${format === 'markdown' ? 'md' : 'json'}`;
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(await res.blob());
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  } catch (e) {
+    console.error('Failed to export campaign', e);
+    addMsg('DM', 'Unable to export the campaign. Please try again.');
+  }
+}
+
+// Restore an exported archive into a new session, as whichever of its players this browser played.
+async function importCampaign(file) {
+  let archive;
+  try {
+    archive = JSON.parse(await file.text());
+  } catch (_) {
+    addMsg('DM', 'That file is not a campaign archive.');
+    return;
+  }
+  const player = (archive.players || []).find(p => localStorage.getItem(tokenKey(archive.sessionId, p.id)));
+  if (!player) {
+    addMsg('DM', 'Only a player from that campaign can restore it, from the browser they played in.');
+    return;
+  }
+  const sessionId = generateEpicName();
+  const res = await fetch('/api/session/import', {
+    method: 'POST',
+    headers: authHeaders(archive.sessionId, player.id),
+    body: JSON.stringify({ sessionId, playerId: player.id, archive }),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    addMsg('DM', data.error || `Restore failed with status ${res.status}`);
+    return;
+  }
+  savePlayerToken(sessionId, player.id, data.token);
+  await enterSession(sessionId, player.id, player.name, data);
+}
+
+// Roll dice on the server; the result arrives as a roll message for the whole table.
+async function rollDice(sessionId, playerId, notation) {
+  try {
+    const res = await fetch('/api/session/roll', {
+      method: 'POST',
+      headers: authHeaders(sessionId, playerId),
+      body: JSON.stringify({ sessionId, playerId, notation }),
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      addMsg('DM', data.error || `Roll failed with status ${res.status}`);
+      return;
+    }
+    receiveMessage(data.message);
+  } catch (e) {
+    console.error('Failed to roll dice', e);
+    addMsg('DM', 'Unable to roll dice. Please try again.');
+  }
+}
+
+// Delay or ready the current turn; the server announces the change to everyone.
+async function changeTurn(sessionId, playerId, intent, detail) {
+  const body = { sessionId, playerId, intent };
+  if (intent === 'delay' && detail) body.after = detail;
+  if (intent === 'ready') body.trigger = detail;
+  try {
+    const res = await fetch('/api/session/turn', {
+      method: 'POST',
+      headers: authHeaders(sessionId, playerId),
+      body: JSON.stringify(body),
+    });
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}));
+      addMsg('DM', data.error || `Turn change failed with status ${res.status}`);
+    }
+  } catch (e) {
+    console.error('Failed to change turn', e);
+    addMsg('DM', 'Unable to change your turn. Please try again.');
+  }
+}
+
+// Equip, stow or drop an item; the server announces the change to everyone.
+async function manageInventory(sessionId, playerId, intent, item) {
+  try {
+    const res = await fetch('/api/session/inventory', {
+      method: 'POST',
+      headers: authHeaders(sessionId, playerId),
+      body: JSON.stringify({ sessionId, playerId, intent, item }),
+    });
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}));
+      addMsg('DM', data.error || `Inventory change failed with status ${res.status}`);
+    }
+  } catch (e) {
+    console.error('Failed to change inventory', e);
+    addMsg('DM', 'Unable to change your inventory. Please try again.');
+  }
+}
+
+// Owner commands: kick, ban or hand the session to a player at the table, named as shown in the roster,
+// or replace the invite code of a private session or one with bans.
+async function moderate(sessionId, playerId, intent, targetName) {
+  const target = targetName && latestState.players.find(p => p.name.toLowerCase() === targetName.toLowerCase());
+  if (targetName && !target) {
+    addMsg('DM', `No player named ${targetName} is at the table.`);
+    return;
+  }
+  try {
+    const res = await fetch('/api/session/moderate', {
+      method: 'POST',
+      headers: authHeaders(sessionId, playerId),
+      body: JSON.stringify({ sessionId, playerId, intent, target: target ? target.id : undefined }),
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      addMsg('DM', data.error || `Moderation failed with status ${res.status}`);
+    } else if (data.inviteCode && intent === 'ban') {
+      addMsg('DM', `From now on new players need invite code ${data.inviteCode} to join. Link: ${inviteLink(sessionId, data.inviteCode)}`);
+    } else if (data.inviteCode) {
+      addMsg('DM', `New invite code: ${data.inviteCode}. The old one no longer works. Link: ${inviteLink(sessionId, data.inviteCode)}`);
+    }
+  } catch (e) {
+    console.error('Failed to moderate', e);
+    addMsg('DM', 'Unable to manage the table. Please try again.');
+  }
+}
+
+// The owner takes back the last turn, or has the DM answer it again; the socket carries the changes.
+async function rewindTurn(sessionId, playerId, intent) {
+  try {
+    const res = await fetch('/api/session/rewind', {
+      method: 'POST',
+      headers: authHeaders(sessionId, playerId),
+      body: JSON.stringify({ sessionId, playerId, intent }),
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      addMsg('DM', data.error || `${intent === 'undo' ? 'Undo' : 'Reroll'} failed with status ${res.status}`);
+    } else if (data.variants) {
+      addMsg('DM', `${data.variants.length} earlier ${data.variants.length === 1 ? 'answer is' : 'answers are'} kept with this turn.`);
+    }
+  } catch (e) {
+    console.error(`Failed to ${intent}`, e);
+    addMsg('DM', 'Unable to change the last turn. Please try again.');
+  }
+}
+
+// Review mode: the DM approves, edits, regenerates or rejects a draft before the table sees it.
+async function reviewDraft(draftId, intent, text) {
+  try {
+    const res = await fetch('/api/session/review', {
+      method: 'POST',
+      headers: authHeaders(currentSessionId, currentPlayerId),
+      body: JSON.stringify({ sessionId: currentSessionId, playerId: currentPlayerId, intent, draftId, text }),
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      addMsg('DM', data.error || `Review failed with status ${res.status}`);
+      return false;
+    }
+    renderDrafts(data.drafts);
+    return true;
+  } catch (e) {
+    console.error('Failed to review draft', e);
+    addMsg('DM', 'Unable to review the draft. Please try again.');
+    return false;
+  }
+}
+
+// The DM's review queue; null hides it for everyone else.
+function renderDrafts(drafts) {
+  draftsPanelEl.hidden = !drafts;
+  draftListEl.innerHTML = '';
+  if (!drafts) return;
+  if (drafts.length === 0) {
+    draftListEl.textContent = 'No drafts waiting.';
+    return;
+  }
+  drafts.forEach(draft => {
+    const entry = document.createElement('div');
+    entry.className = 'draft';
+    const heading = document.createElement('strong');
+    heading.textContent = `${draft.playerName}: ${draft.action}${draft.degraded ? ' (the AI failed; write the reply yourself or regenerate)' : ''}`;
+    const text = document.createElement('textarea');
+    text.value = draft.text;
+    const effects = document.createElement('div');
+    effects.className = 'effects';
+    effects.textContent = draft.effects ? `Effects: ${JSON.stringify(draft.effects)}` : 'No effects block; changes are read from the text.';
+
+    const button = (label, onClick) => {
+      const el = document.createElement('button');
+      el.type = 'button';
+      el.textContent = label;
+      el.addEventListener('click', onClick);
+      return el;
+    };
+    // Edits are saved first so the approved text is the one in the box.
+    const approve = button('Approve', async () => {
+      const edited = text.value.trim();
+      if (edited && edited !== draft.text && !(await reviewDraft(draft.id, 'edit', edited))) return;
+      await reviewDraft(draft.id, 'approve');
+    });
+    const regenerate = button('Regenerate', () => reviewDraft(draft.id, 'regenerate'));
+    const reject = button('Reject', () => {
+      const note = prompt('Optional note to the table:');
+      if (note === null) return;
+      reviewDraft(draft.id, 'reject', note.trim() || undefined);
+    });
+    entry.append(heading, text, effects, approve, regenerate, reject);
+    draftListEl.appendChild(entry);
+  });
+}
+
+// The action's final response body. Streamed responses report the narration so far through onProgress;
+// speech, /end and similar replies arrive as plain JSON.
+async function readActionResponse(res, onProgress) {
+  if (!(res.headers.get('Content-Type') || '').includes('text/event-stream')) {
+    return res.json();
+  }
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  const streamed = { narration: '', thinking: '' };
+  let buffered = '';
+  for (;;) {
+    const { value, done } = await reader.read();
+    buffered += decoder.decode(value, { stream: !done });
+    const events = buffered.split('\n\n');
+    buffered = done ? '' : events.pop();
+    for (const raw of events) {
+      const event = raw.match(/^event: (.+)$/m)?.[1];
+      const data = raw.match(/^data: (.+)$/m)?.[1];
+      if (!event || !data) continue;
+      const payload = JSON.parse(data);
+      if (event === 'done') return payload;
+      if (event === 'error') throw new Error(payload.error || 'Action failed');
+      if (event in streamed) {
+        streamed[event] += payload.text;
+        onProgress(streamed.narration, streamed.thinking);
+      }
+    }
+    if (done) throw new Error('The connection closed before the DM finished.');
+  }
+}
+
 // Send the player's action to the Worker and stream results back into the log.
 async function sendAction() {
   const sessionId = sessionIdEl.value;
@@ -500,24 +972,64 @@ async function sendAction() {
   const playerName = currentPlayerName || nameEl.value.trim() || 'Player';
   actionEl.value = '';
 
+  const rollCommand = playerAction.trim().match(/^\/roll\s+(.+)$/i);
+  if (rollCommand) {
+    await rollDice(sessionId, playerId, rollCommand[1]);
+    return;
+  }
+
+  const inventoryCommand = playerAction.trim().match(/^\/(equip|unequip|drop)\s+(.+)$/i);
+  if (inventoryCommand) {
+    const intent = inventoryCommand[1].toLowerCase() === 'drop' ? 'remove' : inventoryCommand[1].toLowerCase();
+    await manageInventory(sessionId, playerId, intent, inventoryCommand[2].trim());
+    return;
+  }
+
+  const turnCommand = playerAction.trim().match(/^\/(delay|ready)\b\s*(.*)$/i);
+  if (turnCommand) {
+    await changeTurn(sessionId, playerId, turnCommand[1].toLowerCase(), turnCommand[2].trim());
+    return;
+  }
+
+  const moderationCommand = playerAction.trim().match(/^\/(kick|ban|transfer)\s+(.+)$/i);
+  if (moderationCommand) {
+    await moderate(sessionId, playerId, moderationCommand[1].toLowerCase(), moderationCommand[2].trim());
+    return;
+  }
+  if (/^\/invite$/i.test(playerAction.trim())) {
+    await moderate(sessionId, playerId, 'invite');
+    return;
+  }
+
+  const rewindCommand = playerAction.trim().match(/^\/(undo|reroll)$/i);
+  if (rewindCommand) {
+    await rewindTurn(sessionId, playerId, rewindCommand[1].toLowerCase());
+    return;
+  }
+
+  const exportCommand = playerAction.trim().match(/^\/export(?:\s+(md|markdown|json))?$/i);
+  if (exportCommand) {
+    await exportCampaign(sessionId, playerId, /^(md|markdown)$/i.test(exportCommand[1] || '') ? 'markdown' : 'json');
+    return;
+  }
+
   // Disable UI
   actionEl.disabled = true;
   document.getElementById('send').disabled = true;
   document.getElementById('send').textContent = 'Sending...';
 
   // Add player message
-  addMsg(playerName, playerAction);
-  lastMessageCount++; // Account for the player message we just added
+  const playerEntry = addMsg(playerName, playerAction);
 
-  // Add pulsating DM placeholder
+  // Add pulsating DM placeholder; pushed copies of both messages are matched against it.
   const dmPlaceholder = addMsg('DM', '✨', '', true);
-  lastMessageCount++; // Account for the placeholder DM message
+  pendingAction = { actor: playerName, content: playerAction, playerSeen: false, entry: playerEntry, placeholder: dmPlaceholder };
 
   let skipActionFocus = false;
   try {
-    const res = await fetch('/api/session/action', {
+    const res = await fetch('/api/session/action/stream', {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: authHeaders(sessionId, playerId),
       body: JSON.stringify({ sessionId, playerId, playerAction }),
     });
     if (!res.ok) {
@@ -529,34 +1041,33 @@ async function sendAction() {
       } catch (_) { }
       const err = new Error(parsedMessage || `Action failed with status ${res.status}`);
       err.name = 'ActionError';
+      err.status = res.status;
       throw err;
     }
-    const data = await res.json();
+    const data = await readActionResponse(res, (narration, thinking) => renderDmInto(dmPlaceholder, narration, thinking));
     const shouldReset = Boolean(data.reset) || (Array.isArray(data.state?.players) && data.state.players.length === 0);
     if (shouldReset) {
       skipActionFocus = true;
       await resetAppToInitialState(data.result ?? 'The game has ended. Thank you for playing!');
+    } else if (data.speech) {
+      // In-character speech during combat gets no DM reply.
+      dmPlaceholder.remove();
+    } else if (data.pending) {
+      // Review mode: the narration arrives over the socket once the DM approves it.
+      renderDmInto(dmPlaceholder, '📝 The DM is reviewing your action.');
     } else {
       // Replace placeholder with actual DM response
-      dmPlaceholder.innerHTML = '';
-      dmPlaceholder.className = 'msg dm';
-      const label = document.createElement('span');
-      label.textContent = 'DM: ';
-      dmPlaceholder.appendChild(label);
-      dmPlaceholder.appendChild(renderDmContent(data.result ?? 'The DM is thinking...', data.thinking || ''));
+      renderDmInto(dmPlaceholder, data.result ?? 'The DM is thinking...', data.thinking || '');
 
       // Update character panel with latest state
       if (data.state && data.state.players) {
         console.log('🔄 Calling updateCharacterPanel from sendAction...');
         console.log('🎮 Action response state:', data.state);
-        updateCharacterPanel(data.state.players, data.state.combat);
+        latestState = { players: data.state.players, combat: data.state.combat };
+        updateCharacterPanel(latestState.players, latestState.combat);
       } else {
         console.warn('⚠️ No state data in action response');
       }
-
-      // Update the message count to account for the actual DM response
-      // (player action + DM response = +2 to the server's message count)
-      lastMessageCount = (lastMessageCount - 2) + 2; // Reset and add both messages
     }
   } catch (e) {
     if (IS_LOCAL_HOST) {
@@ -575,11 +1086,16 @@ async function sendAction() {
     label.textContent = 'DM: ';
     dmPlaceholder.appendChild(label);
     dmPlaceholder.appendChild(document.createTextNode(`Error processing action. ${message}`));
+    if (e.status === 409) {
+      // Rejected out-of-turn actions never reached the transcript.
+      playerEntry.remove();
+    }
     if (message.toLowerCase().includes('player not joined')) {
       addMsg('DM', 'Session reset detected. Please rejoin to continue.');
       showJoinPrompt();
     }
   } finally {
+    pendingAction = null;
     // Re-enable UI
     actionEl.disabled = false;
     document.getElementById('send').disabled = false;
@@ -590,6 +1106,48 @@ async function sendAction() {
   }
 }
 
+// Condition badges, e.g. "poisoned (2)" with the save in the tooltip.
+function renderConditions(conditions) {
+  if (!conditions || conditions.length === 0) return '';
+  return `<div class="conditions">${conditions.map(condition => {
+    const title = condition.save ? `${condition.save.ability.toUpperCase()} save DC ${condition.save.dc}` : '';
+    const rounds = condition.roundsRemaining !== undefined ? ` (${condition.roundsRemaining})` : '';
+    return `<span class="condition" title="${title}">${condition.name}${rounds}</span>`;
+  }).join('')}</div>`;
+}
+
+// "2 × health potion", with equipped gear highlighted and its stats in the tooltip.
+function renderItem(item) {
+  if (typeof item === 'string') return item;
+  const props = item.properties || {};
+  const details = [props.damage && `${props.damage} ${props.damageType || ''}`.trim(), props.ac !== undefined && `AC ${props.ac}`, props.heal && `heals ${props.heal}`, props.notes, `${item.weight} lb`]
+    .filter(Boolean).join('; ');
+  const name = item.quantity > 1 ? `${item.quantity} × ${item.name}` : item.name;
+  return `<span class="item${item.equipped ? ' equipped' : ''}" title="${details}">${name}</span>`;
+}
+
+function formatPurse(purse) {
+  const coins = ['gp', 'sp', 'cp'].filter(coin => purse && purse[coin]).map(coin => `${purse[coin]} ${coin}`);
+  return coins.length > 0 ? coins.join(', ') : '0 gp';
+}
+
+// HP (and AC when the bestiary knows the monster) under an enemy's initiative entry.
+function renderEnemyStats(enemy) {
+  const hp = enemy.maxHp ? `${Math.max(0, enemy.hp)}/${enemy.maxHp}` : Math.max(0, enemy.hp);
+  const title = enemy.stats ? `CR ${enemy.stats.cr}, ${enemy.stats.xp} XP` : '';
+  return `<div class="enemy-stats" title="${title}">❤️ ${hp}${enemy.stats ? ` · 🛡️ ${enemy.stats.ac}` : ''}</div>${renderConditions(enemy.conditions)}`;
+}
+
+// Dead, stable or dying with death save pips; nothing for characters above 0 HP.
+function renderVitals(player) {
+  if (player.dead) return '<div class="vitals dead">💀 Dead</div>';
+  if (player.hp > 0) return '';
+  const saves = player.deathSaves || { successes: 0, failures: 0, stable: false };
+  if (saves.stable) return '<div class="vitals stable">😴 Unconscious (stable)</div>';
+  const pips = (count, mark) => [0, 1, 2].map(i => `<span class="pip ${i < count ? 'filled' : ''}">${mark}</span>`).join('');
+  return `<div class="vitals dying">🩸 Dying ${pips(saves.successes, '✓')} ${pips(saves.failures, '✗')}</div>`;
+}
+
 // Character panel management
 function updateCharacterPanel(players, combat) {
   console.log('🔄 updateCharacterPanel called with:', { players, combat });
@@ -618,8 +1176,9 @@ function updateCharacterPanel(players, combat) {
   if (players && players.length > 0) {
     const htmlContent = players.map(player => {
       const isCurrentPlayer = player.id === currentPlayerId;
-      // Allow for dynamic max HP, but default to 20
-      const maxHp = player.maxHp || 20;
+      // Character sheets carry the real max HP; legacy players default to 20
+      const sheet = player.character;
+      const maxHp = (sheet && sheet.maxHp) || player.maxHp || 20;
       const hpPercentage = Math.max(0, Math.min(100, (player.hp / maxHp) * 100));
       const playerIcon = isCurrentPlayer ? '👤' : '🧙‍♂️';
       const hpColor = hpPercentage > 60 ? '#44ff44' : hpPercentage > 30 ? '#ffaa44' : '#ff4444';
@@ -631,7 +1190,18 @@ function updateCharacterPanel(players, combat) {
           <div class="character-name">
             ${playerIcon} ${player.name}${isCurrentPlayer ? ' (You)' : ''}
           </div>
+          ${sheet ? `<div class="character-class" title="${(sheet.features || []).join(', ')}">${sheet.race} ${sheet.className} ${sheet.level}</div>` : ''}
           <div class="character-stats">
+            ${sheet ? `<div class="stat-row">
+              <span class="stat-label">🛡️ AC:</span>
+              <span class="stat-value">${sheet.ac}</span>
+            </div>
+            <div class="ability-scores">${['str', 'dex', 'con', 'int', 'wis', 'cha'].map(ability =>
+              `<span class="ability-score" title="${sheet.abilities[ability]}">${ability.toUpperCase()} ${sheet.modifiers[ability] >= 0 ? '+' : ''}${sheet.modifiers[ability]}</span>`).join('')}</div>` : ''}
+            <div class="stat-row">
+              <span class="stat-label">⭐ XP:</span>
+              <span class="stat-value">${player.xp || 0}</span>
+            </div>
             <div class="stat-row">
               <span class="stat-label">❤️ Health:</span>
               <span class="stat-value" style="color: ${hpColor}">${player.hp}/${maxHp}</span>
@@ -641,9 +1211,12 @@ function updateCharacterPanel(players, combat) {
                 <div class="hp-fill" style="width: ${hpPercentage}%; background: linear-gradient(90deg, ${hpColor}, ${hpColor})"></div>
               </div>
             </div>
+            ${renderVitals(player)}
+            ${renderConditions(player.conditions)}
             <div class="inventory">
               <div class="inventory-title">🎒 Inventory ${player.inventory && player.inventory.length > 0 ? `(${player.inventory.length})` : ''}:</div>
-              <div class="inventory-items">${player.inventory && player.inventory.length > 0 ? player.inventory.join(', ') : 'Empty'}</div>
+              <div class="inventory-items">${player.inventory && player.inventory.length > 0 ? player.inventory.map(renderItem).join(', ') : 'Empty'}</div>
+              <div class="inventory-purse">💰 ${formatPurse(player.purse)}</div>
             </div>
           </div>
         </div>
@@ -661,10 +1234,19 @@ function updateCharacterPanel(players, combat) {
   if (combat) {
     console.log('⚔️ Combat data:', combat);
     if (combat.active && combat.enemies && combat.enemies.length > 0) {
+      const order = (combat.initiative || []).map((entry, index) => {
+        const enemy = entry.kind === 'enemy' ? combat.enemies.find(e => e.id === entry.id) : null;
+        return `
+          <li class="initiative-entry ${index === combat.currentTurnIndex ? 'current-turn' : ''}">
+            <span>${entry.kind === 'enemy' ? '👹' : '🛡️'} ${entry.name}${enemy ? renderEnemyStats(enemy) : ''}</span>
+            <span class="initiative-total">${entry.total}</span>
+          </li>`;
+      }).join('');
       combatInfo.innerHTML = `
         <div class="combat-status combat-active">
-          ⚔️ Combat is Active!
+          ⚔️ Combat is Active! ${combat.round ? `Round ${combat.round}` : ''}
         </div>
+        ${order ? `<ol class="initiative-order">${order}</ol>` : ''}
       `;
     } else if (combat.active) {
       // Combat is active but no enemies (maybe they were all defeated)
@@ -760,7 +1342,8 @@ async function forceUpdateCharacterPanel() {
 
   console.log('🔄 Force updating character panel...');
   try {
-    const res = await fetch(`/api/session/state?sessionId=${encodeURIComponent(currentSessionId)}`);
+    const reader = readerCredentials(currentSessionId);
+    const res = await fetch(`/api/session/state?sessionId=${encodeURIComponent(currentSessionId)}${reader.query}`, { headers: reader.headers });
     if (res.ok) {
       const data = await res.json();
       console.log('📊 Force update data:', data);
@@ -788,13 +1371,13 @@ function testCombat() {
     turnOrder: ['Test Player', 'Goblin', 'Orc'],
     currentTurnIndex: 1,
     enemies: [
-      { name: 'Goblin', hp: 7 },
-      { name: 'Orc', hp: 15 }
+      { id: 'Goblin', name: 'Goblin', hp: 7 },
+      { id: 'Orc', name: 'Orc', hp: 15 }
     ]
   };
 
   const testPlayers = [
-    { id: 'test1', name: 'Test Player', hp: 18, maxHp: 20, inventory: ['sword', 'potion'] }
+    { id: 'test1', name: 'Test Player', hp: 18, maxHp: 20, inventory: [{ name: 'sword', quantity: 1, type: 'weapon', weight: 3, equipped: true }, { name: 'potion', quantity: 2, type: 'potion', weight: 0.5 }], purse: { gp: 10, sp: 0, cp: 0 } }
   ];
 
   console.log('🧪 Calling updateCharacterPanel with test data...');
@@ -858,15 +1441,28 @@ function testCharacterPanel() {
   // Force update with fake data for testing
   console.log('🧪 Testing with fake data...');
   updateCharacterPanel([
-    { id: 'test1', name: 'Test Player', hp: 15, maxHp: 20, inventory: ['sword', 'potion'] }
+    { id: 'test1', name: 'Test Player', hp: 15, maxHp: 20, inventory: [{ name: 'sword', quantity: 1, type: 'weapon', weight: 3, equipped: true }, { name: 'potion', quantity: 2, type: 'potion', weight: 0.5 }], purse: { gp: 10, sp: 0, cp: 0 } }
   ], { active: false, enemies: [] });
 
   return true;
 }
 
-// Initialization and event listeners
+function inviteLink(sessionId, inviteCode) {
+  const params = new URLSearchParams({ session: sessionId });
+  if (inviteCode) params.set('invite', inviteCode);
+  const origin = localStorage.getItem(importKey(sessionId));
+  if (origin) params.set('from', origin);
+  return `${location.origin}${location.pathname}?${params}`;
+}
+
+// Initialization and event listeners. Links like ?session=...&invite=... open straight onto that session;
+// restored private sessions add &from=... so their players can claim their seats.
 (async () => {
   await loadSessions();
+  const linked = new URLSearchParams(location.search);
+  if (linked.get('session')) selectSession(linked.get('session'));
+  if (linked.get('invite')) inviteCodeEl.value = linked.get('invite');
+  if (linked.get('session') && linked.get('from')) saveImportedFrom(linked.get('session'), linked.get('from'));
   loadPlayers();
 })();
 
@@ -876,7 +1472,17 @@ sessionIdEl.addEventListener('change', () => {
   showJoinPrompt();
   const sessionId = sessionIdEl.value;
   currentSessionEl.textContent = sessionId === 'create-new' ? '' : `Session: ${sessionId}`;
-  lastMessageCount = 0;
+  lastSeq = 0;
+});
+
+importFileEl.addEventListener('change', async () => {
+  const [file] = importFileEl.files;
+  importFileEl.value = '';
+  if (file) await importCampaign(file);
+});
+
+log.addEventListener('scroll', () => {
+  if (log.scrollTop < 40) loadOlderMessages();
 });
 
 clearSessionsBtn.addEventListener('click', () => {
@@ -890,6 +1496,8 @@ playerSelectEl.addEventListener('change', () => {
     currentPlayerId = '';
     currentPlayerName = '';
     nameEl.disabled = false;
+    raceEl.disabled = false;
+    classNameEl.disabled = false;
   } else {
     // Find the player name
     const option = playerSelectEl.querySelector(`option[value="${selected}"]`);
@@ -898,6 +1506,9 @@ playerSelectEl.addEventListener('change', () => {
     currentPlayerId = selected;
     currentPlayerName = selectedName;
     nameEl.disabled = true;
+    // Returning players keep the sheet they were created with.
+    raceEl.disabled = true;
+    classNameEl.disabled = true;
   }
 });
 
@@ -913,7 +1524,7 @@ actionEl.addEventListener('keydown', function (event) {
 // Character panel toggle
 document.getElementById('toggleCharPanel').addEventListener('click', toggleCharacterPanel);
 
-// Cleanup polling when page is unloaded
+// Close the live connection when page is unloaded
 window.addEventListener('beforeunload', () => {
-  stopPolling();
+  disconnectSocket();
 });
\ No newline at end of file
@@ -0,0 +1,2 @@
+// Miniflare exposes this global, which lets modules enable verbose logging during `wrangler dev` only.
+export const IS_LOCAL_DEV = typeof (globalThis as any).MINIFLARE !== "undefined";
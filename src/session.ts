@@ -1,62 +1,306 @@
 import { Env } from "./index";
-import { ActionPayload, JoinPayload } from "./api-types";
-import { isActionPayload, isJoinPayload } from "./api-validation";
+import { Bestiary, describeStatBlock, loadBestiary, StatBlock } from "./bestiary";
+import {
+  ActionPayload,
+  ActionResult,
+  ActionStreamEvent,
+  DiscardedVariant,
+  HistoryPage,
+  ImportPayload,
+  InventoryPayload,
+  JoinPayload,
+  LlmChoice,
+  ModerationPayload,
+  PendingActionResult,
+  ReviewDraft,
+  ReviewPayload,
+  RewindPayload,
+  RollPayload,
+  SessionEvent,
+  SessionListing,
+  SessionSettings,
+  TurnPayload,
+} from "./api-types";
+import {
+  isActionPayload,
+  isImportPayload,
+  isInventoryPayload,
+  isJoinPayload,
+  isModerationPayload,
+  isReviewPayload,
+  isRewindPayload,
+  isRollPayload,
+  isTurnPayload,
+  parseHistoryQuery,
+  parseSessionListQuery,
+} from "./api-validation";
+import { ARCHIVE_FORMAT, ARCHIVE_VERSION, archiveFilename, archiveToMarkdown, CampaignArchive, restorePlayer } from "./archive";
+import { bearerToken, signPlayerToken, verifyPlayerToken } from "./auth";
+import { CharacterSheet, createCharacter, defaultCharacter, describeCharacter, maxHpOf } from "./character";
+import {
+  actingPlayer,
+  addCombatant,
+  advanceTurn,
+  beginCombat,
+  CanActCheck,
+  classifyCombatAction,
+  CombatActionKind,
+  completeTurn,
+  currentCombatant,
+  defaultCombatState,
+  delayTurn,
+  describeInitiative,
+  enemiesBefore,
+  enemyCombatant,
+  InitiativeEntry,
+  playerCombatant,
+  ReadiedAction,
+  readyAction,
+  removeCombatant,
+  resetCombat,
+  TurnEndHook,
+  useReaction,
+} from "./combat";
+import { clearTimedConditions, Condition, describeConditions, tickConditions } from "./conditions";
+import { COUNT_PATTERN, enemyType, findEnemyInText, parseCount, spawnEnemies } from "./enemies";
+import {
+  addItem,
+  adjustPurse,
+  COIN_WORDS,
+  COINS,
+  createItem,
+  describeInventory,
+  emptyPurse,
+  findItem,
+  formatCoins,
+  Item,
+  MAX_COIN_CHANGE,
+  MAX_ITEM_QUANTITY,
+  Purse,
+  removeItem,
+  setEquipped,
+  starterKit,
+} from "./inventory";
+import {
+  damagePlayer,
+  DeathSaves,
+  describeVitalChange,
+  describeVitals,
+  healPlayer,
+  isDead,
+  isDown,
+  isDying,
+  rollDeathSave,
+  Vitals,
+  vitalsOf,
+} from "./dying";
+import { createRng, findNotations, formatRoll, randomSeed, Rng, RngPosition, RollResult, rollDiceTray, rollNotation, trackedRng } from "./dice";
+import { DmEffect, EffectApplier, parseEffects } from "./effects";
+import { combatAward, describeCombatAward, describeProgress, gainXp, Progress, progressOf } from "./progression";
+import { createInviteCode, createSettings, DEFAULT_MAX_PLAYERS, listSessions, matchesInviteCode } from "./lobby";
+import { CampaignMemory, describeMemory, emptyMemory, formatSegment, MAX_FACTS, parseMemoryUpdate, recentMessages, segmentLength } from "./memory";
+import { BuiltPrompt, buildPrompt, PromptSection } from "./prompt";
+import { migrateSnapshot, SNAPSHOT_VERSION } from "./migrations";
+import { ChatMessage, CompletionRequest, createProvider, LlmProvider, resolveChoice, unavailableModel } from "./llm";
+import { IS_LOCAL_DEV } from "./runtime";
+import { formatSse, NarrationChunk, NarrationSplitter } from "./streaming";
 
 // Constants
 const JSON_HEADERS = { "Content-Type": "application/json" } as const;
+// Zero-padded so message keys list in seq order.
+const MESSAGE_PREFIX = "message:";
+const messageKey = (seq: number) => `${MESSAGE_PREFIX}${String(seq).padStart(12, "0")}`;
+// One lobby listing per session, keyed by session ID.
+const LISTING_PREFIX = "listing:";
+// Unreadable snapshots and their transcripts, kept for an operator instead of crashing the coordinator.
+const QUARANTINE_PREFIX = "quarantine:";
+// Durable Object storage takes at most 128 keys per put or delete.
+const STORAGE_BATCH_SIZE = 128;
+// Messages kept in memory for the DM, state reads and socket snapshots; older ones are read on demand.
+const HOT_MESSAGE_LIMIT = 100;
+// Turns the owner can take back one after another, newest last.
+const MAX_CHECKPOINTS = 5;
+// DM answers a turn keeps after being rerolled away.
+const MAX_DISCARDED_VARIANTS = 5;
+const SSE_HEADERS = { "Content-Type": "text/event-stream", "Cache-Control": "no-cache" } as const;
 const SESSION_IDLE_TIMEOUT_MS = 1000 * 60 * 30; // 30 minutes
-const DM_MODEL = "@cf/meta/llama-3.3-70b-instruct-fp8-fast" as const;
+// Unchanged listings are still re-pushed this often so the lobby's activity times stay roughly current.
+const LISTING_REFRESH_MS = 1000 * 60;
+// WebSocket tags are capped at 256 characters; longer player IDs go untagged.
+const MAX_SOCKET_TAG_LENGTH = 256;
+// Close code for sockets of a player who was kicked or banned; clients stop reconnecting on it.
+const REMOVED_CLOSE_CODE = 4003;
+const DM_MAX_TOKENS = 1000;
 const FALLBACK_DM_TEXT = "Sorry, the AI service is unavailable. Please try again later." as const;
-const IS_LOCAL_DEV = typeof (globalThis as any).MINIFLARE !== "undefined";
 
 // Interfaces
 interface Storage {
   get<T>(key: string): Promise<T | undefined>;
   put<T>(key: string, value: T): Promise<void>;
+  put<T>(entries: Record<string, T>): Promise<void>;
+  list<T>(options: { prefix?: string; start?: string; end?: string; reverse?: boolean; limit?: number }): Promise<Map<string, T>>;
+  delete(keys: string[]): Promise<number>;
 }
 
 export interface Player {
   id: string;
   name: string;
   hp: number;
-  inventory: string[];
+  inventory: Item[];
+  // Absent on players saved before coins were tracked, which counts as an empty purse.
+  purse?: Purse;
+  // Absent only on players persisted before character sheets existed.
+  character?: CharacterSheet;
+  conditions?: Condition[];
+  // Present while the player is at 0 HP and not dead.
+  deathSaves?: DeathSaves;
+  dead?: boolean;
+  // Total experience; the level itself lives on the character sheet.
+  xp?: number;
 }
 
 export interface Message {
+  seq: number;
   actor: string;
   content: string;
   ts: number;
+  // Roll messages carry the full server-side result so the log stays verifiable.
+  type?: "roll";
+  rolls?: RollResult[];
+  // Draws taken from the session's dice sequence before this roll; replaying from there repeats it.
+  draw?: number;
+}
+
+export interface Enemy {
+  // Stable for the whole fight; initiative entries refer to enemies by it.
+  id: string;
+  // Unique label within the fight, e.g. "Goblin B"; the name the DM and players use.
+  name: string;
+  // Creature type shared by every instance, e.g. "Goblin"; absent on enemies saved before labels.
+  type?: string;
+  hp: number;
+  // Rolled from the stat block's hit dice; absent for creatures the bestiary does not know.
+  maxHp?: number;
+  stats?: StatBlock;
+  conditions?: Condition[];
 }
 
 export interface CombatState {
   active: boolean;
+  // Names in initiative order, kept in sync with `initiative`.
   turnOrder: string[];
   currentTurnIndex: number;
-  enemies: { name: string; hp: number }[];
+  enemies: Enemy[];
+  round: number;
+  initiative: InitiativeEntry[];
+  readied: ReadiedAction[];
+  // IDs that spent their reaction since their last turn started.
+  reactionsUsed: string[];
 }
 
+/**
+ * Hot session state, rewritten on every mutation. Messages are stored separately, one record each.
+ * Snapshots saved by older code are upgraded on load; see `src/migrations.ts`.
+ */
 export interface SessionSnapshot {
+  schemaVersion: number;
   players: [string, Player][];
-  messages: Message[];
   combat: CombatState;
   lastActivity: number;
   sessionId?: string;
+  nextSeq: number;
+  memory: CampaignMemory;
+  ownerId: string | null;
+  banned: string[];
+  // Null until the first player joins and picks them.
+  settings: SessionSettings | null;
+  createdAt: number;
+  inviteCode: string | null;
+  // Review mode only: narration waiting for the DM.
+  drafts: PendingDraft[];
+  // Sessions restored from an archive: the session it was exported from.
+  importedFrom: string | null;
+  checkpoints: TurnCheckpoint[];
+  // Every server roll comes from this seeded sequence, so rolls can be replayed and audited.
+  dice: RngPosition;
 }
 
 interface SessionContext {
   players: Player[];
   messages: Message[];
   combat: CombatState;
+  memory?: CampaignMemory;
+  rolls?: TurnRolls;
+  turn?: TurnContext;
+}
+
+interface TurnContext {
+  kind: Exclude<CombatActionKind, "speech">;
+  // Enemies whose turns the DM resolves before the player's action.
+  enemiesFirst: string[];
+  // Trigger of the readied action a reaction is firing, if any.
+  readied?: string;
+}
+
+interface TurnRolls {
+  // Rolls the acting player declared inline, e.g. "I attack 1d20+5".
+  declared: RollResult[];
+  // Pre-rolled dice the DM must consume instead of inventing numbers.
+  tray: RollResult[];
+}
+
+/**
+ * A review-mode draft plus what the coordinator needs to regenerate or apply it.
+ */
+interface PendingDraft extends ReviewDraft {
+  // Seq of the player's action message; a regenerated draft only sees the transcript before it.
+  seq: number;
+  dmAction: string;
+  turn?: TurnContext;
+  readied?: ReadiedAction;
+  // Kept so a regenerated draft narrates the same dice.
+  rolls: TurnRolls;
+}
+
+/**
+ * The game just before a DM answer was applied, so the owner can take the turn back or have it
+ * answered again. Only valid while the turn is the last thing in the transcript.
+ */
+interface TurnCheckpoint {
+  playerId: string;
+  playerName: string;
+  dmAction: string;
+  turn?: TurnContext;
+  readied?: ReadiedAction;
+  // A reroll narrates the same dice.
+  rolls: TurnRolls;
+  // Seq of the player's action message; undo removes it and everything after it.
+  actionSeq: number;
+  // Seq of the DM's answer; a reroll removes it and everything after it.
+  responseSeq: number;
+  // The next seq once the turn was applied. Anything written since means the turn is no longer the last.
+  endSeq: number;
+  players: [string, Player][];
+  combat: CombatState;
+  narration: NarrationResult;
+  // Answers rerolled away, oldest first.
+  variants: DiscardedVariant[];
 }
 
 interface DungeonMasterOptions {
   maxAttempts?: number;
   backoffMs?: number;
+  bestiary?: Bestiary;
+  // Model context window in tokens; the prompt is trimmed to fit it next to the response. Defaults to
+  // what the provider reports.
+  contextWindow?: number;
+  // Asked, with its own retries, once the primary provider has used up its attempts.
+  fallback?: LlmProvider;
 }
 
 interface CombatDetectionResult {
   combatDetected: boolean;
-  enemies: { name: string; hp: number }[];
+  enemies: Enemy[];
   triggers: string[];
 }
 
@@ -64,41 +308,130 @@ interface NarrationResult {
   text: string;
   thinking: string;
   degraded: boolean;
+  // Structured outcomes from the <effects> block; null when missing or invalid.
+  effects: DmEffect[] | null;
 }
 
-// Utility functions
-/**
- * Provide a pristine combat template so resets never mutate shared references.
- */
-const defaultCombatState = (): CombatState => ({
-  active: false,
-  turnOrder: [],
-  currentTurnIndex: 0,
-  enemies: [],
-});
-
 /**
  * Thin wrapper over Durable Object storage that hides serialization details.
  */
 export class StorageManager {
   constructor(private readonly storage: Storage) {}
 
+  /**
+   * Session IDs from registries saved before listings; empty once migrated.
+   */
   async loadSessions(): Promise<Set<string>> {
     const stored = await this.storage.get<string[]>("sessions");
     return stored ? new Set(stored) : new Set();
   }
 
-  async saveSessions(sessions: Set<string>): Promise<void> {
-    await this.storage.put("sessions", Array.from(sessions));
+  async clearSessions(): Promise<void> {
+    await this.storage.delete(["sessions"]);
+  }
+
+  async loadListings(): Promise<SessionListing[]> {
+    return Array.from((await this.storage.list<SessionListing>({ prefix: LISTING_PREFIX })).values());
+  }
+
+  async saveListings(listings: SessionListing[]): Promise<void> {
+    for (let i = 0; i < listings.length; i += STORAGE_BATCH_SIZE) {
+      const batch = listings.slice(i, i + STORAGE_BATCH_SIZE);
+      await this.storage.put(Object.fromEntries(batch.map(listing => [`${LISTING_PREFIX}${listing.sessionId}`, listing])));
+    }
+  }
+
+  async deleteListing(sessionId: string): Promise<void> {
+    await this.storage.delete([`${LISTING_PREFIX}${sessionId}`]);
+  }
+
+  async clearListings(): Promise<void> {
+    await this.clearPrefix(LISTING_PREFIX);
   }
 
+  /**
+   * The stored snapshot, upgraded to the current schema. Upgraded snapshots are saved back, with any
+   * legacy transcript blob moved into message records. Snapshots that cannot be read are quarantined
+   * and the session starts empty instead of failing every request.
+   */
   async loadSession(): Promise<SessionSnapshot | undefined> {
-    return await this.storage.get<SessionSnapshot>("session");
+    const stored = await this.storage.get<unknown>("session");
+    if (stored === undefined) return undefined;
+    const result = migrateSnapshot(stored);
+    if (!result.ok) {
+      await this.quarantine(stored, result.error);
+      return undefined;
+    }
+    if (result.messages.length > 0) await this.saveMessages(result.messages);
+    if (result.migrated) await this.saveSession(result.snapshot);
+    return result.snapshot;
   }
 
   async saveSession(data: SessionSnapshot): Promise<void> {
     await this.storage.put("session", data);
   }
+
+  /**
+   * Append messages as individual records; each is written once and never rewritten.
+   */
+  async saveMessages(messages: Message[]): Promise<void> {
+    for (let i = 0; i < messages.length; i += STORAGE_BATCH_SIZE) {
+      const batch = messages.slice(i, i + STORAGE_BATCH_SIZE);
+      await this.storage.put(Object.fromEntries(batch.map(message => [messageKey(message.seq), message])));
+    }
+  }
+
+  /**
+   * Up to `limit` messages in seq order: the newest before `before`, or the oldest after `after`.
+   */
+  async loadMessages(range: { before?: number; after?: number; limit: number }): Promise<Message[]> {
+    if (range.after !== undefined) {
+      const page = await this.storage.list<Message>({ prefix: MESSAGE_PREFIX, start: messageKey(range.after + 1), limit: range.limit });
+      return Array.from(page.values());
+    }
+    const page = await this.storage.list<Message>({
+      prefix: MESSAGE_PREFIX,
+      end: range.before !== undefined ? messageKey(range.before) : undefined,
+      reverse: true,
+      limit: range.limit,
+    });
+    return Array.from(page.values()).reverse();
+  }
+
+  /**
+   * Delete message records from seq `from` on; all of them by default.
+   */
+  async clearMessages(from = 0): Promise<void> {
+    for (;;) {
+      const page = await this.storage.list({ prefix: MESSAGE_PREFIX, start: messageKey(from), limit: STORAGE_BATCH_SIZE });
+      if (page.size === 0) return;
+      await this.storage.delete(Array.from(page.keys()));
+    }
+  }
+
+  /**
+   * Move the snapshot and its transcript under `quarantine:<timestamp>:` for an operator to inspect.
+   */
+  private async quarantine(snapshot: unknown, error: string): Promise<void> {
+    const prefix = `${QUARANTINE_PREFIX}${Date.now()}:`;
+    console.error(`Quarantining unreadable session snapshot under ${prefix}`, error);
+    await this.storage.put(`${prefix}session`, { error, snapshot });
+    for (;;) {
+      const records = await this.storage.list({ prefix: MESSAGE_PREFIX, limit: STORAGE_BATCH_SIZE });
+      if (records.size === 0) break;
+      await this.storage.put(Object.fromEntries(Array.from(records, ([key, value]) => [`${prefix}${key}`, value])));
+      await this.storage.delete(Array.from(records.keys()));
+    }
+    await this.storage.delete(["session"]);
+  }
+
+  private async clearPrefix(prefix: string): Promise<void> {
+    for (;;) {
+      const keys = Array.from((await this.storage.list({ prefix, limit: STORAGE_BATCH_SIZE })).keys());
+      if (keys.length === 0) return;
+      await this.storage.delete(keys);
+    }
+  }
 }
 
 /**
@@ -107,22 +440,23 @@ export class StorageManager {
 class RegistryClient {
   constructor(private readonly namespace: DurableObjectNamespace) {}
 
-  async add(sessionId: string): Promise<void> {
-    await this.safeCall("add", sessionId);
+  // Adds the session on first sight, otherwise replaces its listing.
+  async update(listing: SessionListing): Promise<void> {
+    await this.safeCall("update", listing);
   }
 
   async remove(sessionId: string): Promise<void> {
-    await this.safeCall("remove", sessionId);
+    await this.safeCall("remove", { sessionId });
   }
 
-  private async safeCall(path: string, sessionId: string): Promise<void> {
+  private async safeCall(path: string, body: unknown): Promise<void> {
     try {
       const id = this.namespace.idFromName("global");
       const stub = this.namespace.get(id);
       await stub.fetch(`http://internal/${path}`, {
         method: "POST",
         headers: JSON_HEADERS,
-        body: JSON.stringify({ sessionId }),
+        body: JSON.stringify(body),
       });
     } catch (error) {
       console.error(`Registry ${path} failed`, error);
@@ -131,84 +465,275 @@ class RegistryClient {
 }
 
 /**
- * Encapsulates the AI Dungeon Master calls, including retries and prompt curation.
+ * Encapsulates the AI Dungeon Master calls, including retries, fallback and prompt curation.
  */
 export class DungeonMasterService {
   private readonly maxAttempts: number;
   private readonly backoffMs: number;
+  private readonly bestiary: Bestiary;
+  private readonly contextWindow?: number;
+  private readonly providers: LlmProvider[];
 
-  constructor(private readonly ai: Ai, options: DungeonMasterOptions = {}) {
+  constructor(provider: LlmProvider, options: DungeonMasterOptions = {}) {
     this.maxAttempts = Math.max(1, options.maxAttempts ?? 2);
     this.backoffMs = Math.max(0, options.backoffMs ?? 250);
+    this.bestiary = options.bestiary ?? loadBestiary().bestiary;
+    this.contextWindow = options.contextWindow;
+    this.providers = options.fallback ? [provider, options.fallback] : [provider];
   }
 
   async narrate(context: SessionContext, player: Player, playerAction: string): Promise<NarrationResult> {
-    // Retry transient failures a limited number of times before falling back.
-    for (let attempt = 0; attempt < this.maxAttempts; attempt++) {
-      const attemptNumber = attempt + 1;
-      this.logAiAttempt("request", attemptNumber, {
-        model: DM_MODEL,
-        playerId: player.id,
-        playerName: player.name,
-        actionPreview: playerAction.slice(0, 160),
-        playerCount: context.players.length,
-        messageCount: context.messages.length,
-        enemyCount: context.combat.enemies.length,
+    return this.complete(context, player, playerAction, async (provider, request) => {
+      return (await provider.complete(request)) || "The DM is silent.";
+    });
+  }
+
+  /**
+   * Like narrate, but streams from the model and hands narration and thinking to `onChunk` as it is
+   * written; the <effects> block is never streamed. The result is the same as narrate's. A provider
+   * that cannot stream hands over its whole answer at once. A stream that breaks after text went out
+   * is not retried, nor handed to the fallback (the client would see it twice): the turn degrades instead.
+   */
+  async narrateStream(
+    context: SessionContext,
+    player: Player,
+    playerAction: string,
+    onChunk: (chunk: NarrationChunk) => void,
+  ): Promise<NarrationResult> {
+    let streamed = false;
+    return this.complete(context, player, playerAction, async (provider, request) => {
+      const splitter = new NarrationSplitter(chunk => {
+        streamed = true;
+        onChunk(chunk);
       });
+      const deltas = provider.capabilities.streaming && provider.stream ? provider.stream(request) : [await provider.complete(request)];
+      let raw = "";
+      for await (const delta of deltas) {
+        raw += delta;
+        splitter.push(delta);
+      }
+      splitter.end();
+      return raw || "The DM is silent.";
+    }, () => !streamed);
+  }
+
+  private async complete(
+    context: SessionContext,
+    player: Player,
+    playerAction: string,
+    request: (provider: LlmProvider, completion: CompletionRequest) => Promise<string>,
+    canRetry: () => boolean = () => true,
+  ): Promise<NarrationResult> {
+    for (const [index, provider] of this.providers.entries()) {
+      if (index > 0) {
+        if (!canRetry()) break;
+        console.warn(`Falling back to ${provider.name} model ${provider.model}`);
+      }
+      const { messages, prompt } = this.buildMessages(context, player, playerAction, provider);
+      // Retry transient failures a limited number of times before falling back.
+      for (let attempt = 0; attempt < this.maxAttempts; attempt++) {
+        const attemptNumber = attempt + 1;
+        this.logAiAttempt("request", attemptNumber, {
+          provider: provider.name,
+          model: provider.model,
+          playerId: player.id,
+          playerName: player.name,
+          actionPreview: playerAction.slice(0, 160),
+          playerCount: context.players.length,
+          messageCount: context.messages.length,
+          enemyCount: context.combat.enemies.length,
+          promptTokens: prompt.tokens,
+          promptBudget: prompt.budget,
+          trimmed: prompt.trimmed,
+        });
+
+        const startedAt = Date.now();
+        try {
+          const response = await request(provider, { messages, maxTokens: DM_MAX_TOKENS });
+          this.logAiAttempt("response", attemptNumber, {
+            durationMs: Date.now() - startedAt,
+            textPreview: response.slice(0, 200),
+          });
+          const { text: narration, effects } = this.extractEffects(response);
+          const { text, thinking } = this.extractThinking(narration);
+          return { text, thinking, degraded: false, effects };
+        } catch (error) {
+          const retryable = canRetry() && this.isRetryableError(error);
+          const attemptLabel = `${attempt + 1}/${this.maxAttempts}`;
+          console.warn(`AI call failed (attempt ${attemptLabel})`, error);
+          this.logAiAttempt("error", attemptNumber, {
+            retryable,
+            error: error instanceof Error
+              ? { name: error.name, message: error.message }
+              : { message: String(error) },
+          });
+          if (!retryable || attempt === this.maxAttempts - 1) {
+            console.error("AI call failed", error);
+            break;
+          }
+          await this.backoff(attempt);
+        }
+      }
+    }
 
+    return { text: FALLBACK_DM_TEXT, thinking: "", degraded: true, effects: null };
+  }
+
+  /**
+   * Fold a transcript segment into the campaign memory. One attempt only: on failure the memory is
+   * unchanged and the same segment comes up again after the next action.
+   */
+  async summarizeSegment(memory: CampaignMemory, segment: Message[]): Promise<CampaignMemory | null> {
+    const prompt = [
+      "You keep the campaign memory for a Dungeons & Dragons game.",
+      "Merge the new transcript into the story so far and reply with only a JSON object:",
+      '{"summary": string, "facts": string[]}.',
+      "The summary retells the whole campaign in past tense, at most 250 words, favouring plot, places and open threads over blow-by-blow combat.",
+      `Facts are at most ${MAX_FACTS} short standalone lines worth remembering for hundreds of turns: NPC names and roles, promises, debts, quests, secrets, where things were left.`,
+      "Keep still-relevant earlier facts, update ones that changed and drop ones that are resolved.",
+    ].join(" ");
+    const facts = memory.facts.map(fact => `- ${fact}`).join("\n");
+    const request: CompletionRequest = {
+      messages: [
+        { role: "system", content: prompt },
+        {
+          role: "user",
+          content: `Story so far:\n${memory.summary || "(nothing yet)"}\nKey facts:\n${facts || "(none)"}\nNew transcript:\n${formatSegment(segment)}`,
+        },
+      ],
+      maxTokens: 800,
+    };
+    // One attempt per provider: a fallback model only gets asked if the primary fails outright.
+    for (const provider of this.providers) {
       const startedAt = Date.now();
       try {
-        const ai = await this.ai.run(DM_MODEL as any, {
-          messages: [
-            { role: "system", content: this.systemPrompt() },
-            { role: "assistant", content: this.summarize(context) },
-            { role: "user", content: `${player.name} (${player.id}) acts: ${playerAction}` },
-          ],
-          max_tokens: 1000,
-        });
-        this.logAiAttempt("response", attemptNumber, {
-          durationMs: Date.now() - startedAt,
-          textPreview: (ai.response ?? "").slice(0, 200),
-        });
-        const { text, thinking } = this.extractThinking(ai.response ?? "The DM is silent.");
-        return { text, thinking, degraded: false };
-      } catch (error) {
-        const retryable = this.isRetryableError(error);
-        const attemptLabel = `${attempt + 1}/${this.maxAttempts}`;
-        console.warn(`AI call failed (attempt ${attemptLabel})`, error);
-        this.logAiAttempt("error", attemptNumber, {
-          retryable,
-          error: error instanceof Error
-            ? { name: error.name, message: error.message }
-            : { message: String(error) },
-        });
-        if (!retryable || attempt === this.maxAttempts - 1) {
-          console.error("AI call failed", error);
-          break;
+        const updated = parseMemoryUpdate(await provider.complete(request), segment);
+        if (IS_LOCAL_DEV) {
+          console.debug("[AI memory]", {
+            model: provider.model,
+            durationMs: Date.now() - startedAt,
+            folded: segment.length,
+            through: segment[segment.length - 1].seq,
+            accepted: updated !== null,
+          });
         }
-        await this.backoff(attempt);
+        return updated;
+      } catch (error) {
+        console.warn("Memory summary failed", error);
       }
     }
+    return null;
+  }
 
-    return { text: FALLBACK_DM_TEXT, thinking: "", degraded: true };
+  /**
+   * The system, primer and action messages for a turn, fitted into the context window next to the
+   * response. Older transcript goes first, then the memory, inventories, sheets and stat blocks; the
+   * rules, roster and this turn's dice are never trimmed.
+   */
+  private buildMessages(
+    context: SessionContext,
+    player: Player,
+    playerAction: string,
+    provider: LlmProvider,
+  ): { messages: ChatMessage[]; prompt: BuiltPrompt } {
+    const prompt = buildPrompt([
+      { name: "rules", entries: [this.systemPrompt()], priority: 100, trim: "none" },
+      ...this.summarize(context, playerAction),
+      // Only an absurdly long action is cut, and only after everything else.
+      { name: "action", entries: [`${player.name} (${player.id}) acts: ${playerAction}`], priority: 90, trim: "end" },
+    ], (this.contextWindow ?? provider.capabilities.contextWindow) - DM_MAX_TOKENS);
+    const section = (name: string, empty = "None") => {
+      const kept = prompt.sections.get(name);
+      if (kept) return kept;
+      return prompt.trimmed.some(trim => trim.section === name && trim.removed) ? "(trimmed for length)" : empty;
+    };
+    const memory = section("memory", "");
+    const statBlocks = section("statBlocks", "");
+
+    const primer = `${memory ? `${memory.trimEnd()}\n` : ""}Recent:\n${section("recent", "")}\nPlayers: ${section("roster")}\nCharacter sheets:\n${section("sheets")}\nInventories (items | purse | load/capacity):\n${section("inventories")}\n${section("combat")}${statBlocks ? `\nStat blocks:\n${statBlocks}` : ""}${section("turn", "")}`;
+    return {
+      messages: [
+        { role: "system", content: section("rules") },
+        { role: "assistant", content: primer },
+        { role: "user", content: section("action") },
+      ],
+      prompt,
+    };
   }
 
-  private summarize(context: SessionContext): string {
-    // Collapse recent state into a compact primer for the AI model.
-    const recent = context.messages.map(m => `${m.actor === "DM" ? "DM" : m.actor}: ${m.content}`).join("\n");
-    const roster = context.players.map(p => `${p.name}(HP:${p.hp})`).join(", ");
+  /**
+   * Collapse recent state into a compact primer for the AI model, one section per kind of detail.
+   */
+  private summarize(context: SessionContext, playerAction = ""): PromptSection[] {
+    const recent = context.messages.map(m => `${m.actor === "DM" ? "DM" : m.actor}: ${m.content}`);
+    const roster = context.players.map(p => `${p.name}(HP:${p.hp}/${maxHpOf(p)}${this.summarizeConditions(p)})`).join(", ");
+    const sheets = context.players.map(describeCharacter);
+    const inventories = context.players.map(p => `${p.name}: ${describeInventory(p)}`);
     const aliveEnemies = context.combat.enemies.filter(e => e.hp > 0);
     const deadEnemies = context.combat.enemies.filter(e => e.hp <= 0);
-    const enemies = aliveEnemies.map(e => `${e.name}(HP:${e.hp})`).join(", ");
+    const enemies = aliveEnemies.map(e => `${e.name}(HP:${e.hp}${e.maxHp ? `/${e.maxHp}` : ""}${this.summarizeConditions(e)})`).join(", ");
     const defeated = deadEnemies.length > 0 ? ` | Defeated: ${deadEnemies.map(e => e.name).join(", ")}` : "";
     
     let combatStatus = `Combat active: ${context.combat.active}`;
     if (context.combat.active && context.combat.turnOrder.length > 0) {
       const currentActor = context.combat.turnOrder[context.combat.currentTurnIndex] || "Unknown";
-      combatStatus += ` | Current turn: ${currentActor}`;
+      const order = context.combat.initiative.length > 0
+        ? context.combat.initiative.map(entry => `${entry.name} ${entry.total}`).join(", ")
+        : context.combat.turnOrder.join(", ");
+      combatStatus += ` | Round ${context.combat.round} | Initiative: ${order} | Current turn: ${currentActor}`;
+      if (context.combat.readied.length > 0) {
+        combatStatus += ` | Readied: ${context.combat.readied.map(r => `${r.name} (${r.trigger})`).join(", ")}`;
+      }
     }
     
-    return `Recent:\n${recent}\nPlayers: ${roster || "None"}\nEnemies: ${enemies || "None"}${defeated}\n${combatStatus}`;
+    const memory = context.memory ? describeMemory(context.memory) : "";
+
+    return [
+      { name: "recent", entries: recent, priority: 10, trim: "oldest" },
+      { name: "memory", entries: memory ? [memory] : [], priority: 30, trim: "end" },
+      { name: "inventories", entries: inventories, priority: 40, trim: "end" },
+      { name: "sheets", entries: sheets, priority: 50, trim: "end" },
+      { name: "statBlocks", entries: this.summarizeStatBlocks(aliveEnemies, playerAction), priority: 60, trim: "end" },
+      { name: "combat", entries: [`Enemies: ${enemies || "None"}${defeated}`, combatStatus], priority: 80, trim: "end" },
+      { name: "roster", entries: roster ? [roster] : [], priority: 100, trim: "none" },
+      { name: "turn", entries: [`${this.summarizeTurn(context.turn)}${this.summarizeRolls(context.rolls)}`], priority: 100, trim: "none" },
+    ];
+  }
+
+  /**
+   * Real stat blocks for the enemies on the field and any monster the player just named.
+   */
+  private summarizeStatBlocks(enemies: Enemy[], playerAction: string): string[] {
+    const blocks = new Set<StatBlock>();
+    for (const enemy of enemies) {
+      const stats = enemy.stats ?? this.bestiary.find(enemyType(enemy));
+      if (stats) blocks.add(stats);
+    }
+    this.bestiary.mentionedIn(playerAction).forEach(stats => blocks.add(stats));
+    return Array.from(blocks, describeStatBlock);
+  }
+
+  private summarizeConditions(creature: Player | Enemy): string {
+    const vitals = "inventory" in creature ? describeVitals(creature) : "";
+    const conditions = [vitals, describeConditions(creature)].filter(Boolean).join(", ");
+    return conditions ? `; ${conditions}` : "";
+  }
+
+  private summarizeTurn(turn?: TurnContext): string {
+    if (!turn) return "";
+    if (turn.kind === "reaction") {
+      return `\nThis is a reaction outside the player's turn${turn.readied ? `, firing their readied action (${turn.readied})` : ""}. Resolve only the reaction.`;
+    }
+    return turn.enemiesFirst.length > 0
+      ? `\nBefore this action, resolve the turns of: ${turn.enemiesFirst.join(", ")}.`
+      : "";
+  }
+
+  private summarizeRolls(rolls?: TurnRolls): string {
+    if (!rolls) return "";
+    const declared = rolls.declared.map(formatRoll).join("; ");
+    const tray = rolls.tray.map((roll, index) => `#${index + 1} ${roll.notation.replace(/^1d/, "d")}=${roll.total}`).join(", ");
+    return `${declared ? `\nPlayer rolls this turn: ${declared}` : ""}\nDice tray: ${tray}`;
   }
 
   private systemPrompt(): string {
@@ -216,15 +741,23 @@ export class DungeonMasterService {
       "You are the Dungeon Master for a Dungeons & Dragons game.",
       "Use official D&D 5e rules as guidance (Player's Handbook, Dungeon Master's Guide, Monster Manual).",
       "Narrate vividly but concisely, respecting turn order and mechanics. Keep it short, no more than 5 paragraphs.",
-      "Simulate dice rolls using standard notation (d20, 2d6+3).",
+      "Never invent dice results. The server rolls every die: use the player's declared rolls exactly as given,",
+      "and take any other roll you need from the dice tray in order (the first unused d20 for the next d20, and so on); add modifiers yourself.",
+      "Name the tray dice you used inside <thinking>.",
       "Show reasoning and rolls inside <thinking> ... </thinking>.",
       "CRITICAL: When introducing enemies in combat, specify them clearly: 'A Goblin (7 HP) appears' or 'Two Orcs emerge to attack'.",
       "CRITICAL: When a character takes damage, always use the exact phrase '[Character Name] takes [X] damage' or '[Character Name] suffers [X] damage' to ensure HP tracking works properly.",
       "CRITICAL: When enemies take damage, use clear phrases: 'deals [X] damage to the Goblin' or 'the Orc takes [X] damage'.",
+      "When several enemies share a type the server labels them (Goblin A, Goblin B, ...); always name the exact label of the one affected.",
       "CRITICAL: When a character heals, always use phrases like '[Character Name] heals [X] HP' or '[Character Name] recovers [X] health'.",
       "CRITICAL: When a character gains items, use phrases like '[Character Name] finds a sword' or '[Character Name] receives a potion' to track inventory.",
       "CRITICAL: When a character uses items, use phrases like '[Character Name] uses a potion' or '[Character Name] drinks a healing potion'.",
-      "CRITICAL: When combat begins, mention 'roll initiative' or 'combat begins' to trigger the combat tracking system.",
+      "Use the exact item names from the inventories, give quantities ('Thia finds 20 arrows') and coins as gp, sp or cp ('Thia finds 15 gp', 'Thia pays 5 sp'). A character cannot carry more than their capacity.",
+      "CRITICAL: When combat begins, mention 'roll initiative' or 'combat begins' to trigger the combat tracking system. The server rolls initiative; never invent the order.",
+      "The server enforces turn order: when told which enemies act before the player, narrate their turns first, then the player's action.",
+      "Characters at 0 HP are unconscious and dying; the server rolls their death saves, so never roll them yourself. Healing revives them and a stabilize effect (Spare the Dying, a DC 10 Medicine check) stops the saves. Dead characters stay dead.",
+      "The server awards XP for defeated enemies and levels characters up; never grant XP for kills yourself. Use a milestone effect for story achievements (a rescued hostage, a solved mystery).",
+      "Respect the conditions listed after each creature's HP (poisoned, stunned, prone, frightened, concentrating, ...) and apply their 5e effects; the server ends them when their duration or save says so.",
       "Final response must include clear outcomes: hit/miss, damage, conditions, or consequences. Always specify exact damage numbers.",
       "Include item discoveries, loot, and inventory changes in your narration using the phrases above.",
       "Do not alter player stats directly; only describe narrative outcomes with precise damage amounts and item interactions.",
@@ -233,6 +766,16 @@ export class DungeonMasterService {
       "Structure your responses with titles and subtitles using markdown headers (# Title, ## Subtitle) to organize your narration into clear sections.",
       "Use titles to indicate major scene changes, locations, or story beats. Use subtitles for specific actions, combat rounds, or character interactions.",
       "Avoid using <thinking> tags if there is no internal reasoning to show.",
+      "After the narration, always append one <effects> ... </effects> block holding a JSON array of the mechanical outcomes of this turn, for example:",
+      '<effects>[{"type":"damage","target":"Thia","amount":3},{"type":"item_gained","target":"Thia","item":"silver key"}]</effects>.',
+      'Allowed entries: {"type":"damage"|"heal","target":name,"amount":integer}, {"type":"item_gained"|"item_lost","target":name,"item":string,"quantity":integer (optional)},',
+      '{"type":"coins","target":name,"gp":integer,"sp":integer,"cp":integer} (signed, any subset),',
+      '{"type":"enemy_spawn","name":string,"hp":integer (optional),"count":integer (optional, up to 10)}, {"type":"combat_start"}, {"type":"combat_end"},',
+      '{"type":"condition_add","target":name,"condition":string,"rounds":integer (optional),"save":{"ability":"con","dc":13} (optional),"source":string (optional)},',
+      '{"type":"condition_remove","target":name,"condition":string}, {"type":"stabilize","target":name}, {"type":"milestone","amount":integer (up to 5000),"target":name (optional, whole party when omitted),"reason":string (optional)}.',
+      'Conditions are the 5e conditions in lowercase plus "concentrating".',
+      `Known monsters (omit hp to have the server roll their hit dice, and use the stat blocks you are given): ${this.bestiary.all().map(stats => stats.name).join(", ")}.`,
+      "Targets must be exact character names or enemy labels. Use an empty array when nothing changes. Never mention the effects block in the narration.",
     ].join(" ");
   }
 
@@ -257,6 +800,19 @@ export class DungeonMasterService {
     return text.replace(/<thinking>[\s\S]*?<\/thinking>/gi, '').trim();
   }
 
+  private extractEffects(rawText: string): { text: string; effects: DmEffect[] | null } {
+    const match = rawText.match(/<effects>([\s\S]*?)<\/effects>/i);
+    const text = rawText.replace(/<effects>[\s\S]*?<\/effects>/gi, "").trim();
+    if (!match) {
+      return { text, effects: null };
+    }
+    const effects = parseEffects(match[1]);
+    if (!effects && IS_LOCAL_DEV) {
+      console.warn("[AI effects] Discarding invalid effects block", match[1].slice(0, 200));
+    }
+    return { text, effects };
+  }
+
   private extractThinking(rawText: string): { text: string; thinking: string } {
     const match = rawText.match(/<thinking>([\s\S]*?)<\/thinking>/i);
     const thinking = match ? match[1].trim() : "";
@@ -267,8 +823,11 @@ export class DungeonMasterService {
 
 /**
  * Parses the DM narration looking for lightweight damage cues to keep HP values fresh.
+ * Only used as a fallback when the DM response carries no valid <effects> block.
  */
 export class EffectResolver {
+  constructor(private readonly rng: Rng = createRng(), private readonly bestiary: Bestiary = loadBestiary().bestiary) {}
+
   apply(dmText: string, players: Map<string, Player>, combat: CombatState) {
     // Detect and initialize combat scenarios
     this.detectCombatScenarios(dmText, players, combat);
@@ -278,6 +837,7 @@ export class EffectResolver {
     this.applyPlayerDamage(dmText, players);
     this.applyPlayerHealing(dmText, players);
     this.applyInventoryChanges(dmText, players);
+    this.applyMilestones(dmText, players);
     
     // Check if combat should end
     this.checkCombatEnd(combat);
@@ -290,12 +850,13 @@ export class EffectResolver {
     }
 
     // Look for combat initiation phrases
+    const monsters = this.bestiary.namePattern();
     const combatTriggers = [
       /(?:attack|combat|fight|battle|engage)(?:s|ing)?/i,
       /(?:enemy|enemies|monster|monsters|creature|creatures|foe|foes)\s+(?:appear|emerges?|attack|charge)/i,
       /(?:roll|make)\s+(?:initiative|an?\s+initiative)/i,
       /initiative\s+(?:roll|order)/i,
-      /(?:a|the)\s+(?:goblin|orc|skeleton|dragon|wolf|spider|bandit|guard)(?:s)?\s+(?:attack|charge|leap|strike)/i
+      new RegExp(`(?:a|the)\\s+(?:${monsters})(?:e?s)?\\s+(?:attack|charge|leap|strike)`, "i"),
     ];
 
     const hasCombatTrigger = combatTriggers.some(pattern => pattern.test(text));
@@ -303,101 +864,65 @@ export class EffectResolver {
       return;
     }
 
-    // Look for enemy mentions to initialize combat
+    // Look for enemy mentions, with how many of each, to initialize combat
     const enemyPatterns = [
-      // Basic enemy types with optional HP mentions
-      /(?:a|the|\d+)\s+(goblin|orc|skeleton|dragon|wolf|spider|bandit|guard|troll|ogre|zombie|ghoul|wraith|lich|demon|devil|giant|minotaur|basilisk|manticore|harpy|medusa|cyclops|hydra|griffin|pegasus|unicorn|phoenix|roc|kraken|leviathan|behemoth|colossus)(?:s)?(?:\s+\((\d+)\s+HP\))?/gi,
+      // Bestiary monsters with optional HP mentions
+      new RegExp(`\\b(${COUNT_PATTERN})\\s+(${monsters})(?:e?s)?\\b(?:\\s+\\((\\d+)\\s+HP\\))?`, "gi"),
       // Generic enemy with HP
-      /(?:a|the|\d+)\s+([A-Za-z][A-Za-z\s]*?)\s+\((\d+)\s+HP\)/gi,
+      new RegExp(`\\b(${COUNT_PATTERN})\\s+([A-Za-z][A-Za-z\\s]*?)\\s+\\((\\d+)\\s+HP\\)`, "gi"),
       // Enemy appears/emerges patterns
-      /(?:a|the|\d+)\s+([A-Za-z][A-Za-z\s]*?)\s+(?:appears?|emerges?|materializes?|attacks?)/gi
+      new RegExp(`\\b(${COUNT_PATTERN})\\s+([A-Za-z][A-Za-z\\s]*?)\\s+(?:appears?|emerges?|materializes?|attacks?)`, "gi"),
     ];
 
-    const enemies: { name: string; hp: number }[] = [];
-    const foundEnemies = new Set<string>();
+    // One group per creature type: "Three goblins attack! The goblins charge" is three goblins, not four.
+    const groups = new Map<string, { name: string; count: number; hp?: number }>();
 
     for (const pattern of enemyPatterns) {
       const matches = text.matchAll(pattern);
       for (const match of matches) {
-        let enemyName: string;
-        let enemyHp: number;
-
-        if (match[2] && !isNaN(parseInt(match[2], 10))) {
-          // Pattern with explicit HP
-          enemyName = match[1].trim();
-          enemyHp = parseInt(match[2], 10);
-        } else {
-          // Pattern without explicit HP, use defaults
-          enemyName = match[1].trim();
-          enemyHp = this.getDefaultEnemyHp(enemyName);
-        }
+        const count = parseCount(match[1]);
+        let enemyName = match[2].trim();
+        // Explicit HP wins; otherwise the bestiary rolls hit dice.
+        const enemyHp = match[3] && !isNaN(parseInt(match[3], 10)) ? parseInt(match[3], 10) : undefined;
 
         // Clean up enemy name
         enemyName = enemyName.replace(/^(a|an|the)\s+/i, '');
+        if (count > 1 && !this.bestiary.find(enemyName)) {
+          enemyName = enemyName.replace(/([^s])s$/i, '$1');
+        }
         enemyName = enemyName.toLowerCase().split(' ').map(word => 
           word.charAt(0).toUpperCase() + word.slice(1)
         ).join(' ');
 
         // Avoid duplicates
-        const enemyKey = enemyName.toLowerCase();
-        if (!foundEnemies.has(enemyKey) && enemyName.length > 1) {
-          foundEnemies.add(enemyKey);
-          enemies.push({ name: enemyName, hp: enemyHp });
+        const enemyKey = (this.bestiary.find(enemyName)?.name ?? enemyName).toLowerCase();
+        if (!groups.has(enemyKey) && enemyName.length > 1) {
+          groups.set(enemyKey, { name: enemyName, count, hp: enemyHp });
         }
       }
     }
 
     // Initialize combat if enemies were found
-    if (enemies.length > 0) {
-      console.log('[Combat Detected] Initializing combat with enemies:', enemies);
-      
-      combat.active = true;
-      combat.enemies = enemies;
+    if (groups.size > 0) {
+      combat.enemies = [];
+      for (const group of groups.values()) {
+        spawnEnemies(combat, this.bestiary, group.name, group.count, this.rng, group.hp);
+      }
+      console.log('[Combat Detected] Initializing combat with enemies:', combat.enemies);
       
-      // Create turn order: players first, then enemies
-      const playerNames = Array.from(players.values()).map(p => p.name);
-      combat.turnOrder = [...playerNames, ...enemies.map(e => e.name)];
-      combat.currentTurnIndex = 0;
+      // Roll initiative (d20 + DEX) for every participant
+      const combatants = [...Array.from(players.values()).map(playerCombatant), ...combat.enemies.map(enemyCombatant)];
+      beginCombat(combat, combatants, this.rng);
       
       if (IS_LOCAL_DEV) {
         console.log('[Combat Started]', {
           enemies: combat.enemies,
-          turnOrder: combat.turnOrder
+          initiative: combat.initiative
         });
       }
     }
   }
 
-  private getDefaultEnemyHp(enemyName: string): number {
-    const name = enemyName.toLowerCase();
-    
-    // Basic enemy HP mapping
-    const hpMap: Record<string, number> = {
-      'goblin': 7,
-      'orc': 15,
-      'skeleton': 13,
-      'zombie': 22,
-      'wolf': 11,
-      'spider': 4,
-      'bandit': 11,
-      'guard': 11,
-      'troll': 84,
-      'ogre': 59,
-      'dragon': 200,
-      'lich': 135,
-      'demon': 85,
-      'devil': 85,
-      'giant': 138,
-      'minotaur': 76,
-      'basilisk': 52,
-      'harpy': 38,
-      'cyclops': 138,
-      'hydra': 172
-    };
-    
-    return hpMap[name] || 15; // Default HP for unknown enemies
-  }
-
   private checkCombatEnd(combat: CombatState) {
     if (!combat.active) {
       return;
@@ -407,10 +932,7 @@ export class EffectResolver {
     const aliveEnemies = combat.enemies.filter(e => e.hp > 0);
     if (aliveEnemies.length === 0) {
       console.log('[Combat Ended] All enemies defeated');
-      combat.active = false;
-      combat.enemies = [];
-      combat.turnOrder = [];
-      combat.currentTurnIndex = 0;
+      resetCombat(combat);
     }
   }
 
@@ -433,9 +955,19 @@ export class EffectResolver {
       /strikes?\s+(?:the\s+)?([A-Za-z][A-Za-z ']*?)\s+for\s+(\d+)\s+damage/gi
     ];
 
+    // Several patterns can match one phrase ("deals 7 damage to Goblin" also reads as
+    // "7 damage to Goblin"), so each stretch of text is only counted once.
+    const consumed: Array<[number, number]> = [];
+
     for (const pattern of damagePatterns) {
       const matches = text.matchAll(pattern);
       for (const match of matches) {
+        const start = match.index ?? 0;
+        const end = start + match[0].length;
+        if (consumed.some(([from, to]) => start < to && end > from)) {
+          continue;
+        }
+
         let enemyName: string, dmg: number;
         
         if (pattern.source.startsWith('(\\d+)') || pattern.source.includes('deals')) {
@@ -449,8 +981,10 @@ export class EffectResolver {
         }
         
         if (enemyName && Number.isFinite(dmg) && dmg > 0) {
-          const enemy = this.findEnemyByName(combat.enemies, enemyName);
+          // Ambiguous names ("the goblin" with three standing) are skipped rather than guessed.
+          const enemy = findEnemyInText(combat.enemies, enemyName);
           if (enemy) {
+            consumed.push([start, end]);
             const oldHp = enemy.hp;
             enemy.hp = Math.max(0, enemy.hp - dmg);
             if (IS_LOCAL_DEV) {
@@ -462,21 +996,6 @@ export class EffectResolver {
     }
   }
 
-  private findEnemyByName(enemies: { name: string; hp: number }[], searchName: string): { name: string; hp: number } | undefined {
-    const cleanSearchName = searchName.toLowerCase().replace(/^(the|a|an)\s+/, '').trim();
-    
-    // First try exact match
-    let enemy = enemies.find(e => e.name.toLowerCase() === cleanSearchName);
-    if (enemy) return enemy;
-    
-    // Then try partial match
-    enemy = enemies.find(e => e.name.toLowerCase().includes(cleanSearchName));
-    if (enemy) return enemy;
-    
-    // Finally try reverse partial match (search name contains enemy name)
-    return enemies.find(e => cleanSearchName.includes(e.name.toLowerCase()));
-  }
-
   private applyPlayerDamage(text: string, players: Map<string, Player>) {
     // Enhanced patterns to match various damage descriptions
     const damagePatterns = [
@@ -508,7 +1027,7 @@ export class EffectResolver {
         const player = Array.from(players.values()).find(p => p.name.toLowerCase() === name);
         if (player && Number.isFinite(dmg) && dmg > 0) {
           const oldHp = player.hp;
-          player.hp = Math.max(0, player.hp - dmg);
+          damagePlayer(player, dmg);
           if (IS_LOCAL_DEV) {
             console.log(`[Damage Applied] ${player.name}: ${oldHp} → ${player.hp} (took ${dmg} damage)`);
           }
@@ -517,6 +1036,24 @@ export class EffectResolver {
     }
   }
 
+  private applyMilestones(text: string, players: Map<string, Player>) {
+    // "The party earns 300 XP" or "Thia gains 50 experience points"
+    const pattern = /([A-Za-z][A-Za-z ']*?)\s+(?:gains?|earns?|receives?)\s+(\d+)\s+(?:XP|experience(?:\s+points)?)\b/gi;
+    for (const match of text.matchAll(pattern)) {
+      const name = match[1].trim().toLowerCase();
+      const amount = parseInt(match[2], 10);
+      const recipients = /^(?:the party|everyone|you all)$/.test(name)
+        ? Array.from(players.values())
+        : Array.from(players.values()).filter(p => p.name.toLowerCase() === name);
+      for (const player of recipients) {
+        gainXp(player, amount);
+        if (IS_LOCAL_DEV) {
+          console.log(`[Milestone] ${player.name} gained ${amount} XP`);
+        }
+      }
+    }
+  }
+
   private applyPlayerHealing(text: string, players: Map<string, Player>) {
     // Enhanced patterns to match various healing descriptions
     const healingPatterns = [
@@ -548,8 +1085,7 @@ export class EffectResolver {
         const player = Array.from(players.values()).find(p => p.name.toLowerCase() === name);
         if (player && Number.isFinite(heal) && heal > 0) {
           const oldHp = player.hp;
-          const maxHp = 20; // Default max HP
-          player.hp = Math.min(maxHp, player.hp + heal);
+          healPlayer(player, heal);
           if (IS_LOCAL_DEV) {
             console.log(`[Healing Applied] ${player.name}: ${oldHp} → ${player.hp} (healed ${heal} HP)`);
           }
@@ -559,40 +1095,56 @@ export class EffectResolver {
   }
 
   private applyInventoryChanges(text: string, players: Map<string, Player>) {
+    const findPlayer = (name: string) => Array.from(players.values()).find(p => p.name.toLowerCase() === name.trim().toLowerCase());
+
+    // Coins first, so "finds 15 gold pieces" never becomes an item called "gold pieces"
+    const coinPatterns: Array<[RegExp, 1 | -1]> = [
+      // "Thia finds 15 gold pieces", "Thia receives 20 sp"
+      [/([A-Za-z][A-Za-z ']*?)\s+(?:finds?|receives?|gets?|gains?|loots?|earns?)\s+(\d+)\s+(gold|silver|copper|gp|sp|cp)\b/gi, 1],
+      // "Thia pays 5 gold", "Thia spends 3 sp"
+      [/([A-Za-z][A-Za-z ']*?)\s+(?:pays?|spends?|loses?)\s+(\d+)\s+(gold|silver|copper|gp|sp|cp)\b/gi, -1],
+    ];
+    for (const [pattern, sign] of coinPatterns) {
+      for (const match of text.matchAll(pattern)) {
+        const player = findPlayer(match[1]);
+        const coin = COIN_WORDS[match[3].toLowerCase()];
+        if (!player) continue;
+        const error = adjustPurse(player, { [coin]: sign * Math.min(MAX_COIN_CHANGE, parseInt(match[2], 10)) });
+        if (IS_LOCAL_DEV) {
+          console.log(error ? `[Coins Skipped] ${error}` : `[Coins] ${player.name}: ${formatCoins(player.purse ?? emptyPurse())}`);
+        }
+      }
+    }
+
     // Patterns to detect when players gain items
     const gainItemPatterns = [
-      // "Thia finds a sword"
-      /([A-Za-z][A-Za-z ']*?)\s+(?:finds?|discovers?|picks?\s+up|obtains?)\s+(?:a|an|the)\s+([A-Za-z][A-Za-z '\-]*)/gi,
+      // "Thia finds a sword", "Thia picks up 3 arrows"
+      new RegExp(`([A-Za-z][A-Za-z ']*?)\\s+(?:finds?|discovers?|picks?\\s+up|obtains?)\\s+(${COUNT_PATTERN})\\s+([A-Za-z][A-Za-z '\\-]*)`, "gi"),
       // "Thia receives a potion"
-      /([A-Za-z][A-Za-z ']*?)\s+(?:receives?|gets?|gains?)\s+(?:a|an|the)\s+([A-Za-z][A-Za-z '\-]*)/gi,
+      new RegExp(`([A-Za-z][A-Za-z ']*?)\\s+(?:receives?|gets?|gains?)\\s+(${COUNT_PATTERN})\\s+([A-Za-z][A-Za-z '\\-]*)`, "gi"),
       // "You give Thia a dagger"
-      /(?:give|hand)\s+([A-Za-z][A-Za-z ']*?)\s+(?:a|an|the)\s+([A-Za-z][A-Za-z '\-]*)/gi,
+      new RegExp(`(?:give|hand)\\s+([A-Za-z][A-Za-z ']*?)\\s+(${COUNT_PATTERN})\\s+([A-Za-z][A-Za-z '\\-]*)`, "gi"),
       // "Thia loots a gem"
-      /([A-Za-z][A-Za-z ']*?)\s+(?:loots?|takes?)\s+(?:a|an|the)\s+([A-Za-z][A-Za-z '\-]*)/gi,
+      new RegExp(`([A-Za-z][A-Za-z ']*?)\\s+(?:loots?|takes?)\\s+(${COUNT_PATTERN})\\s+([A-Za-z][A-Za-z '\\-]*)`, "gi"),
     ];
 
     for (const pattern of gainItemPatterns) {
       const matches = text.matchAll(pattern);
       for (const match of matches) {
-        const playerName = match[1]?.trim().toLowerCase();
-        let itemName = match[2]?.trim();
+        const quantity = parseCount(match[2], MAX_ITEM_QUANTITY);
+        // Clean up item name
+        const itemName = match[3]?.trim().toLowerCase().replace(/[^a-z\s'\-]/g, '').trim();
         
-        // Skip if item name looks like a place or action
-        if (!itemName || itemName.length < 2 || /\b(room|door|way|path|area|place|time|chance)\b/i.test(itemName)) {
+        // Skip if item name looks like a place, an action or a pile of coins
+        if (!itemName || itemName.length < 2 || /\b(room|door|way|path|area|place|time|chance|damage)\b/i.test(itemName) || /^(?:gold|silver|copper|gp|sp|cp)\b/.test(itemName)) {
           continue;
         }
         
-        const player = Array.from(players.values()).find(p => p.name.toLowerCase() === playerName);
-        if (player && itemName) {
-          // Clean up item name
-          itemName = itemName.toLowerCase().replace(/[^a-z\s\-]/g, '').trim();
-          
-          // Don't add duplicate items
-          if (!player.inventory.includes(itemName)) {
-            player.inventory.push(itemName);
-            if (IS_LOCAL_DEV) {
-              console.log(`[Item Added] ${player.name} gained: ${itemName}`);
-            }
+        const player = findPlayer(match[1] ?? "");
+        if (player) {
+          const error = addItem(player, createItem(itemName, quantity));
+          if (IS_LOCAL_DEV) {
+            console.log(error ? `[Item Skipped] ${error}` : `[Item Added] ${player.name} gained: ${quantity} × ${itemName}`);
           }
         }
       }
@@ -601,30 +1153,23 @@ export class EffectResolver {
     // Patterns to detect when players lose/use items
     const loseItemPatterns = [
       // "Thia uses a potion"
-      /([A-Za-z][A-Za-z ']*?)\s+(?:uses?|consumes?|drinks?)\s+(?:a|an|the|their)\s+([A-Za-z][A-Za-z '\-]*)/gi,
+      new RegExp(`([A-Za-z][A-Za-z ']*?)\\s+(?:uses?|consumes?|drinks?)\\s+(their|${COUNT_PATTERN})\\s+([A-Za-z][A-Za-z '\\-]*)`, "gi"),
       // "Thia drops the sword"
-      /([A-Za-z][A-Za-z ']*?)\s+(?:drops?|loses?|discards?)\s+(?:a|an|the|their)\s+([A-Za-z][A-Za-z '\-]*)/gi,
+      new RegExp(`([A-Za-z][A-Za-z ']*?)\\s+(?:drops?|loses?|discards?)\\s+(their|${COUNT_PATTERN})\\s+([A-Za-z][A-Za-z '\\-]*)`, "gi"),
     ];
 
     for (const pattern of loseItemPatterns) {
       const matches = text.matchAll(pattern);
       for (const match of matches) {
-        const playerName = match[1]?.trim().toLowerCase();
-        let itemName = match[2]?.trim().toLowerCase();
-        
-        if (itemName && playerName) {
-          itemName = itemName.replace(/[^a-z\s\-]/g, '').trim();
-          
-          const player = Array.from(players.values()).find(p => p.name.toLowerCase() === playerName);
-          if (player) {
-            const itemIndex = player.inventory.findIndex(item => item.includes(itemName));
-            if (itemIndex !== -1) {
-              const removedItem = player.inventory.splice(itemIndex, 1)[0];
-              if (IS_LOCAL_DEV) {
-                console.log(`[Item Removed] ${player.name} lost: ${removedItem}`);
-              }
-            }
-          }
+        const player = findPlayer(match[1] ?? "");
+        const itemName = match[3]?.trim().toLowerCase().replace(/[^a-z\s'\-]/g, '').trim();
+        if (!player || !itemName) continue;
+
+        // Only exact names (or a single unambiguous "... potion") match: "a potion" never
+        // takes the potion of giant strength.
+        const removed = removeItem(player, itemName, parseCount(match[2], MAX_ITEM_QUANTITY));
+        if (removed && IS_LOCAL_DEV) {
+          console.log(`[Item Removed] ${player.name} lost: ${removed.removed} × ${removed.item.name}`);
         }
       }
     }
@@ -636,43 +1181,60 @@ export class EffectResolver {
  */
 export class SessionRegistry {
   private readonly storageManager: StorageManager;
-  private sessions: Set<string> = new Set();
+  private listings: Map<string, SessionListing> = new Map();
 
   constructor(private readonly state: DurableObjectState, private readonly env: Env) {
     this.storageManager = new StorageManager(this.state.storage);
     this.state.blockConcurrencyWhile(async () => {
-      this.sessions = await this.storageManager.loadSessions();
+      this.listings = new Map((await this.storageManager.loadListings()).map(listing => [listing.sessionId, listing]));
+      const legacy = await this.storageManager.loadSessions();
+      if (legacy.size > 0) {
+        // Registries saved before listings held bare IDs; they get placeholders until each session next pushes.
+        const now = Date.now();
+        const placeholders = Array.from(legacy).filter(sessionId => !this.listings.has(sessionId)).map(sessionId => ({
+          sessionId,
+          ...createSettings(undefined, sessionId),
+          playerCount: 0,
+          createdAt: now,
+          lastActivity: now,
+          inCombat: false,
+          inviteOnly: false,
+        }));
+        await this.storageManager.saveListings(placeholders);
+        await this.storageManager.clearSessions();
+        placeholders.forEach(listing => this.listings.set(listing.sessionId, listing));
+      }
     });
   }
 
-  private async persist() {
-    await this.storageManager.saveSessions(this.sessions);
-  }
-
   async fetch(request: Request): Promise<Response> {
     const url = new URL(request.url);
 
     if (url.pathname.endsWith("/list")) {
-      return new Response(JSON.stringify({ sessions: Array.from(this.sessions) }), { headers: JSON_HEADERS });
+      const query = parseSessionListQuery(url.searchParams);
+      if (!query) {
+        return new Response(JSON.stringify({ error: "Invalid session list query" }), { status: 400, headers: JSON_HEADERS });
+      }
+      return new Response(JSON.stringify(listSessions(this.listings.values(), query)), { headers: JSON_HEADERS });
     }
 
-    if (url.pathname.endsWith("/add") && request.method === "POST") {
-      const { sessionId } = await request.json() as { sessionId: string };
-      this.sessions.add(sessionId);
-      await this.persist();
+    if (url.pathname.endsWith("/update") && request.method === "POST") {
+      const listing = await request.json() as SessionListing;
+      this.listings.set(listing.sessionId, listing);
+      await this.storageManager.saveListings([listing]);
       return new Response(JSON.stringify({ ok: true }), { headers: JSON_HEADERS });
     }
 
     if (url.pathname.endsWith("/remove") && request.method === "POST") {
       const { sessionId } = await request.json() as { sessionId: string };
-      this.sessions.delete(sessionId);
-      await this.persist();
+      this.listings.delete(sessionId);
+      await this.storageManager.deleteListing(sessionId);
       return new Response(JSON.stringify({ ok: true }), { headers: JSON_HEADERS });
     }
 
     if (url.pathname.endsWith("/clear") && request.method === "POST") {
-      this.sessions.clear();
-      await this.persist();
+      this.listings.clear();
+      await this.storageManager.clearListings();
       return new Response(JSON.stringify({ ok: true }), { headers: JSON_HEADERS });
     }
 
@@ -686,34 +1248,120 @@ export class SessionRegistry {
 export class SessionCoordinator {
   private readonly storageManager: StorageManager;
   private readonly registry: RegistryClient;
-  private readonly dm: DungeonMasterService;
+  private readonly bestiary: Bestiary;
+  // Rebuilt when the session picks its model.
+  private dm: DungeonMasterService;
   private readonly effects: EffectResolver;
+  private readonly effectApplier: EffectApplier;
+  // The session's dice sequence; saved with the snapshot so rolls continue, not restart, after a reload.
+  private readonly dice: RngPosition = { seed: randomSeed(), draws: 0 };
+  private readonly rng: Rng = trackedRng(this.dice);
 
   private players: Map<string, Player> = new Map();
   private messages: Message[] = [];
   private combat: CombatState = defaultCombatState();
   private lastActivity = Date.now();
   private sessionId?: string;
+  private nextSeq = 1;
+  // Last payloads pushed to sockets so unchanged players/combat are not re-broadcast.
+  private lastBroadcast = { players: "", combat: "", owner: "" };
+  // Player whose combat turn is waiting on the DM; a second turn cannot start until it resolves.
+  private resolvingTurn: string | null = null;
+  private memory: CampaignMemory = emptyMemory();
+  // Highest seq written to storage; later messages are saved by the next persist.
+  private storedThrough = 0;
+  private compacting = false;
+  // The first player to join owns the session and may kick, ban, hand over ownership and end it.
+  private ownerId: string | null = null;
+  // Player IDs the owner banned; they cannot join again until the session ends.
+  private banned: Set<string> = new Set();
+  // Chosen by the first player to join; null while the session is empty.
+  private settings: SessionSettings | null = null;
+  // Private sessions only; new players must present it to join.
+  private inviteCode: string | null = null;
+  private createdAt = Date.now();
+  // The listing last pushed to the registry (minus its activity time) and when it was pushed.
+  private listed = { listing: "", at: 0 };
+  // Review mode: narration the DM has not approved or rejected yet, oldest first.
+  private drafts: PendingDraft[] = [];
+  // Drafts waiting on a regenerate call; they cannot be decided until it returns.
+  private regenerating: Set<string> = new Set();
+  // Set when the session was restored from an archive: the session it came from, whose player
+  // tokens still claim the restored seats.
+  private importedFrom: string | null = null;
+  // Recent turns the owner can undo or reroll, newest last.
+  private checkpoints: TurnCheckpoint[] = [];
+  // Set while a reroll waits on the DM; new actions wait for it.
+  private rerolling = false;
+
+  // Conditions tick at the end of their bearer's turn, and dying players roll their death save;
+  // every roll and expiry goes to the transcript.
+  private readonly endTurn: TurnEndHook = ended => {
+    const player = ended.kind === "player" ? this.players.get(ended.id) : undefined;
+    const creature = player ?? this.combat.enemies.find(enemy => enemy.id === ended.id);
+    if (!creature) return;
+    const deathSave = player && rollDeathSave(player, this.rng);
+    if (deathSave) this.appendMessage("DM", deathSave);
+    for (const line of tickConditions(creature, this.rng)) {
+      this.appendMessage("DM", line);
+    }
+  };
+
+  // Unconscious and dead players are passed over in initiative.
+  private readonly canAct: CanActCheck = entry => {
+    const player = this.players.get(entry.id);
+    return player !== undefined && !isDown(player);
+  };
 
   constructor(private readonly state: DurableObjectState, private readonly env: Env) {
     this.storageManager = new StorageManager(this.state.storage);
     this.registry = new RegistryClient(env.SESSION_REGISTRY);
-    this.dm = new DungeonMasterService(env.AI);
-    this.effects = new EffectResolver();
+    const { bestiary, errors } = loadBestiary(env.HOMEBREW_MONSTERS);
+    if (errors.length > 0) {
+      console.warn("[SessionCoordinator] Skipping homebrew monsters", errors);
+    }
+    this.bestiary = bestiary;
+    this.dm = this.dungeonMaster(null);
+    this.effects = new EffectResolver(this.rng, bestiary);
+    this.effectApplier = new EffectApplier(this.rng, bestiary);
 
     // Replay the latest snapshot so freshly spawned coordinators pick up prior state.
     this.state.blockConcurrencyWhile(async () => {
       const stored = await this.storageManager.loadSession();
       if (stored) {
         this.players = new Map(stored.players);
-        this.messages = stored.messages || [];
-        this.combat = stored.combat || defaultCombatState();
-        this.lastActivity = stored.lastActivity ?? Date.now();
+        this.nextSeq = stored.nextSeq;
+        this.messages = await this.storageManager.loadMessages({ before: this.nextSeq, limit: HOT_MESSAGE_LIMIT });
+        this.storedThrough = this.nextSeq - 1;
+        this.combat = stored.combat;
+        this.memory = stored.memory;
+        this.ownerId = stored.ownerId;
+        this.banned = new Set(stored.banned);
+        this.createdAt = stored.createdAt;
+        this.inviteCode = stored.inviteCode;
+        this.drafts = stored.drafts;
+        this.importedFrom = stored.importedFrom;
+        this.checkpoints = stored.checkpoints;
+        Object.assign(this.dice, stored.dice);
+        this.lastActivity = stored.lastActivity;
         this.sessionId = stored.sessionId;
+        this.settings = stored.settings;
+        this.dm = this.dungeonMaster(stored.settings?.llm ?? null);
       }
     });
   }
 
+  /**
+   * A DM on the session's model and its fallback, or on the server default while it has none.
+   */
+  private dungeonMaster(choice: LlmChoice | null): DungeonMasterService {
+    const { fallback, ...primary } = resolveChoice(this.env, choice);
+    return new DungeonMasterService(createProvider(this.env, primary), {
+      bestiary: this.bestiary,
+      fallback: fallback && createProvider(this.env, fallback),
+    });
+  }
+
   async fetch(request: Request): Promise<Response> {
     await this.cleanupIfIdle();
 
@@ -723,13 +1371,61 @@ export class SessionCoordinator {
     }
 
     if (url.pathname.endsWith("/state")) {
-      return this.handleState();
+      return this.handleState(request, url);
+    }
+
+    if (url.pathname.endsWith("/history")) {
+      return this.handleHistory(request, url);
+    }
+
+    if (url.pathname.endsWith("/ws")) {
+      return this.handleWebSocket(request, url);
     }
 
     if (url.pathname.endsWith("/action") && request.method === "POST") {
       return this.handleAction(request);
     }
 
+    if (url.pathname.endsWith("/action/stream") && request.method === "POST") {
+      return this.handleAction(request, true);
+    }
+
+    if (url.pathname.endsWith("/roll") && request.method === "POST") {
+      return this.handleRoll(request);
+    }
+
+    if (url.pathname.endsWith("/inventory") && request.method === "POST") {
+      return this.handleInventory(request);
+    }
+
+    if (url.pathname.endsWith("/turn") && request.method === "POST") {
+      return this.handleTurn(request);
+    }
+
+    if (url.pathname.endsWith("/moderate") && request.method === "POST") {
+      return this.handleModeration(request);
+    }
+
+    if (url.pathname.endsWith("/review") && request.method === "POST") {
+      return this.handleReview(request);
+    }
+
+    if (url.pathname.endsWith("/rewind") && request.method === "POST") {
+      return this.handleRewind(request);
+    }
+
+    if (url.pathname.endsWith("/drafts")) {
+      return this.handleDrafts(request, url);
+    }
+
+    if (url.pathname.endsWith("/export")) {
+      return this.handleExport(request, url);
+    }
+
+    if (url.pathname.endsWith("/import") && request.method === "POST") {
+      return this.handleImport(request);
+    }
+
     return new Response("Not found", { status: 404 });
   }
 
@@ -739,132 +1435,1129 @@ export class SessionCoordinator {
       return new Response(JSON.stringify({ error: "Invalid join payload" }), { status: 400, headers: JSON_HEADERS });
     }
 
-    const { sessionId, playerId, name } = payload;
+    const { sessionId, playerId, name, character, settings, inviteCode } = payload;
+    const secret = this.env.PLAYER_TOKEN_SECRET;
+    if (!secret) {
+      return new Response(JSON.stringify({ error: "Player tokens are not configured" }), { status: 500, headers: JSON_HEADERS });
+    }
+    if (this.banned.has(playerId)) {
+      return new Response(JSON.stringify({ error: "You have been banned from this session." }), { status: 403, headers: JSON_HEADERS });
+    }
+    if (this.players.has(playerId)) {
+      // Rejoining (a new tab, a reload) takes the token issued on the first join; the ID alone is public.
+      const token = bearerToken(request);
+      if (!token || !(await this.holdsSeat(secret, playerId, token))) {
+        return new Response(JSON.stringify({ error: "That player has already joined; rejoin with their player token" }), { status: 403, headers: JSON_HEADERS });
+      }
+    } else if (this.players.size > 0) {
+      if (this.needsInvite() && !matchesInviteCode(inviteCode, this.inviteCode)) {
+        const reason = this.settings?.visibility === "private" ? "This session is private" : "This session admits invited players only";
+        return new Response(JSON.stringify({ error: `${reason}; ask its owner for an invite code.` }), { status: 403, headers: JSON_HEADERS });
+      }
+      if (this.players.size >= (this.settings?.maxPlayers ?? DEFAULT_MAX_PLAYERS)) {
+        return new Response(JSON.stringify({ error: "This session is full." }), { status: 409, headers: JSON_HEADERS });
+      }
+    }
+
+    const unavailable = this.players.size === 0 ? unavailableModel(this.env, settings?.llm ?? null) : null;
+    if (unavailable) {
+      return new Response(JSON.stringify({ error: unavailable }), { status: 400, headers: JSON_HEADERS });
+    }
+
     this.sessionId = this.sessionId ?? sessionId;
-    const wasEmpty = this.players.size === 0;
+    if (this.players.size === 0) {
+      // The first player creates the session, or recreates it after it ended.
+      this.settings = createSettings(settings, sessionId);
+      this.dm = this.dungeonMaster(this.settings.llm);
+      this.inviteCode = this.settings.visibility === "private" ? createInviteCode() : null;
+      this.createdAt = Date.now();
+    }
 
     if (!this.players.has(playerId)) {
-      // First time we see the player: seed stats and announce their arrival.
-      const starterInventory = ['basic sword', 'leather armor', 'health potion'];
-      this.players.set(playerId, { id: playerId, name, hp: 20, inventory: starterInventory });
-      this.messages.push({ actor: "DM", content: `${name} enters the campaign with basic equipment.`, ts: Date.now() });
+      // First time we see the player: build their sheet and announce their arrival.
+      const created = character ? createCharacter(character) : { ok: true as const, sheet: defaultCharacter() };
+      if (!created.ok) {
+        return new Response(JSON.stringify({ error: "Invalid character", details: created.errors }), { status: 400, headers: JSON_HEADERS });
+      }
+      const { sheet } = created;
+      const player: Player = { id: playerId, name, hp: sheet.maxHp, ...starterKit(), character: sheet };
+      this.players.set(playerId, player);
+      this.ownerId = this.ownerId ?? playerId;
+      this.appendMessage("DM", `${name} the ${sheet.race} ${sheet.className} enters the campaign with basic equipment.`);
+
+      // Arriving mid-fight means rolling in without disturbing whoever is acting now.
+      const entry = addCombatant(this.combat, playerCombatant(player), this.rng);
+      if (entry) {
+        this.appendMessage("DM", `${name} joins the fight with initiative ${entry.total} (d20 ${entry.roll}${entry.modifier >= 0 ? "+" : ""}${entry.modifier}).`);
+      }
     } else {
       const existing = this.players.get(playerId)!;
       if (existing.name !== name) {
-        this.messages.push({ actor: "DM", content: `${existing.name} is now known as ${name}.`, ts: Date.now() });
+        this.appendMessage("DM", `${existing.name} is now known as ${name}.`);
         existing.name = name;
       }
     }
 
+    // Persisting also registers the session with the global lobby the first time.
+    this.broadcastState();
     this.touch();
     await this.persist();
 
-    if (wasEmpty) {
-      // Register with the global lobby so other clients can discover the session.
-      await this.registry.add(sessionId);
-    }
+    return this.seated(secret, playerId);
+  }
 
-    return new Response(JSON.stringify({ ok: true, players: this.getPlayers(), messages: this.getRecentMessages() }), { headers: JSON_HEADERS });
+  /**
+   * Whether new players must present the invite code. Player IDs are chosen by clients, so a ban alone
+   * would not keep anyone out who comes back under a new ID; once the owner bans someone, new players
+   * need the code in every session, not just private ones.
+   */
+  private needsInvite(): boolean {
+    return this.settings?.visibility === "private" || this.banned.size > 0;
   }
 
-  private async handleState(): Promise<Response> {
-    this.touch();
-    await this.persist();
+  /**
+   * The join response: the player's token for this session and what they need to sit down.
+   */
+  private async seated(secret: string, playerId: string): Promise<Response> {
+    const token = await signPlayerToken(secret, this.sessionId!, playerId);
     return new Response(JSON.stringify({
+      ok: true,
+      token,
+      ownerId: this.ownerId,
+      // Only the owner is shown the code, to pass on to whoever they invite.
+      inviteCode: playerId === this.ownerId ? this.inviteCode ?? undefined : undefined,
+      importedFrom: this.importedFrom ?? undefined,
       players: this.getPlayers(),
       messages: this.getRecentMessages(),
-      combat: this.combat,
     }), { headers: JSON_HEADERS });
   }
 
-  private async handleAction(request: Request): Promise<Response> {
-    const payload = await this.parseBody<ActionPayload>(request, isActionPayload);
-    if (!payload) {
-      if (IS_LOCAL_DEV) {
-        console.warn("[SessionCoordinator] Invalid action payload", { sessionId: this.sessionId, payload });
-      }
-      return new Response(JSON.stringify({ error: "Invalid action payload" }), { status: 400, headers: JSON_HEADERS });
-    }
-
-    const { sessionId, playerId, playerAction } = payload;
-    this.sessionId = this.sessionId ?? sessionId;
-    const player = this.players.get(playerId);
-    if (!player) {
-      if (IS_LOCAL_DEV) {
-        console.warn("[SessionCoordinator] Player not joined", {
-          sessionId: this.sessionId,
-          requestedPlayerId: playerId,
-          knownPlayers: Array.from(this.players.keys()),
-        });
-      }
-      return new Response(JSON.stringify({ error: "Player not joined." }), { status: 400, headers: JSON_HEADERS });
-    }
-
-    if (this.isEndCommand(playerAction)) {
-      // Explicit end command wipes local state immediately instead of waiting for idle cleanup.
-      const dmText = "The game has ended. Thank you for playing!";
-      this.messages.push({ actor: player.name, content: playerAction, ts: Date.now() });
-      this.messages.push({ actor: "DM", content: dmText, ts: Date.now() });
-      await this.registry.remove(sessionId);
-      this.resetState();
-      await this.persist();
-      return new Response(
-        JSON.stringify({ result: dmText, reset: true, state: { players: [], combat: this.combat } }),
-        { headers: JSON_HEADERS },
-      );
+  /**
+   * The whole campaign as a versioned JSON archive, or as a Markdown transcript to read.
+   */
+  private async handleExport(request: Request, url: URL): Promise<Response> {
+    if (!(await this.canRead(request, url))) return this.privateSession();
+    if (!this.sessionId || !this.settings || this.players.size === 0) {
+      return new Response(JSON.stringify({ error: "There is no campaign to export." }), { status: 404, headers: JSON_HEADERS });
     }
 
-    const context: SessionContext = {
+    // Every mutation persists before it answers, so storage holds the complete transcript.
+    const archive: CampaignArchive = {
+      format: ARCHIVE_FORMAT,
+      version: ARCHIVE_VERSION,
+      exportedAt: Date.now(),
+      sessionId: this.sessionId,
+      settings: this.settings,
+      createdAt: this.createdAt,
+      ownerId: this.ownerId,
+      banned: Array.from(this.banned),
       players: this.getPlayers(),
-      messages: this.getRecentMessages(),
       combat: this.combat,
+      memory: this.memory,
+      messages: await this.storageManager.loadMessages({ after: 0, limit: this.nextSeq }),
     };
-
-    const narration = await this.dm.narrate(context, player, playerAction);
+    if (url.searchParams.get("format") === "markdown") {
+      return new Response(archiveToMarkdown(archive), {
+        headers: { "Content-Type": "text/markdown; charset=utf-8", "Content-Disposition": `attachment; filename="${archiveFilename(this.settings.title, "md")}"` },
+      });
+    }
+    return new Response(JSON.stringify(archive), {
+      headers: { ...JSON_HEADERS, "Content-Disposition": `attachment; filename="${archiveFilename(this.settings.title, "json")}"` },
+    });
+  }
+
+  /**
+   * Restore an archive into this session, which must be empty. The importer owns the restored session;
+   * everyone else in the archive claims their seat by joining with their token from the original session.
+   * Review drafts and the invite code are not archived; a restored private session gets a new code.
+   */
+  private async handleImport(request: Request): Promise<Response> {
+    const payload = await this.parseBody<ImportPayload>(request, isImportPayload);
+    if (!payload) {
+      return new Response(JSON.stringify({ error: "Invalid campaign archive" }), { status: 400, headers: JSON_HEADERS });
+    }
+
+    const { sessionId, playerId, archive } = payload;
+    const secret = this.env.PLAYER_TOKEN_SECRET;
+    if (!secret) {
+      return new Response(JSON.stringify({ error: "Player tokens are not configured" }), { status: 500, headers: JSON_HEADERS });
+    }
+    if (this.players.size > 0) {
+      return new Response(JSON.stringify({ error: "That session is in use; restore into a new one." }), { status: 409, headers: JSON_HEADERS });
+    }
+    const importer = archive.players.find(player => player.id === playerId);
+    if (!importer) {
+      return new Response(JSON.stringify({ error: "Only a player from the archived campaign can restore it." }), { status: 403, headers: JSON_HEADERS });
+    }
+
+    const last = archive.messages[archive.messages.length - 1];
+    await this.storageManager.clearMessages();
+    this.sessionId = sessionId;
+    this.players = new Map(archive.players.map(player => [player.id, restorePlayer(player)]));
+    this.messages = archive.messages;
+    this.nextSeq = last ? last.seq + 1 : 1;
+    this.storedThrough = 0;
+    const { active, turnOrder, currentTurnIndex, enemies, round, initiative, readied, reactionsUsed } = archive.combat;
+    this.combat = { active, turnOrder, currentTurnIndex, enemies, round, initiative, readied, reactionsUsed };
+    this.memory = archive.memory;
+    // An archive from another server may name a model this one cannot serve; it gets the default.
+    const llm = archive.settings.llm ?? null;
+    this.settings = createSettings({ ...archive.settings, llm: unavailableModel(this.env, llm) ? null : llm }, sessionId);
+    this.dm = this.dungeonMaster(this.settings.llm);
+    this.ownerId = playerId;
+    this.banned = new Set(archive.banned);
+    this.inviteCode = this.needsInvite() ? createInviteCode() : null;
+    this.createdAt = archive.createdAt;
+    this.drafts = [];
+    this.checkpoints = [];
+    this.importedFrom = archive.sessionId;
+    this.appendMessage("DM", `${importer.name} restores the campaign from ${archive.sessionId}. The story continues.`);
+
+    this.broadcastState();
+    this.touch();
+    await this.persist();
+    return this.seated(secret, playerId);
+  }
+
+  // Players restored from an archive may still hold only their token from the original session.
+  private async holdsSeat(secret: string, playerId: string, token: string): Promise<boolean> {
+    for (const sessionId of [this.sessionId, this.importedFrom]) {
+      if (sessionId && (await verifyPlayerToken(secret, sessionId, playerId, token))) return true;
+    }
+    return false;
+  }
+
+  private async handleState(request: Request, url: URL): Promise<Response> {
+    if (!(await this.canRead(request, url))) return this.privateSession();
+    // Reads only refresh the in-memory activity clock; storage is written by mutations alone.
+    this.touch();
+    return new Response(JSON.stringify({
+      players: this.getPlayers(),
+      messages: this.getRecentMessages(),
+      combat: this.combat,
+      ownerId: this.ownerId,
+      importedFrom: this.importedFrom ?? undefined,
+    }), { headers: JSON_HEADERS });
+  }
+
+  /**
+   * Page backwards through the stored transcript, newest page first.
+   */
+  private async handleHistory(request: Request, url: URL): Promise<Response> {
+    if (!(await this.canRead(request, url))) return this.privateSession();
+    const query = parseHistoryQuery(url.searchParams);
+    if (!query) {
+      return new Response(JSON.stringify({ error: "Invalid history query" }), { status: 400, headers: JSON_HEADERS });
+    }
+    const messages = await this.storageManager.loadMessages({ before: query.before ?? this.nextSeq, limit: query.limit });
+    // Seqs run 1, 2, 3... without gaps, so the page reaching seq 1 means there is nothing older.
+    const oldest = messages[0];
+    const page: HistoryPage = { messages, nextCursor: oldest && oldest.seq > 1 ? oldest.seq : null };
+    return new Response(JSON.stringify(page), { headers: JSON_HEADERS });
+  }
+
+  /**
+   * Run a player's action. With `stream` the DM's narration is relayed over server-sent events as
+   * it is written; rejections and actions that need no DM (speech, /end) still answer with JSON.
+   */
+  private async handleAction(request: Request, stream = false): Promise<Response> {
+    const payload = await this.parseBody<ActionPayload>(request, isActionPayload);
+    if (!payload) {
+      if (IS_LOCAL_DEV) {
+        console.warn("[SessionCoordinator] Invalid action payload", { sessionId: this.sessionId, payload });
+      }
+      return new Response(JSON.stringify({ error: "Invalid action payload" }), { status: 400, headers: JSON_HEADERS });
+    }
+
+    const { sessionId, playerId, playerAction } = payload;
+    this.sessionId = this.sessionId ?? sessionId;
+    const player = this.players.get(playerId);
+    if (!player) {
+      if (IS_LOCAL_DEV) {
+        console.warn("[SessionCoordinator] Player not joined", {
+          sessionId: this.sessionId,
+          requestedPlayerId: playerId,
+          knownPlayers: Array.from(this.players.keys()),
+        });
+      }
+      return new Response(JSON.stringify({ error: "Player not joined." }), { status: 400, headers: JSON_HEADERS });
+    }
+
+    if (this.isEndCommand(playerAction)) {
+      if (playerId !== this.ownerId) {
+        return new Response(JSON.stringify({ error: "Only the session owner can end the session." }), { status: 403, headers: JSON_HEADERS });
+      }
+      const dmText = await this.endSession();
+      return new Response(
+        JSON.stringify({ result: dmText, reset: true, state: { players: [], combat: this.combat } }),
+        { headers: JSON_HEADERS },
+      );
+    }
+
+    if (this.rerolling) {
+      return new Response(JSON.stringify({ error: "The DM is answering the last turn again; try again in a moment." }), { status: 409, headers: JSON_HEADERS });
+    }
+
+    if (isDown(player)) {
+      return this.handleDownedAction(player);
+    }
+
+    // In combat the initiative order decides who may act; reactions and speech are the only exceptions.
+    const combatAction = this.combat.active ? classifyCombatAction(playerAction) : null;
+    let turn: TurnContext | undefined;
+    let readied: ReadiedAction | undefined;
+    if (combatAction?.kind === "speech") {
+      // Talking is free: it goes straight to the transcript without a DM reply or a turn.
+      this.appendMessage(player.name, playerAction);
+      this.touch();
+      await this.persist();
+      return new Response(
+        JSON.stringify({ result: null, speech: true, reset: false, state: { players: this.getPlayers(), combat: this.combat } }),
+        { headers: JSON_HEADERS },
+      );
+    }
+    if (combatAction?.kind === "reaction") {
+      readied = this.combat.readied.find(entry => entry.id === player.id);
+      const error = useReaction(this.combat, player.id);
+      if (error) {
+        return new Response(JSON.stringify({ error, currentTurn: actingPlayer(this.combat, this.canAct)?.name ?? null }), { status: 409, headers: JSON_HEADERS });
+      }
+      turn = { kind: "reaction", enemiesFirst: [], readied: readied?.trigger };
+    } else if (combatAction) {
+      const acting = actingPlayer(this.combat, this.canAct);
+      if (this.resolvingTurn) {
+        const resolving = this.players.get(this.resolvingTurn)?.name ?? "The previous";
+        return new Response(JSON.stringify({ error: `${resolving}'s turn is still being resolved.`, currentTurn: acting?.name ?? null }), { status: 409, headers: JSON_HEADERS });
+      }
+      const reviewing = this.turnInReview();
+      if (reviewing) {
+        return new Response(JSON.stringify({ error: `${reviewing.playerName}'s turn is waiting on the DM.`, currentTurn: acting?.name ?? null }), { status: 409, headers: JSON_HEADERS });
+      }
+      if (acting && acting.id !== player.id) {
+        return new Response(
+          JSON.stringify({ error: `It is ${acting.name}'s turn. Tag a reaction with /react or speak with /say.`, currentTurn: acting.name }),
+          { status: 409, headers: JSON_HEADERS },
+        );
+      }
+      if (acting) {
+        turn = { kind: "turn", enemiesFirst: enemiesBefore(this.combat, player.id).map(entry => entry.name) };
+        this.resolvingTurn = player.id;
+      }
+    }
+
+    const resolve = (onChunk?: (chunk: NarrationChunk) => void) =>
+      this.resolveAction(player, playerAction, combatAction?.text ?? playerAction, turn, readied, onChunk);
+    const release = () => {
+      if (this.resolvingTurn === player.id) {
+        this.resolvingTurn = null;
+      }
+    };
+    if (stream) {
+      return this.streamAction(resolve, release);
+    }
+    try {
+      return new Response(JSON.stringify(await resolve()), { headers: JSON_HEADERS });
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Answer with an event stream right away and resolve the action behind it. The turn stays locked
+   * until the stream completes; a client that hangs up early does not stop it from being applied.
+   */
+  private streamAction(
+    resolve: (onChunk: (chunk: NarrationChunk) => void) => Promise<ActionResult | PendingActionResult>,
+    release: () => void,
+  ): Response {
+    const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+    const writer = writable.getWriter();
+    const encoder = new TextEncoder();
+    const send = (event: ActionStreamEvent) => {
+      writer.write(encoder.encode(formatSse(event))).catch(() => {});
+    };
+
+    (async () => {
+      try {
+        const result = await resolve(({ channel, text }) => send({ event: channel, data: { text } }));
+        send({ event: "done", data: result });
+      } catch (error) {
+        console.error("[SessionCoordinator] Streamed action failed", error);
+        send({ event: "error", data: { error: "Failed to resolve action." } });
+      } finally {
+        release();
+        writer.close().catch(() => {});
+      }
+    })();
+
+    return new Response(readable, { headers: SSE_HEADERS });
+  }
+
+  /**
+   * Narrate an accepted action, apply its outcomes and, for a combat turn, move initiative along exactly once.
+   * In review mode the narration becomes a draft for the DM instead, and nothing is applied yet.
+   */
+  private async resolveAction(
+    player: Player,
+    playerAction: string,
+    dmAction: string,
+    turn: TurnContext | undefined,
+    readied: ReadiedAction | undefined,
+    onChunk?: (chunk: NarrationChunk) => void,
+  ): Promise<ActionResult | PendingActionResult> {
+    const context: SessionContext = {
+      players: this.getPlayers(),
+      messages: recentMessages(this.memory, this.messages),
+      combat: this.combat,
+      memory: this.memory,
+      rolls: { declared: [], tray: rollDiceTray(this.rng) },
+      turn,
+    };
+
+    // Taken before anything else changes; the reaction this action may have used is already spent.
+    const before = { players: structuredClone(Array.from(this.players.entries())), combat: structuredClone(this.combat) };
+
+    // Publish the action right away so other tables see it while the DM is still thinking.
+    const action = this.appendMessage(player.name, playerAction);
+
+    // Dice written inline ("I swing 1d20+5") are rolled here and logged before the DM sees them.
+    for (const notation of findNotations(playerAction)) {
+      const draw = this.dice.draws;
+      const roll = rollNotation(notation, this.rng)!;
+      context.rolls!.declared.push(roll);
+      this.appendMessage(player.name, formatRoll(roll), { type: "roll", rolls: [roll], draw });
+    }
+
+    if (this.settings?.review) {
+      // Only the DM sees the draft, so there is nothing to stream to the player.
+      const narration = await this.dm.narrate(context, player, dmAction);
+      const draft: PendingDraft = {
+        id: crypto.randomUUID(),
+        playerId: player.id,
+        playerName: player.name,
+        action: playerAction,
+        text: narration.text,
+        thinking: narration.thinking,
+        effects: narration.effects,
+        degraded: narration.degraded,
+        createdAt: Date.now(),
+        seq: action.seq,
+        dmAction,
+        turn,
+        readied,
+        rolls: context.rolls!,
+      };
+      this.drafts.push(draft);
+      this.broadcastDrafts();
+      this.touch();
+      await this.persist();
+      return { result: null, pending: true, draftId: draft.id, reset: false, state: { players: this.getPlayers(), combat: this.combat } };
+    }
+
+    // Effects and persistence wait for the complete narration, streamed or not.
+    const responseSeq = this.nextSeq;
+    const narration = onChunk
+      ? await this.dm.narrateStream(context, player, dmAction, onChunk)
+      : await this.dm.narrate(context, player, dmAction);
+    // Anything written while the DM was thinking would be lost by undoing this turn, so it gets no checkpoint.
+    const uninterrupted = this.nextSeq === responseSeq;
+    const outcome = this.applyNarration(player, narration, turn, readied);
+    if (uninterrupted) {
+      this.checkpoints = [...this.checkpoints, {
+        playerId: player.id,
+        playerName: player.name,
+        dmAction,
+        turn,
+        readied,
+        rolls: context.rolls!,
+        actionSeq: action.seq,
+        responseSeq,
+        endSeq: this.nextSeq,
+        ...before,
+        narration,
+        variants: [],
+      }].slice(-MAX_CHECKPOINTS);
+    }
+    this.broadcastState();
+
+    this.touch();
+    await this.persist();
+    // The summary is another model call; the player should not wait on it.
+    this.state.waitUntil(this.compactMemory());
+
+    return {
+      result: narration.text,
+      thinking: narration.thinking,
+      degraded: narration.degraded,
+      reset: false,
+      outcome,
+      state: { players: this.getPlayers(), combat: this.combat },
+    };
+  }
+
+  /**
+   * Publish a finished narration and apply its effects: turn bookkeeping, HP, XP and the end of a fight.
+   * Returns "defeat" when it wiped out the party.
+   */
+  private applyNarration(
+    player: Player,
+    narration: NarrationResult,
+    turn: TurnContext | undefined,
+    readied: ReadiedAction | undefined,
+  ): "defeat" | undefined {
+    const combatWasActive = this.combat.active;
+    let outcome: "defeat" | undefined;
+    // Narration goes first so turn bookkeeping (condition saves, expiries) reads in order after it.
+    this.appendMessage("DM", narration.text);
     if (!narration.degraded) {
+      // Only a turn action moves initiative; the action that starts a fight does not use up a turn
+      // in the freshly rolled order, and completeTurn ignores anything that is no longer this player's turn.
+      // The turn closes before this narration's effects land, so a condition inflicted now lasts through
+      // the bearer's next turn.
+      if (turn?.kind === "turn" && this.combat.active) {
+        completeTurn(this.combat, player.id, this.endTurn, this.canAct);
+        if (IS_LOCAL_DEV) {
+          console.log(`[Turn Advanced] Now: ${this.getCurrentTurn()}`);
+        }
+      }
+
       // Log player states before damage application
       if (IS_LOCAL_DEV) {
         console.log('[Pre-effect] Player states:', this.getPlayers().map(p => `${p.name}: ${p.hp}HP`));
         console.log('[Pre-effect] Combat state:', this.combat);
         console.log('[DM Response]:', narration.text);
       }
-      
-      // Only mutate HP totals if the AI response is trustworthy.
-      this.effects.apply(narration.text, this.players, this.combat);
-      
-      // Advance turn if in combat and this was a combat action
-      if (this.combat.active && this.isPlayerTurn(player.id)) {
-        this.nextTurn();
-        if (IS_LOCAL_DEV) {
-          console.log(`[Turn Advanced] Now: ${this.getCurrentTurn()}`);
+
+      const vitals = new Map<string, Vitals>(Array.from(this.players.values(), p => [p.id, vitalsOf(p)]));
+      const progress = new Map<string, Progress>(Array.from(this.players.values(), p => [p.id, progressOf(p)]));
+      // Ending the fight wipes the enemy list, so keep hold of it for the XP award.
+      const foes = this.combat.enemies;
+      // Only mutate HP totals if the AI response is trustworthy. Prefer the structured block and
+      // fall back to scraping the prose when the model omitted it or produced something invalid.
+      if (narration.effects) {
+        this.effectApplier.apply(narration.effects, this.players, this.combat);
+      } else {
+        this.effects.apply(narration.text, this.players, this.combat);
+      }
+      for (const p of this.players.values()) {
+        const change = describeVitalChange(vitals.get(p.id)!, p);
+        if (change) this.appendMessage("DM", change);
+      }
+
+      if (this.combat.active && this.isPartyDown()) {
+        resetCombat(this.combat);
+        outcome = "defeat";
+        this.appendMessage("DM", "The whole party has fallen. The battle is lost.");
+      } else if (combatWasActive && !this.combat.active) {
+        const award = combatAward(this.getPlayers(), foes);
+        const line = describeCombatAward(award);
+        if (line) {
+          this.appendMessage("DM", line);
+          award.recipients.forEach(p => gainXp(p, award.share));
         }
       }
-      
+      for (const p of this.players.values()) {
+        describeProgress(progress.get(p.id)!, p).forEach(change => this.appendMessage("DM", change));
+      }
+
       // Log states after effect application
       if (IS_LOCAL_DEV) {
         console.log('[Post-effect] Player states:', this.getPlayers().map(p => `${p.name}: ${p.hp}HP`));
         console.log('[Post-effect] Combat state:', this.combat);
       }
+    } else {
+      // The DM never resolved a reaction, so give it back.
+      this.returnReaction(player, turn, readied);
+    }
+
+    if (combatWasActive && !this.combat.active) {
+      for (const p of this.players.values()) {
+        const ended = clearTimedConditions(p);
+        if (ended.length > 0) {
+          this.appendMessage("DM", `With the fight over, ${p.name} is no longer ${ended.join(" or ")}.`);
+        }
+      }
+    }
+    if (!combatWasActive && this.combat.active) {
+      this.appendMessage("DM", describeInitiative(this.combat));
+    }
+    return outcome;
+  }
+
+  private returnReaction(player: Player, turn: TurnContext | undefined, readied: ReadiedAction | undefined) {
+    if (turn?.kind !== "reaction" || !this.combat.active) return;
+    this.combat.reactionsUsed = this.combat.reactionsUsed.filter(id => id !== player.id);
+    if (readied) this.combat.readied.push(readied);
+  }
+
+  /**
+   * Unconscious and dead characters cannot act. Outside combat a dying character's action becomes
+   * their death save, since there is no turn order to roll it on.
+   */
+  private async handleDownedAction(player: Player): Promise<Response> {
+    if (isDead(player)) {
+      return new Response(JSON.stringify({ error: `${player.name} is dead and can no longer act.` }), { status: 409, headers: JSON_HEADERS });
+    }
+    if (this.combat.active || !isDying(player)) {
+      const reason = isDying(player) ? "death saves are rolled at the end of their turn" : "they are stable and wake when healed";
+      return new Response(JSON.stringify({ error: `${player.name} is unconscious; ${reason}.` }), { status: 409, headers: JSON_HEADERS });
+    }
+
+    const result = rollDeathSave(player, this.rng)!;
+    this.appendMessage("DM", result);
+    this.broadcastState();
+    this.touch();
+    await this.persist();
+    return new Response(
+      JSON.stringify({ result, deathSave: true, reset: false, state: { players: this.getPlayers(), combat: this.combat } }),
+      { headers: JSON_HEADERS },
+    );
+  }
+
+  /**
+   * Delay or ready the caller's turn in the initiative order.
+   */
+  private async handleTurn(request: Request): Promise<Response> {
+    const payload = await this.parseBody<TurnPayload>(request, isTurnPayload);
+    if (!payload) {
+      return new Response(JSON.stringify({ error: "Invalid turn payload" }), { status: 400, headers: JSON_HEADERS });
+    }
+
+    const { playerId, intent, after, trigger } = payload;
+    const player = this.players.get(playerId);
+    if (!player) {
+      return new Response(JSON.stringify({ error: "Player not joined." }), { status: 400, headers: JSON_HEADERS });
+    }
+    if (!this.combat.active) {
+      return new Response(JSON.stringify({ error: "There is no combat in progress." }), { status: 409, headers: JSON_HEADERS });
+    }
+    if (this.resolvingTurn || this.turnInReview()) {
+      return new Response(JSON.stringify({ error: "Wait for the current turn to resolve." }), { status: 409, headers: JSON_HEADERS });
+    }
+    const waitingOn = enemiesBefore(this.combat, playerId);
+    if (actingPlayer(this.combat, this.canAct)?.id === playerId && waitingOn.length > 0) {
+      // Enemy turns are only narrated alongside a player action, so they cannot be skipped by delaying.
+      return new Response(
+        JSON.stringify({ error: `${waitingOn.map(entry => entry.name).join(", ")} act before you; describe your action instead.` }),
+        { status: 409, headers: JSON_HEADERS },
+      );
+    }
+
+    let error: string | null;
+    let announcement: string;
+    if (intent === "delay") {
+      const target = after ? this.combat.initiative.find(entry => entry.name.toLowerCase() === after.trim().toLowerCase()) : undefined;
+      if (after && !target) {
+        return new Response(JSON.stringify({ error: `No combatant named ${after}.` }), { status: 400, headers: JSON_HEADERS });
+      }
+      error = delayTurn(this.combat, playerId, target?.id);
+      announcement = `${player.name} delays their turn${target ? ` until after ${target.name}` : " to the end of the round"}.`;
+    } else {
+      const readiedTrigger = trigger?.trim() || "an unspecified trigger";
+      error = readyAction(this.combat, playerId, readiedTrigger, this.endTurn);
+      announcement = `${player.name} readies an action: ${readiedTrigger}.`;
+    }
+
+    if (error) {
+      return new Response(JSON.stringify({ error, currentTurn: this.getCurrentTurn() }), { status: 409, headers: JSON_HEADERS });
+    }
+
+    this.appendMessage("DM", `${announcement} ${this.getCurrentTurn()} is up.`);
+    this.broadcastState();
+    this.touch();
+    await this.persist();
+
+    return new Response(JSON.stringify({ ok: true, combat: this.combat }), { headers: JSON_HEADERS });
+  }
+
+  /**
+   * Owner-only table management: kick or ban a player, hand ownership to someone else, replace the
+   * invite code, or end the session.
+   */
+  private async handleModeration(request: Request): Promise<Response> {
+    const payload = await this.parseBody<ModerationPayload>(request, isModerationPayload);
+    if (!payload) {
+      return new Response(JSON.stringify({ error: "Invalid moderation payload" }), { status: 400, headers: JSON_HEADERS });
+    }
+
+    const { playerId, intent, target } = payload;
+    const owner = this.players.get(playerId);
+    if (!owner) {
+      return new Response(JSON.stringify({ error: "Player not joined." }), { status: 400, headers: JSON_HEADERS });
+    }
+    if (playerId !== this.ownerId) {
+      return new Response(JSON.stringify({ error: "Only the session owner can do that." }), { status: 403, headers: JSON_HEADERS });
+    }
+    if (intent === "end") {
+      const dmText = await this.endSession();
+      return new Response(JSON.stringify({ ok: true, reset: true, message: dmText }), { headers: JSON_HEADERS });
+    }
+    if (intent === "invite") {
+      if (!this.needsInvite()) {
+        return new Response(JSON.stringify({ error: "Only private sessions and sessions with bans use invite codes." }), { status: 409, headers: JSON_HEADERS });
+      }
+      // Players already at the table keep their seats; only new joiners need the new code.
+      this.inviteCode = createInviteCode();
+      this.touch();
+      await this.persist();
+      return new Response(JSON.stringify({ ok: true, inviteCode: this.inviteCode }), { headers: JSON_HEADERS });
+    }
+
+    const subject = target ? this.players.get(target) : undefined;
+    if (!subject) {
+      return new Response(JSON.stringify({ error: "No such player in this session." }), { status: 400, headers: JSON_HEADERS });
+    }
+    if (subject.id === playerId) {
+      return new Response(JSON.stringify({ error: "That is you; hand the session over or end it instead." }), { status: 400, headers: JSON_HEADERS });
+    }
+
+    if (intent === "transfer") {
+      // In review mode the DM role and its queue go with the session.
+      this.ownerId = subject.id;
+      this.appendMessage("DM", `${owner.name} hands the session over to ${subject.name}.`);
+    } else {
+      if (this.resolvingTurn === subject.id) {
+        return new Response(JSON.stringify({ error: `Wait for ${subject.name}'s turn to resolve.` }), { status: 409, headers: JSON_HEADERS });
+      }
+      this.players.delete(subject.id);
+      removeCombatant(this.combat, subject.id);
+      this.drafts = this.drafts.filter(draft => draft.playerId !== subject.id);
+      if (intent === "ban") this.banned.add(subject.id);
+      this.appendMessage("DM", `${subject.name} has been ${intent === "ban" ? "banned" : "removed"} from the table.`);
+    }
+
+    // The first ban closes the door to uninvited players; the owner gets a code to let others in.
+    const issued = intent === "ban" && this.inviteCode === null;
+    if (issued) this.inviteCode = createInviteCode();
+
+    this.broadcastState();
+    this.broadcastDrafts();
+    if (intent !== "transfer") this.disconnect(subject.id);
+    this.touch();
+    await this.persist();
+
+    return new Response(JSON.stringify({
+      ok: true,
+      ownerId: this.ownerId,
+      players: this.getPlayers(),
+      inviteCode: issued ? this.inviteCode : undefined,
+    }), { headers: JSON_HEADERS });
+  }
+
+  /**
+   * Review mode: the DM approves, edits, regenerates or rejects a draft. Approving is the only way a
+   * draft reaches the table or changes the game; rejecting leaves the player free to act again.
+   */
+  private async handleReview(request: Request): Promise<Response> {
+    const payload = await this.parseBody<ReviewPayload>(request, isReviewPayload);
+    if (!payload) {
+      return new Response(JSON.stringify({ error: "Invalid review payload" }), { status: 400, headers: JSON_HEADERS });
+    }
+
+    const { playerId, intent, draftId, text, effects } = payload;
+    if (!this.players.has(playerId)) {
+      return new Response(JSON.stringify({ error: "Player not joined." }), { status: 400, headers: JSON_HEADERS });
+    }
+    if (!this.settings?.review) {
+      return new Response(JSON.stringify({ error: "This session is not in review mode." }), { status: 409, headers: JSON_HEADERS });
+    }
+    if (playerId !== this.ownerId) {
+      return new Response(JSON.stringify({ error: "Only the DM can review drafts." }), { status: 403, headers: JSON_HEADERS });
+    }
+    const draft = this.drafts.find(entry => entry.id === draftId);
+    if (!draft) {
+      return new Response(JSON.stringify({ error: "No such draft; it may already have been decided." }), { status: 404, headers: JSON_HEADERS });
+    }
+    if (this.regenerating.has(draft.id)) {
+      return new Response(JSON.stringify({ error: "That draft is still being regenerated." }), { status: 409, headers: JSON_HEADERS });
     }
 
-    this.messages.push({ actor: player.name, content: playerAction, ts: Date.now() });
-    this.messages.push({ actor: "DM", content: narration.text, ts: Date.now() });
+    // Drafts are dropped when their player leaves, so the author is always at the table.
+    const author = this.players.get(draft.playerId)!;
+    switch (intent) {
+      case "edit":
+        if (text !== undefined) {
+          // The DM's own words stand in for a failed draft.
+          draft.text = text;
+          draft.degraded = false;
+        }
+        if (effects !== undefined) draft.effects = effects;
+        break;
+      case "regenerate": {
+        this.regenerating.add(draft.id);
+        try {
+          const narration = await this.dm.narrate(this.draftContext(draft), author, draft.dmAction);
+          Object.assign(draft, { text: narration.text, thinking: narration.thinking, effects: narration.effects, degraded: narration.degraded });
+        } finally {
+          this.regenerating.delete(draft.id);
+        }
+        break;
+      }
+      case "approve":
+        this.drafts = this.drafts.filter(entry => entry !== draft);
+        this.applyNarration(author, draft, draft.turn, draft.readied);
+        break;
+      case "reject":
+        this.drafts = this.drafts.filter(entry => entry !== draft);
+        this.returnReaction(author, draft.turn, draft.readied);
+        this.appendMessage("DM", text ?? `The DM sets ${author.name}'s action aside; try something else.`);
+        break;
+    }
 
+    this.broadcastState();
+    this.broadcastDrafts();
     this.touch();
     await this.persist();
+    this.state.waitUntil(this.compactMemory());
 
     return new Response(
-      JSON.stringify({
-        result: narration.text,
-        thinking: narration.thinking,
-        degraded: narration.degraded,
-        reset: false,
-        state: { players: this.getPlayers(), combat: this.combat },
-      }),
+      JSON.stringify({ ok: true, drafts: this.reviewDrafts(), state: { players: this.getPlayers(), combat: this.combat } }),
       { headers: JSON_HEADERS },
     );
   }
 
+  /**
+   * The review queue, for the DM only. Connected DMs also get it pushed over their WebSocket.
+   */
+  private async handleDrafts(request: Request, url: URL): Promise<Response> {
+    const reader = await this.readerOf(request, url);
+    if (!reader || reader !== this.ownerId) {
+      return new Response(JSON.stringify({ error: "Only the DM can see drafts." }), { status: 403, headers: JSON_HEADERS });
+    }
+    return new Response(JSON.stringify({ review: this.settings?.review ?? false, drafts: this.reviewDrafts() }), { headers: JSON_HEADERS });
+  }
+
+  /**
+   * The owner takes back the last turn, or has the DM answer it again. Both restore the players and
+   * combat from before the DM's answer and drop the messages it wrote; undo also drops the action and
+   * its dice. Earlier turns can be undone in turn as long as nothing else happened in between.
+   */
+  private async handleRewind(request: Request): Promise<Response> {
+    const payload = await this.parseBody<RewindPayload>(request, isRewindPayload);
+    if (!payload) {
+      return new Response(JSON.stringify({ error: "Invalid rewind payload" }), { status: 400, headers: JSON_HEADERS });
+    }
+
+    const { playerId, intent } = payload;
+    if (!this.players.has(playerId)) {
+      return new Response(JSON.stringify({ error: "Player not joined." }), { status: 400, headers: JSON_HEADERS });
+    }
+    if (playerId !== this.ownerId) {
+      return new Response(JSON.stringify({ error: "Only the session owner can undo or reroll turns." }), { status: 403, headers: JSON_HEADERS });
+    }
+    if (this.settings?.review) {
+      return new Response(JSON.stringify({ error: "In review mode the DM vets every answer; regenerate or reject drafts instead." }), { status: 409, headers: JSON_HEADERS });
+    }
+    if (this.rerolling) {
+      return new Response(JSON.stringify({ error: "The last turn is already being rerolled." }), { status: 409, headers: JSON_HEADERS });
+    }
+    const checkpoint = this.checkpoints[this.checkpoints.length - 1];
+    if (!checkpoint || checkpoint.endSeq !== this.nextSeq) {
+      return new Response(JSON.stringify({ error: "There is no turn to take back; only the latest DM answer can be undone or rerolled." }), { status: 409, headers: JSON_HEADERS });
+    }
+    if (this.memory.summarizedThrough >= checkpoint.actionSeq) {
+      return new Response(JSON.stringify({ error: "That turn is already part of the campaign memory." }), { status: 409, headers: JSON_HEADERS });
+    }
+
+    if (intent === "undo") {
+      this.checkpoints = this.checkpoints.slice(0, -1);
+      this.rewindTo(checkpoint, checkpoint.actionSeq, intent);
+      // The checkpoint was taken after the action spent its reaction, so hand that back too.
+      this.returnReaction(this.players.get(checkpoint.playerId)!, checkpoint.turn, checkpoint.readied);
+      this.broadcastState();
+      this.touch();
+      await this.persist();
+      return new Response(
+        JSON.stringify({ ok: true, state: { players: this.getPlayers(), combat: this.combat } }),
+        { headers: JSON_HEADERS },
+      );
+    }
+
+    this.rerolling = true;
+    try {
+      this.rewindTo(checkpoint, checkpoint.responseSeq, intent);
+      const author = this.players.get(checkpoint.playerId)!;
+      const context: SessionContext = {
+        players: this.getPlayers(),
+        messages: recentMessages(this.memory, this.messages.filter(message => message.seq < checkpoint.actionSeq)),
+        combat: this.combat,
+        memory: this.memory,
+        rolls: checkpoint.rolls,
+        turn: checkpoint.turn,
+      };
+      const narration = await this.dm.narrate(context, author, checkpoint.dmAction);
+      // As with a new turn, undoing or rerolling again would lose anything written while the DM was thinking.
+      const uninterrupted = this.nextSeq === checkpoint.responseSeq;
+      const { text, thinking, effects, degraded } = checkpoint.narration;
+      checkpoint.variants = [...checkpoint.variants, { text, thinking, effects, degraded, discardedAt: Date.now() }].slice(-MAX_DISCARDED_VARIANTS);
+      checkpoint.narration = narration;
+      const outcome = this.applyNarration(author, narration, checkpoint.turn, checkpoint.readied);
+      if (uninterrupted) {
+        checkpoint.endSeq = this.nextSeq;
+      } else {
+        this.checkpoints = this.checkpoints.filter(saved => saved !== checkpoint);
+      }
+      this.broadcastState();
+      this.touch();
+      await this.persist();
+      return new Response(
+        JSON.stringify({
+          ok: true,
+          result: narration.text,
+          thinking: narration.thinking,
+          degraded: narration.degraded,
+          outcome,
+          variants: checkpoint.variants,
+          state: { players: this.getPlayers(), combat: this.combat },
+        }),
+        { headers: JSON_HEADERS },
+      );
+    } finally {
+      this.rerolling = false;
+    }
+  }
+
+  /**
+   * Put the players and combat back as a checkpoint saved them and drop the transcript from `seq` on.
+   */
+  private rewindTo(checkpoint: TurnCheckpoint, seq: number, intent: RewindPayload["intent"]) {
+    this.players = new Map(structuredClone(checkpoint.players));
+    this.combat = structuredClone(checkpoint.combat);
+    this.messages = this.messages.filter(message => message.seq < seq);
+    this.nextSeq = seq;
+    this.broadcast({ type: "rewind", seq, intent, playerName: checkpoint.playerName });
+  }
+
+  /**
+   * Rebuild the context a draft was written with, against the current party and combat.
+   */
+  private draftContext(draft: PendingDraft): SessionContext {
+    return {
+      players: this.getPlayers(),
+      messages: recentMessages(this.memory, this.messages.filter(message => message.seq < draft.seq)),
+      combat: this.combat,
+      memory: this.memory,
+      rolls: draft.rolls,
+      turn: draft.turn,
+    };
+  }
+
+  // A combat turn stays open until the DM decides its draft, so nobody else can take one meanwhile.
+  private turnInReview(): PendingDraft | undefined {
+    return this.drafts.find(draft => draft.turn?.kind === "turn");
+  }
+
+  private reviewDrafts(): ReviewDraft[] {
+    return this.drafts.map(({ id, playerId, playerName, action, text, thinking, effects, degraded, createdAt }) =>
+      ({ id, playerId, playerName, action, text, thinking, effects, degraded, createdAt }));
+  }
+
+  /**
+   * Explicit inventory edits from the client: adding, removing, equipping and coins. Every change
+   * is announced so the table (and the DM) see the same pack.
+   */
+  private async handleInventory(request: Request): Promise<Response> {
+    const payload = await this.parseBody<InventoryPayload>(request, isInventoryPayload);
+    if (!payload) {
+      return new Response(JSON.stringify({ error: "Invalid inventory payload" }), { status: 400, headers: JSON_HEADERS });
+    }
+
+    const { playerId, intent, item, quantity = 1, type, weight, properties, coins } = payload;
+    const player = this.players.get(playerId);
+    if (!player) {
+      return new Response(JSON.stringify({ error: "Player not joined." }), { status: 400, headers: JSON_HEADERS });
+    }
+    if (isDead(player)) {
+      return new Response(JSON.stringify({ error: `${player.name} is dead and can no longer act.` }), { status: 409, headers: JSON_HEADERS });
+    }
+
+    // Loot comes from the DM; only the owner, who referees the table, may conjure items or coins directly.
+    const gains = intent === "add" || (intent === "coins" && COINS.some(coin => (coins![coin] ?? 0) > 0));
+    if (gains && playerId !== this.ownerId) {
+      return new Response(JSON.stringify({ error: "Only the session owner can add items or coins." }), { status: 403, headers: JSON_HEADERS });
+    }
+
+    let error: string | null = null;
+    let announcement = "";
+    switch (intent) {
+      case "add": {
+        const added = createItem(item!, quantity, { type, weight, properties });
+        error = addItem(player, added);
+        announcement = `${player.name} adds ${quantity > 1 ? `${quantity} × ` : ""}${added.name} to their pack.`;
+        break;
+      }
+      case "remove": {
+        const removed = removeItem(player, item!, quantity);
+        if (!removed) {
+          return new Response(JSON.stringify({ error: `${player.name} has no ${item!.trim()}.` }), { status: 400, headers: JSON_HEADERS });
+        }
+        announcement = `${player.name} discards ${removed.removed > 1 ? `${removed.removed} × ` : ""}${removed.item.name}.`;
+        break;
+      }
+      case "equip":
+      case "unequip":
+        error = setEquipped(player, item!, intent === "equip");
+        announcement = `${player.name} ${intent === "equip" ? "equips" : "stows"} the ${findItem(player, item!)?.name ?? item}.`;
+        break;
+      case "coins":
+        error = adjustPurse(player, coins!);
+        announcement = `${player.name}'s purse now holds ${formatCoins(player.purse ?? emptyPurse())}.`;
+        break;
+    }
+    if (error) {
+      return new Response(JSON.stringify({ error }), { status: 409, headers: JSON_HEADERS });
+    }
+
+    this.appendMessage("DM", announcement);
+    this.broadcastState();
+    this.touch();
+    await this.persist();
+
+    return new Response(JSON.stringify({ ok: true, player }), { headers: JSON_HEADERS });
+  }
+
+  private async handleRoll(request: Request): Promise<Response> {
+    const payload = await this.parseBody<RollPayload>(request, isRollPayload);
+    if (!payload) {
+      return new Response(JSON.stringify({ error: "Invalid roll payload" }), { status: 400, headers: JSON_HEADERS });
+    }
+
+    const { sessionId, playerId, notation, label } = payload;
+    this.sessionId = this.sessionId ?? sessionId;
+    const player = this.players.get(playerId);
+    if (!player) {
+      return new Response(JSON.stringify({ error: "Player not joined." }), { status: 400, headers: JSON_HEADERS });
+    }
+
+    const draw = this.dice.draws;
+    const roll = rollNotation(notation, this.rng);
+    if (!roll) {
+      return new Response(JSON.stringify({ error: `Invalid dice notation: ${notation}` }), { status: 400, headers: JSON_HEADERS });
+    }
+
+    const caption = label?.trim() ? `${label.trim()}: ` : "";
+    const message = this.appendMessage(player.name, `${caption}${formatRoll(roll)}`, { type: "roll", rolls: [roll], draw });
+
+    this.touch();
+    await this.persist();
+
+    return new Response(JSON.stringify({ roll, message }), { headers: JSON_HEADERS });
+  }
+
+  /**
+   * Accept a hibernatable WebSocket and prime it with the current snapshot.
+   */
+  private async handleWebSocket(request: Request, url: URL): Promise<Response> {
+    if (request.headers.get("Upgrade")?.toLowerCase() !== "websocket") {
+      return new Response(JSON.stringify({ error: "Expected WebSocket upgrade" }), { status: 426, headers: JSON_HEADERS });
+    }
+    const reader = await this.readerOf(request, url);
+    if (this.settings?.visibility === "private" && !reader) return this.privateSession();
+
+    const { 0: client, 1: server } = new WebSocketPair();
+    // Sockets are tagged with the player they proved to be, so the review queue reaches only the DM.
+    this.state.acceptWebSocket(server, reader && reader.length <= MAX_SOCKET_TAG_LENGTH ? [reader] : []);
+    this.send(server, {
+      type: "snapshot",
+      players: this.getPlayers(),
+      messages: this.getRecentMessages(),
+      combat: this.combat,
+      ownerId: this.ownerId,
+    });
+    if (this.settings?.review && reader === this.ownerId) {
+      this.send(server, { type: "drafts", drafts: this.reviewDrafts() });
+    }
+    return new Response(null, { status: 101, webSocket: client });
+  }
+
+  async webSocketMessage(ws: WebSocket, message: string | ArrayBuffer) {
+    // Clients only talk over HTTP; the socket accepts a bare keep-alive ping.
+    if (message === "ping") {
+      ws.send("pong");
+    }
+  }
+
+  async webSocketClose(ws: WebSocket, code: number, reason: string) {
+    try {
+      ws.close(code, reason);
+    } catch {
+      // Socket already closed by the runtime.
+    }
+  }
+
+  async webSocketError(ws: WebSocket, error: unknown) {
+    console.warn("[SessionCoordinator] WebSocket error", error);
+  }
+
+  private send(ws: WebSocket, event: SessionEvent) {
+    try {
+      ws.send(JSON.stringify(event));
+    } catch (error) {
+      console.warn("[SessionCoordinator] Failed to push event", error);
+    }
+  }
+
+  private broadcast(event: SessionEvent) {
+    for (const ws of this.state.getWebSockets()) {
+      this.send(ws, event);
+    }
+  }
+
+  /**
+   * Send the review queue to the DM's sockets; players never receive it.
+   */
+  private broadcastDrafts() {
+    if (!this.settings?.review || !this.ownerId) return;
+    const event: SessionEvent = { type: "drafts", drafts: this.reviewDrafts() };
+    for (const ws of this.state.getWebSockets(this.ownerId)) {
+      this.send(ws, event);
+    }
+  }
+
+  /**
+   * Close a removed player's live feeds so they stop receiving the table they were taken from.
+   */
+  private disconnect(playerId: string) {
+    for (const ws of this.state.getWebSockets(playerId)) {
+      try {
+        ws.close(REMOVED_CLOSE_CODE, "Removed from the session");
+      } catch {
+        // Socket already closed by the runtime.
+      }
+    }
+  }
+
+  /**
+   * Push players and combat only when they differ from what sockets last received.
+   */
+  private broadcastState() {
+    const players = this.getPlayers();
+    const playersJson = JSON.stringify(players);
+    if (playersJson !== this.lastBroadcast.players) {
+      this.lastBroadcast.players = playersJson;
+      this.broadcast({ type: "players", players });
+    }
+
+    const combatJson = JSON.stringify(this.combat);
+    if (combatJson !== this.lastBroadcast.combat) {
+      this.lastBroadcast.combat = combatJson;
+      this.broadcast({ type: "combat", combat: this.combat });
+    }
+
+    const ownerJson = JSON.stringify(this.ownerId);
+    if (ownerJson !== this.lastBroadcast.owner) {
+      this.lastBroadcast.owner = ownerJson;
+      this.broadcast({ type: "owner", ownerId: this.ownerId });
+    }
+  }
+
+  private appendMessage(actor: string, content: string, extra: Pick<Message, "type" | "rolls" | "draw"> = {}): Message {
+    const message: Message = { seq: this.nextSeq++, actor, content, ts: Date.now(), ...extra };
+    this.messages.push(message);
+    this.broadcast({ type: "message", message });
+    return message;
+  }
+
   private async parseBody<T>(request: Request, guard: (body: unknown) => body is T): Promise<T | null> {
     try {
       const body = await request.json();
@@ -885,10 +2578,47 @@ export class SessionCoordinator {
 
     console.log(`Session ${this.sessionId} expired after ${idle}ms of inactivity.`);
     await this.registry.remove(this.sessionId);
+    this.broadcast({ type: "reset", message: "The session expired after a long period of inactivity." });
     this.resetState();
     await this.persist();
   }
 
+  /**
+   * The player at the table a read comes from, identified by `playerId` and their token: a bearer
+   * header, or a `token` parameter for WebSockets, which browsers cannot give headers. Null when
+   * either is missing or the token does not match.
+   */
+  private async readerOf(request: Request, url: URL): Promise<string | null> {
+    const secret = this.env.PLAYER_TOKEN_SECRET;
+    const playerId = url.searchParams.get("playerId");
+    const token = bearerToken(request) ?? url.searchParams.get("token");
+    if (!secret || !playerId || !token || !this.players.has(playerId)) return null;
+    return (await this.holdsSeat(secret, playerId, token)) ? playerId : null;
+  }
+
+  /**
+   * Private sessions show their state, transcript and live feed only to players at the table.
+   */
+  private async canRead(request: Request, url: URL): Promise<boolean> {
+    return this.settings?.visibility !== "private" || (await this.readerOf(request, url)) !== null;
+  }
+
+  private privateSession(): Response {
+    return new Response(JSON.stringify({ error: "This session is private." }), { status: 403, headers: JSON_HEADERS });
+  }
+
+  /**
+   * Wipe the session immediately instead of waiting for idle cleanup; returns the farewell sent to clients.
+   */
+  private async endSession(): Promise<string> {
+    const dmText = "The game has ended. Thank you for playing!";
+    if (this.sessionId) await this.registry.remove(this.sessionId);
+    this.broadcast({ type: "reset", message: dmText });
+    this.resetState();
+    await this.persist();
+    return dmText;
+  }
+
   private isEndCommand(action: string): boolean {
     return /^(end|finish|close|stop)\s*(game|session)?$/i.test(action.trim());
   }
@@ -901,13 +2631,47 @@ export class SessionCoordinator {
     return this.messages.slice(-50);
   }
 
+  /**
+   * Fold transcript the DM no longer sees verbatim into the campaign memory, if enough has built up.
+   */
+  private async compactMemory() {
+    const length = this.compacting ? 0 : segmentLength(this.memory, this.nextSeq - 1);
+    if (length === 0) return;
+    this.compacting = true;
+    try {
+      // Read from storage: after a run of failed summaries the segment can be older than the hot messages.
+      const segment = await this.storageManager.loadMessages({ after: this.memory.summarizedThrough, limit: length });
+      if (segment.length === 0) return;
+      const updated = await this.dm.summarizeSegment(this.memory, segment);
+      // A session reset while the model was writing leaves nothing to remember.
+      if (!updated || this.nextSeq <= updated.summarizedThrough) return;
+      this.memory = updated;
+      await this.persist();
+    } finally {
+      this.compacting = false;
+    }
+  }
+
   /**
    * Forget every local data structure while keeping the coordinator alive for reuse.
    */
   private resetState() {
     this.players.clear();
     this.messages = [];
+    this.nextSeq = 1;
+    this.memory = emptyMemory();
+    this.ownerId = null;
+    this.banned.clear();
+    this.settings = null;
+    this.dm = this.dungeonMaster(null);
+    this.inviteCode = null;
+    this.listed = { listing: "", at: 0 };
+    this.drafts = [];
+    this.importedFrom = null;
+    this.checkpoints = [];
+    Object.assign(this.dice, { seed: randomSeed(), draws: 0 });
     this.combat = defaultCombatState();
+    this.lastBroadcast = { players: "", combat: "", owner: "" };
     this.touch();
   }
 
@@ -919,23 +2683,66 @@ export class SessionCoordinator {
    * Persist a snapshot that can be replayed if the Durable Object is rehydrated elsewhere.
    */
   private async persist() {
+    // Records past the current seq belong to a transcript that has since been reset or rewound.
+    if (this.storedThrough >= this.nextSeq) {
+      await this.storageManager.clearMessages(this.nextSeq);
+      this.storedThrough = this.nextSeq - 1;
+    }
+    const unsaved = this.messages.filter(message => message.seq > this.storedThrough);
+    this.storedThrough = this.nextSeq - 1;
+    await this.storageManager.saveMessages(unsaved);
+    this.messages = this.messages.slice(-HOT_MESSAGE_LIMIT);
     await this.storageManager.saveSession({
+      schemaVersion: SNAPSHOT_VERSION,
       players: Array.from(this.players.entries()),
-      messages: this.messages,
       combat: this.combat,
       lastActivity: this.lastActivity,
       sessionId: this.sessionId,
+      nextSeq: this.nextSeq,
+      memory: this.memory,
+      ownerId: this.ownerId,
+      banned: Array.from(this.banned),
+      settings: this.settings,
+      createdAt: this.createdAt,
+      inviteCode: this.inviteCode,
+      drafts: this.drafts,
+      importedFrom: this.importedFrom,
+      checkpoints: this.checkpoints,
+      dice: { ...this.dice },
     });
+    await this.syncListing();
+  }
+
+  /**
+   * Push the lobby listing when anything in it changed, or when the last push is getting old.
+   * Empty sessions are not listed; ending a session removes its listing explicitly.
+   */
+  private async syncListing() {
+    if (!this.sessionId || !this.settings || this.players.size === 0) return;
+    const { lastActivity, ...listing }: SessionListing = {
+      sessionId: this.sessionId,
+      ...this.settings,
+      playerCount: this.players.size,
+      createdAt: this.createdAt,
+      lastActivity: this.lastActivity,
+      inCombat: this.combat.active,
+      inviteOnly: this.needsInvite(),
+    };
+    const serialized = JSON.stringify(listing);
+    if (serialized === this.listed.listing && lastActivity - this.listed.at < LISTING_REFRESH_MS) return;
+    this.listed = { listing: serialized, at: lastActivity };
+    await this.registry.update({ ...listing, lastActivity });
   }
 
   // Helpers to expose combat controls for future features
-  startCombat(enemies: { name: string; hp: number }[], turnOrder: string[]) {
-    this.combat = { active: true, enemies, currentTurnIndex: 0, turnOrder };
+  startCombat(enemies: Enemy[]) {
+    this.combat = { ...defaultCombatState(), enemies };
+    const combatants = [...this.getPlayers().map(playerCombatant), ...enemies.map(enemyCombatant)];
+    beginCombat(this.combat, combatants, this.rng);
   }
 
   nextTurn() {
-    if (!this.combat.active) return;
-    this.combat.currentTurnIndex = (this.combat.currentTurnIndex + 1) % this.combat.turnOrder.length;
+    advanceTurn(this.combat, this.endTurn);
   }
 
   getCurrentTurn(): string | null {
@@ -945,9 +2752,11 @@ export class SessionCoordinator {
     return this.combat.turnOrder[this.combat.currentTurnIndex] || null;
   }
 
+  isPartyDown(): boolean {
+    return this.players.size > 0 && Array.from(this.players.values()).every(isDown);
+  }
+
   isPlayerTurn(playerId: string): boolean {
-    const player = this.players.get(playerId);
-    if (!player) return false;
-    return this.getCurrentTurn() === player.name;
+    return currentCombatant(this.combat)?.id === playerId;
   }
 }
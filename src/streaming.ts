@@ -0,0 +1,135 @@
+import type { ActionStreamEvent } from "./api-types";
+
+/**
+ * Streaming DM narration. Workers AI streams text deltas as server-sent events; the splitter routes
+ * them to the narration or thinking channel and hides the <effects> block, holding back any partial
+ * tag at the end of a chunk until the next one shows what it is.
+ */
+
+export type NarrationChannel = "narration" | "thinking";
+
+export interface NarrationChunk {
+  channel: NarrationChannel;
+  text: string;
+}
+
+const SECTIONS = ["thinking", "effects"] as const;
+type Section = typeof SECTIONS[number];
+
+/**
+ * Incremental twin of extractThinking/extractEffects: push deltas as they arrive, then call end().
+ * Tags are matched case-insensitively, like the non-streaming extraction.
+ */
+export class NarrationSplitter {
+  private pending = "";
+  private section: Section | null = null;
+
+  constructor(private readonly emit: (chunk: NarrationChunk) => void) {}
+
+  push(delta: string) {
+    this.pending += delta;
+    this.drain(false);
+  }
+
+  end() {
+    this.drain(true);
+  }
+
+  private drain(final: boolean) {
+    for (;;) {
+      const lower = this.pending.toLowerCase();
+      const tags = this.section ? [`</${this.section}>`] : SECTIONS.map(section => `<${section}>`);
+      const next = tags
+        .map(tag => ({ tag, index: lower.indexOf(tag) }))
+        .filter(match => match.index >= 0)
+        .sort((a, b) => a.index - b.index)[0];
+      if (next) {
+        this.flush(this.pending.slice(0, next.index));
+        this.section = this.section ? null : next.tag.slice(1, -1) as Section;
+        this.pending = this.pending.slice(next.index + next.tag.length);
+        continue;
+      }
+      // Keep a trailing "<thi" or "</effe" back: it may be the start of a tag split across chunks.
+      const split = this.pending.length - (final ? 0 : partialTagLength(lower, tags));
+      this.flush(this.pending.slice(0, split));
+      this.pending = this.pending.slice(split);
+      return;
+    }
+  }
+
+  private flush(text: string) {
+    if (!text || this.section === "effects") return;
+    this.emit({ channel: this.section ?? "narration", text });
+  }
+}
+
+// Length of the longest suffix of `text` that could still grow into one of `tags`.
+function partialTagLength(text: string, tags: string[]): number {
+  const longest = Math.max(...tags.map(tag => tag.length)) - 1;
+  for (let length = Math.min(text.length, longest); length > 0; length--) {
+    const tail = text.slice(-length);
+    if (tags.some(tag => tag.startsWith(tail))) return length;
+  }
+  return 0;
+}
+
+/**
+ * Text deltas from a model's event stream: `data:` lines ending in `data: [DONE]`, each decoded by
+ * `parseDelta` (Workers AI's `{"response":"..."}` by default). A stream that closes before [DONE] was
+ * cut off, so it throws rather than passing as complete.
+ */
+export async function* readAiStream(
+  stream: ReadableStream<Uint8Array>,
+  parseDelta: (data: string) => string | null = workersAiDelta,
+): AsyncGenerator<string> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let buffered = "";
+  try {
+    for (;;) {
+      const { value, done } = await reader.read();
+      buffered += decoder.decode(value, { stream: !done });
+      const lines = buffered.split("\n");
+      buffered = done ? "" : lines.pop()!;
+      for (const line of lines) {
+        if (!line.startsWith("data:")) continue;
+        const data = line.slice(5).trim();
+        if (data === "[DONE]") return;
+        const delta = parseDelta(data);
+        if (delta) yield delta;
+      }
+      if (done) {
+        throw new Error("AI stream ended before [DONE]");
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+export function workersAiDelta(data: string): string | null {
+  try {
+    const decoded = JSON.parse(data) as { response?: unknown };
+    return typeof decoded.response === "string" ? decoded.response : null;
+  } catch {
+    return null;
+  }
+}
+
+// OpenAI-compatible servers send `{"choices":[{"delta":{"content":"..."}}]}`.
+export function openAiDelta(data: string): string | null {
+  try {
+    const decoded = JSON.parse(data) as { choices?: { delta?: { content?: unknown } }[] };
+    const content = decoded.choices?.[0]?.delta?.content;
+    return typeof content === "string" ? content : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * One server-sent event, e.g. `event: narration\ndata: {"text":"The door"}\n\n`.
+ */
+export function formatSse({ event, data }: ActionStreamEvent): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
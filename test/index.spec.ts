@@ -1,7 +1,28 @@
 import { env, createExecutionContext, waitOnExecutionContext, SELF } from 'cloudflare:test';
 import { describe, it, expect, vi, beforeAll, beforeEach } from 'vitest';
 import worker from '../src/index';
-import { StorageManager, EffectResolver, CombatState, Player, DungeonMasterService } from '../src/session';
+import { StorageManager, EffectResolver, CombatState, Enemy, Player, DungeonMasterService, SessionCoordinator, SessionRegistry, SessionSnapshot } from '../src/session';
+import { EffectApplier, parseEffects } from '../src/effects';
+import { MAX_DECLARED_ROLLS, createRng, findNotations, formatRoll, rollNotation, trackedRng } from '../src/dice';
+import { createCharacter, defaultCharacter, describeCharacter } from '../src/character';
+import { actingPlayer, addCombatant, advanceTurn, beginCombat, classifyCombatAction, completeTurn, defaultCombatState, delayTurn, enemiesBefore, readyAction, removeCombatant, useReaction } from '../src/combat';
+import { addCondition, clearTimedConditions, describeConditions, tickConditions } from '../src/conditions';
+import { damagePlayer, healPlayer, rollDeathSave, stabilize } from '../src/dying';
+import { loadBestiary } from '../src/bestiary';
+import { findEnemy, findEnemyInText, parseCount, spawnEnemies } from '../src/enemies';
+import { MAX_MILESTONE_XP, combatAward, describeProgress, gainXp, progressOf } from '../src/progression';
+import { addItem, adjustPurse, carryingCapacity, createItem, findItem, MAX_COIN_CHANGE, removeItem, setEquipped, starterKit } from '../src/inventory';
+import { NarrationChunk, NarrationSplitter, readAiStream } from '../src/streaming';
+import { DEFAULT_MODEL, LlmProvider, OpenAiCompatibleProvider, ScriptedProvider, createProvider, resolveChoice, unavailableModel } from '../src/llm';
+import { buildPrompt, CONTEXT_WINDOW_TOKENS, estimateTokens } from '../src/prompt';
+import { describeMemory, emptyMemory, parseMemoryUpdate, recentMessages, segmentLength } from '../src/memory';
+import { signPlayerToken, verifyPlayerToken } from '../src/auth';
+import { ACTIVE_WINDOW_MS, createInviteCode, createSettings, listSessions, matchesInviteCode } from '../src/lobby';
+import { ARCHIVE_VERSION, archiveFilename, archiveToMarkdown, CampaignArchive } from '../src/archive';
+import { isCampaignArchive } from '../src/api-validation';
+import { migrateSnapshot, MIGRATIONS, SNAPSHOT_VERSION } from '../src/migrations';
+import type { SessionListing, SessionListPage } from '../src/api-types';
+import coreMonsters from '../src/data/bestiary.json';
 import { Env } from '../src/index';
 
 // For now, you'll need to do something like this to get a correctly-typed
@@ -112,6 +133,12 @@ describe.sequential('D&D AI worker', () => {
 		expect(data.ok).toBe(true);
 	});
 
+	it('requires a WebSocket upgrade for live session updates', async () => {
+		const response = await SELF.fetch('https://example.com/api/session/ws?sessionId=demo');
+		expect(response.status).toBe(426);
+		expect(coordinatorFetchMock).not.toHaveBeenCalled();
+	});
+
 	it('rejects invalid action payloads', async () => {
 		const response = await SELF.fetch('https://example.com/api/session/action', {
 			method: 'POST',
@@ -123,6 +150,158 @@ describe.sequential('D&D AI worker', () => {
 		expect(payload).toContain('Invalid request payload');
 	});
 
+	it('requires a matching player token on mutating routes', async () => {
+		const act = (headers: Record<string, string>) => worker.fetch(new IncomingRequest('https://example.com/api/session/action', {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json', ...headers },
+			body: JSON.stringify({ sessionId: 's1', playerId: 'p1', playerAction: 'I look around' }),
+		}), (env as any) as Env);
+
+		expect((await act({})).status).toBe(401);
+		const otherPlayer = await signPlayerToken('test-secret', 's1', 'p2');
+		expect((await act({ Authorization: `Bearer ${otherPlayer}` })).status).toBe(403);
+		expect(coordinatorFetchMock).not.toHaveBeenCalled();
+
+		const token = await signPlayerToken('test-secret', 's1', 'p1');
+		expect((await act({ Authorization: `Bearer ${token}` })).status).toBe(200);
+		expect(getRequestUrl(coordinatorFetchMock.mock.calls[0][0])).toBe('http://internal/action');
+	});
+
+	it('validates lobby queries before forwarding them', async () => {
+		const sessions = (query: string) => worker.fetch(new IncomingRequest(`https://example.com/api/sessions?${query}`), (env as any) as Env);
+		expect((await sessions('sort=hp')).status).toBe(400);
+		expect((await sessions('openSeats=yes')).status).toBe(400);
+		expect((await sessions('limit=1000')).status).toBe(400);
+		expect(registryFetchMock).not.toHaveBeenCalled();
+
+		await sessions('sort=title&openSeats=true&offset=20');
+		expect(getRequestUrl(registryFetchMock.mock.calls[0][0]))
+			.toBe('http://internal/list?sort=title&order=asc&openSeats=true&active=false&offset=20&limit=20');
+	});
+
+	it('requires the admin key to clear the registry', async () => {
+		const clear = (headers: Record<string, string>) =>
+			worker.fetch(new IncomingRequest('https://example.com/api/sessions/clear', { method: 'POST', headers }), (env as any) as Env);
+
+		expect((await clear({})).status).toBe(403);
+		expect((await clear({ Authorization: 'Bearer wrong-key' })).status).toBe(403);
+		expect(registryFetchMock).not.toHaveBeenCalled();
+
+		expect((await clear({ Authorization: 'Bearer test-admin-key' })).status).toBe(200);
+		expect(getRequestUrl(registryFetchMock.mock.calls[0][0])).toBe('http://internal/clear');
+	});
+
+	it('forwards the player token, settings and invite code with joins', async () => {
+		await worker.fetch(new IncomingRequest('https://example.com/api/session/join', {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json', Authorization: 'Bearer v1.abc' },
+			body: JSON.stringify({ sessionId: 's1', playerId: 'p1', name: 'Thia', settings: { review: true }, inviteCode: 'K7QM-2XPA' }),
+		}), (env as any) as Env);
+		const init = coordinatorFetchMock.mock.calls[0][1] as RequestInit;
+		expect(new Headers(init.headers).get('Authorization')).toBe('Bearer v1.abc');
+		expect(JSON.parse(init.body as string)).toMatchObject({ settings: { review: true }, inviteCode: 'K7QM-2XPA' });
+
+		const badModel = await worker.fetch(new IncomingRequest('https://example.com/api/session/join', {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json' },
+			body: JSON.stringify({ sessionId: 's1', playerId: 'p1', name: 'Thia', settings: { llm: { provider: 'gpt', model: 'x' } } }),
+		}), (env as any) as Env);
+		expect(badModel.status).toBe(400);
+	});
+
+	it('validates review decisions and checks the DM\'s token', async () => {
+		const review = (body: unknown, headers: Record<string, string> = {}) => worker.fetch(new IncomingRequest('https://example.com/api/session/review', {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json', ...headers },
+			body: JSON.stringify(body),
+		}), (env as any) as Env);
+
+		expect((await review({ sessionId: 's1', playerId: 'p1', intent: 'edit', draftId: 'd1' })).status).toBe(400);
+		expect((await review({ sessionId: 's1', playerId: 'p1', intent: 'edit', draftId: 'd1', effects: [{ type: 'damage', target: 'Thia' }] })).status).toBe(400);
+		expect((await review({ sessionId: 's1', playerId: 'p1', intent: 'approve', draftId: 'd1' })).status).toBe(401);
+		expect(coordinatorFetchMock).not.toHaveBeenCalled();
+
+		const token = await signPlayerToken('test-secret', 's1', 'p1');
+		await review({ sessionId: 's1', playerId: 'p1', intent: 'edit', draftId: 'd1', text: 'The door holds.' }, { Authorization: `Bearer ${token}` });
+		expect(getRequestUrl(coordinatorFetchMock.mock.calls[0][0])).toBe('http://internal/review');
+	});
+
+	it('validates undo and reroll requests and checks the owner\'s token', async () => {
+		const rewind = (body: unknown, headers: Record<string, string> = {}) => worker.fetch(new IncomingRequest('https://example.com/api/session/rewind', {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json', ...headers },
+			body: JSON.stringify(body),
+		}), (env as any) as Env);
+
+		expect((await rewind({ sessionId: 's1', playerId: 'p1', intent: 'redo' })).status).toBe(400);
+		expect((await rewind({ sessionId: 's1', playerId: 'p1', intent: 'undo' })).status).toBe(401);
+		expect(coordinatorFetchMock).not.toHaveBeenCalled();
+
+		const token = await signPlayerToken('test-secret', 's1', 'p1');
+		await rewind({ sessionId: 's1', playerId: 'p1', intent: 'reroll' }, { Authorization: `Bearer ${token}` });
+		expect(getRequestUrl(coordinatorFetchMock.mock.calls[0][0])).toBe('http://internal/rewind');
+	});
+
+	it('checks the importer\'s token against the archive\'s own session', async () => {
+		const archive = {
+			format: 'dnd-ai-campaign', version: 1, exportedAt: 0, sessionId: 'Dark Quest', settings: {}, createdAt: 0, ownerId: 'p1', banned: [],
+			players: [{ id: 'p1', name: 'Thia', hp: 9, character: defaultCharacter(), inventory: [] }],
+			combat: defaultCombatState(), memory: emptyMemory(), messages: [],
+		};
+		const restore = async (tokenSession: string) => worker.fetch(new IncomingRequest('https://example.com/api/session/import', {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${await signPlayerToken('test-secret', tokenSession, 'p1')}` },
+			body: JSON.stringify({ sessionId: 'New Quest', playerId: 'p1', archive }),
+		}), (env as any) as Env);
+
+		expect((await restore('New Quest')).status).toBe(403);
+		expect(coordinatorFetchMock).not.toHaveBeenCalled();
+		await restore('Dark Quest');
+		expect(getRequestUrl(coordinatorFetchMock.mock.calls[0][0])).toBe('http://internal/import');
+
+		const exported = await worker.fetch(new IncomingRequest('https://example.com/api/session/export?sessionId=s1&format=pdf'), (env as any) as Env);
+		expect(exported.status).toBe(400);
+	});
+
+	it('rejects archives with malformed players or enemies before they reach a session', async () => {
+		const restore = async (archive: unknown) => worker.fetch(new IncomingRequest('https://example.com/api/session/import', {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${await signPlayerToken('test-secret', 'Dark Quest', 'p1')}` },
+			body: JSON.stringify({ sessionId: 'New Quest', playerId: 'p1', archive }),
+		}), (env as any) as Env);
+		const archive = (player: Record<string, unknown>, enemies: unknown[] = []) => ({
+			format: 'dnd-ai-campaign', version: 1, exportedAt: 0, sessionId: 'Dark Quest', settings: {}, createdAt: 0, ownerId: 'p1', banned: [],
+			players: [{ id: 'p1', name: 'Thia', hp: 9, character: defaultCharacter(), inventory: [], ...player }],
+			combat: { ...defaultCombatState(), enemies }, memory: emptyMemory(), messages: [],
+		});
+
+		expect((await restore(archive({ character: {} }))).status).toBe(400);
+		expect((await restore(archive({ inventory: ['rope'] }))).status).toBe(400);
+		expect((await restore(archive({}, [{ name: 'Goblin' }]))).status).toBe(400);
+		expect(coordinatorFetchMock).not.toHaveBeenCalled();
+		await restore(archive({}, [{ id: 'goblin-1', name: 'Goblin', hp: 7 }]));
+		expect(getRequestUrl(coordinatorFetchMock.mock.calls[0][0])).toBe('http://internal/import');
+	});
+
+	it('passes reader credentials through to the coordinator', async () => {
+		await worker.fetch(new IncomingRequest('https://example.com/api/session/state?sessionId=s1&playerId=p1', {
+			headers: { Authorization: 'Bearer v1.abc' },
+		}), (env as any) as Env);
+		const [input, init] = coordinatorFetchMock.mock.calls[0];
+		expect(getRequestUrl(input)).toBe('http://internal/state?playerId=p1');
+		expect(new Headers((init as RequestInit).headers).get('Authorization')).toBe('Bearer v1.abc');
+	});
+
+	it('validates history cursors before forwarding them', async () => {
+		const history = (query: string) => worker.fetch(new IncomingRequest(`https://example.com/api/session/history?${query}`), (env as any) as Env);
+		const invalid = await history('sessionId=s1&limit=500');
+		expect(invalid.status).toBe(400);
+		expect(coordinatorFetchMock).not.toHaveBeenCalled();
+
+		await history('sessionId=s1&before=120&limit=25');
+		expect(getRequestUrl(coordinatorFetchMock.mock.calls[0][0])).toBe('http://internal/history?limit=25&before=120');
+	});
+
 	it('translates coordinator failures into 502s', async () => {
 		coordinatorFetchMock.mockRejectedValueOnce(new Error('offline'));
 		const request = new IncomingRequest('https://example.com/api/session/state?sessionId=demo');
@@ -132,10 +311,12 @@ describe.sequential('D&D AI worker', () => {
 		expect(response.status).toBe(502);
 	});
 
-	it('StorageManager loads and saves sessions', async () => {
+	it('StorageManager reads legacy registry IDs and saves listings', async () => {
 		const mockStorage = {
 			get: vi.fn(),
 			put: vi.fn(),
+			list: vi.fn(),
+			delete: vi.fn(),
 		};
 		const sm = new StorageManager(mockStorage);
 
@@ -144,14 +325,19 @@ describe.sequential('D&D AI worker', () => {
 		expect(sessions).toEqual(new Set(['session1', 'session2']));
 		expect(mockStorage.get).toHaveBeenCalledWith('sessions');
 
-		await sm.saveSessions(new Set(['a', 'b']));
-		expect(mockStorage.put).toHaveBeenCalledWith('sessions', ['a', 'b']);
+		const listing = { sessionId: 'a', ...createSettings(undefined, 'a'), playerCount: 1, createdAt: 1, lastActivity: 2, inCombat: false, inviteOnly: false };
+		await sm.saveListings([listing]);
+		expect(mockStorage.put).toHaveBeenCalledWith({ 'listing:a': listing });
+		await sm.clearSessions();
+		expect(mockStorage.delete).toHaveBeenCalledWith(['sessions']);
 	});
 
 	it('StorageManager loads and saves session data', async () => {
 		const mockStorage = {
 			get: vi.fn(),
 			put: vi.fn(),
+			list: vi.fn(),
+			delete: vi.fn(),
 		};
 		const sm = new StorageManager(mockStorage);
 
@@ -165,10 +351,15 @@ describe.sequential('D&D AI worker', () => {
 		};
 		mockStorage.get.mockResolvedValue(sessionData);
 		const loaded = await sm.loadSession();
-		expect(loaded).toEqual(sessionData);
+		expect(loaded).toMatchObject({ schemaVersion: SNAPSHOT_VERSION, sessionId: 'demo', nextSeq: 2, lastActivity: 456, createdAt: 456 });
+		expect(loaded).not.toHaveProperty('messages');
+		expect(mockStorage.put).toHaveBeenCalledWith({ 'message:000000000001': { actor: 'DM', content: 'Welcome', ts: 123, seq: 1 } });
+		expect(mockStorage.put).toHaveBeenCalledWith('session', loaded);
 
-		await sm.saveSession(sessionData);
-		expect(mockStorage.put).toHaveBeenCalledWith('session', sessionData);
+		mockStorage.put.mockClear();
+		mockStorage.get.mockResolvedValue(loaded);
+		expect(await sm.loadSession()).toEqual(loaded);
+		expect(mockStorage.put).not.toHaveBeenCalled();
 	});
 });
 
@@ -176,50 +367,1845 @@ describe('EffectResolver', () => {
 	it('applies damage to enemies and players based on narration', () => {
 		const resolver = new EffectResolver();
 		const players = new Map<string, Player>([['p1', { id: 'p1', name: 'Thia', hp: 20, inventory: [] }]]);
-		const combat: CombatState = { active: true, turnOrder: [], currentTurnIndex: 0, enemies: [{ name: 'Goblin', hp: 12 }] };
+		const combat: CombatState = { active: true, turnOrder: [], currentTurnIndex: 0, enemies: [{ id: 'goblin', name: 'Goblin', hp: 12 }], round: 0, initiative: [], readied: [], reactionsUsed: [] };
 
 		resolver.apply("Thia takes 5 damage. The hero deals 7 damage to Goblin.", players, combat);
 		expect(players.get('p1')?.hp).toBe(15);
 		expect(combat.enemies[0].hp).toBe(5);
 	});
 
+	it('detects counted enemies and damages the named instance', () => {
+		const resolver = new EffectResolver(createRng(3));
+		const players = new Map<string, Player>([['p1', { id: 'p1', name: 'Thia', hp: 20, inventory: [] }]]);
+		const combat = defaultCombatState();
+
+		resolver.apply('Roll initiative! Three goblins (7 HP) attack, and the goblins shriek.', players, combat);
+		expect(combat.enemies.map(enemy => enemy.name)).toEqual(['Goblin A', 'Goblin B', 'Goblin C']);
+		expect(combat.initiative.filter(entry => entry.kind === 'enemy').map(entry => entry.id).sort()).toEqual(['goblin-a', 'goblin-b', 'goblin-c']);
+
+		resolver.apply('Thia deals 5 damage to Goblin B. The goblin takes 3 damage.', players, combat);
+		expect(combat.enemies.map(enemy => enemy.hp)).toEqual([7, 2, 7]);
+	});
+
+	it('tracks narrated item quantities and coins', () => {
+		const resolver = new EffectResolver();
+		const players = new Map<string, Player>([['p1', { id: 'p1', name: 'Thia', hp: 20, ...starterKit() }]]);
+
+		resolver.apply('Thia finds 20 arrows. Thia finds 15 gold pieces. Thia drinks a health potion. Thia pays 5 sp.', players, defaultCombatState());
+		const thia = players.get('p1')!;
+		expect(thia.inventory.map(item => [item.name, item.quantity])).toEqual([['basic sword', 1], ['leather armor', 1], ['health potion', 1], ['arrow', 20]]);
+		expect(thia.purse).toEqual({ gp: 24, sp: 5, cp: 0 });
+	});
+
+	it('caps healing at the character sheet max HP', () => {
+		const sheet = createCharacter({ race: 'human', className: 'wizard' });
+		if (!sheet.ok) throw new Error('expected a valid sheet');
+		const resolver = new EffectResolver();
+		const players = new Map<string, Player>([['p1', { id: 'p1', name: 'Thia', hp: 2, inventory: [], character: sheet.sheet }]]);
+		const combat: CombatState = { active: false, turnOrder: [], currentTurnIndex: 0, enemies: [], round: 0, initiative: [], readied: [], reactionsUsed: [] };
+
+		resolver.apply('Thia heals 30 HP.', players, combat);
+		expect(players.get('p1')?.hp).toBe(sheet.sheet.maxHp);
+	});
+
 	it('does not reduce below zero', () => {
 		const resolver = new EffectResolver();
 		const players = new Map<string, Player>([['p1', { id: 'p1', name: 'Lia', hp: 3, inventory: [] }]]);
-		const combat: CombatState = { active: true, turnOrder: [], currentTurnIndex: 0, enemies: [{ name: 'Ogre', hp: 4 }] };
+		const ogre: Enemy = { id: 'ogre', name: 'Ogre', hp: 4 };
+		const combat: CombatState = { active: true, turnOrder: [], currentTurnIndex: 0, enemies: [ogre], round: 0, initiative: [], readied: [], reactionsUsed: [] };
 
 		resolver.apply("Lia takes 10 damage. Knight deals 9 damage to Ogre.", players, combat);
 		expect(players.get('p1')?.hp).toBe(0);
-		expect(combat.enemies[0].hp).toBe(0);
+		// The last enemy falling ends combat and clears the field, so check the instance that was hit.
+		expect(ogre.hp).toBe(0);
+	});
+});
+
+describe('Dice engine', () => {
+	// Feeds a fixed sequence of faces (for the given die size) into the roller.
+	const scripted = (sides: number, faces: number[]) => {
+		let index = 0;
+		return () => (faces[index++ % faces.length] - 1) / sides;
+	};
+
+	it('is deterministic for a given seed', () => {
+		const first = rollNotation('4d6kh3+2', createRng(42));
+		const second = rollNotation('4d6kh3+2', createRng(42));
+		expect(first).toEqual(second);
+		expect(first!.total).toBeGreaterThanOrEqual(5);
+		expect(first!.total).toBeLessThanOrEqual(20);
+	});
+
+	it('resumes a sequence from a saved position', () => {
+		const rng = createRng(42);
+		const skipped = [rng(), rng(), rng()];
+		const position = { seed: 42, draws: 1 };
+		const resumed = trackedRng(position);
+		expect([resumed(), resumed()]).toEqual(skipped.slice(1));
+		expect(position.draws).toBe(3);
+	});
+
+	it('keeps and drops dice without reordering the log', () => {
+		const roll = rollNotation('4d6kh3+2', scripted(6, [3, 6, 1, 5]))!;
+		expect(roll.total).toBe(16);
+		expect(formatRoll(roll)).toBe('4d6kh3+2: [3, 6, ~1~, 5] + 2 = 16');
+	});
+
+	it('supports advantage, disadvantage and multiple signed terms', () => {
+		expect(rollNotation('d20adv', scripted(20, [4, 17]))!.total).toBe(17);
+		expect(rollNotation('d20dis', scripted(20, [4, 17]))!.total).toBe(4);
+		expect(rollNotation('2d6 + 1d4 - 1', scripted(6, [2, 3]))!.terms.map(t => t.sign)).toEqual([1, 1, -1]);
+	});
+
+	it('explodes on the maximum face', () => {
+		const roll = rollNotation('1d6!', scripted(6, [6, 6, 2]))!;
+		expect(roll.total).toBe(14);
+		expect(roll.terms[0].dice.map(d => d.exploded)).toEqual([true, true, false]);
+	});
+
+	it('rejects malformed or oversized notation', () => {
+		const rng = createRng(1);
+		['', 'd', '2d6++3', '3d6kh4', '2d20adv', '1000d6', '1d1!', 'fireball'].forEach(notation => {
+			expect(rollNotation(notation, rng)).toBeNull();
+		});
+	});
+
+	it('finds inline notation in player actions', () => {
+		expect(findNotations('I swing my axe, 1d20 + 5, then 2d6+3 damage')).toEqual(['1d20 + 5', '2d6+3']);
+		expect(findNotations('I dodge and hide')).toEqual([]);
+		expect(findNotations('1d4 1d6 1d8 1d10 1d12 1d20')).toHaveLength(MAX_DECLARED_ROLLS);
+	});
+});
+
+describe('Character sheets', () => {
+	it('builds a level-1 sheet from the standard array with racial bonuses', () => {
+		const result = createCharacter({
+			race: 'Elf',
+			className: 'rogue',
+			method: 'standard',
+			abilities: { str: 8, dex: 15, con: 14, int: 12, wis: 13, cha: 10 },
+			skills: ['stealth', 'perception', 'acrobatics', 'deception'],
+		});
+		expect(result.ok).toBe(true);
+		if (!result.ok) return;
+		expect(result.sheet.abilities.dex).toBe(17);
+		expect(result.sheet.modifiers.dex).toBe(3);
+		expect(result.sheet.maxHp).toBe(10);
+		expect(result.sheet.ac).toBe(14);
+		expect(result.sheet.proficiencyBonus).toBe(2);
+		expect(result.sheet.savingThrows).toEqual(['dex', 'int']);
+	});
+
+	it('assigns defaults by class priority when abilities and skills are omitted', () => {
+		const result = createCharacter({ race: 'dwarf', className: 'Cleric' });
+		expect(result.ok && result.sheet.abilities).toEqual({ str: 13, dex: 10, con: 16, int: 8, wis: 15, cha: 12 });
+		expect(result.ok && result.sheet.skills).toEqual(['history', 'insight']);
+	});
+
+	it('enforces the point buy budget and class skill lists', () => {
+		const overspent = createCharacter({
+			race: 'human',
+			className: 'wizard',
+			method: 'pointbuy',
+			abilities: { str: 15, dex: 15, con: 15, int: 15, wis: 8, cha: 8 },
+		});
+		expect(overspent.ok).toBe(false);
+		expect(!overspent.ok && overspent.errors[0]).toContain('budget is 27');
+
+		const wrongSkills = createCharacter({ race: 'human', className: 'wizard', skills: ['stealth', 'arcana'] });
+		expect(!wrongSkills.ok && wrongSkills.errors[0]).toContain('cannot choose: stealth');
+
+		expect(createCharacter({ race: 'owlin', className: 'wizard' }).ok).toBe(false);
+	});
+
+	it('summarizes the sheet for the DM', () => {
+		const result = createCharacter({ race: 'human', className: 'fighter' });
+		if (!result.ok) throw new Error('expected a valid sheet');
+		const line = describeCharacter({ id: 'p1', name: 'Thia', hp: 9, inventory: [], character: result.sheet });
+		expect(line).toContain('Thia — Human Fighter 1 (0 XP) | HP 9/12 | AC 16');
+		expect(line).toContain('Saves: STR +5, CON +4');
+	});
+});
+
+describe('Initiative', () => {
+	// Each combatant consumes two d20s: the initiative roll, then the hidden tiebreaker.
+	const d20s = (faces: number[]) => {
+		let index = 0;
+		return () => (faces[index++] - 1) / 20;
+	};
+	const thia = { id: 'p1', name: 'Thia', kind: 'player' as const, modifier: 3 };
+	const bram = { id: 'p2', name: 'Bram', kind: 'player' as const, modifier: 1 };
+	const goblin = { id: 'Goblin', name: 'Goblin', kind: 'enemy' as const, modifier: 2 };
+
+	it('sorts by total, then DEX modifier, then the hidden roll-off', () => {
+		const combat = defaultCombatState();
+		// Thia 10+3=13, Bram 12+1=13, Goblin 11+2=13: Thia wins on DEX, Goblin beats Bram on DEX.
+		beginCombat(combat, [bram, goblin, thia], d20s([12, 5, 11, 5, 10, 5]));
+		expect(combat.turnOrder).toEqual(['Thia', 'Goblin', 'Bram']);
+		expect(combat.initiative[0]).toMatchObject({ roll: 10, total: 13 });
+		expect(combat.round).toBe(1);
+	});
+
+	it('tracks rounds and slots late arrivals in without changing the current actor', () => {
+		const combat = defaultCombatState();
+		beginCombat(combat, [thia, goblin], d20s([15, 1, 5, 1]));
+		advanceTurn(combat);
+		expect(combat.turnOrder[combat.currentTurnIndex]).toBe('Goblin');
+
+		addCombatant(combat, bram, d20s([20, 1]));
+		expect(combat.turnOrder).toEqual(['Bram', 'Thia', 'Goblin']);
+		expect(combat.turnOrder[combat.currentTurnIndex]).toBe('Goblin');
+
+		advanceTurn(combat);
+		expect(combat.round).toBe(2);
+		expect(combat.turnOrder[combat.currentTurnIndex]).toBe('Bram');
+	});
+
+	it('drops a departing combatant without skipping anyone', () => {
+		const combat = defaultCombatState();
+		beginCombat(combat, [thia, goblin, bram], d20s([18, 1, 10, 1, 2, 1]));
+		advanceTurn(combat);
+		removeCombatant(combat, 'p1');
+		expect(combat.turnOrder).toEqual(['Goblin', 'Bram']);
+		expect(combat.turnOrder[combat.currentTurnIndex]).toBe('Goblin');
+
+		// Leaving on your own turn hands it to the next in line, wrapping into a new round at the end.
+		advanceTurn(combat);
+		removeCombatant(combat, 'p2');
+		expect(combat.turnOrder[combat.currentTurnIndex]).toBe('Goblin');
+		expect(combat.round).toBe(2);
+	});
+
+	it('lets the current combatant delay or ready', () => {
+		const combat = defaultCombatState();
+		beginCombat(combat, [thia, goblin, bram], d20s([18, 1, 10, 1, 2, 1]));
+		expect(delayTurn(combat, 'p2')).toContain('own turn');
+
+		expect(delayTurn(combat, 'p1', 'Goblin')).toBeNull();
+		expect(combat.turnOrder).toEqual(['Goblin', 'Thia', 'Bram']);
+		expect(combat.turnOrder[combat.currentTurnIndex]).toBe('Goblin');
+
+		advanceTurn(combat);
+		expect(readyAction(combat, 'p1', 'when the door opens')).toBeNull();
+		expect(combat.turnOrder[combat.currentTurnIndex]).toBe('Bram');
+		expect(combat.readied).toEqual([{ id: 'p1', name: 'Thia', trigger: 'when the door opens', round: 1 }]);
+
+		// Readied actions lapse when their owner's next turn begins.
+		advanceTurn(combat);
+		advanceTurn(combat);
+		expect(combat.readied).toEqual([]);
+	});
+
+	it('hands enemy turns to the next player and completes a turn only once', () => {
+		const combat = defaultCombatState();
+		beginCombat(combat, [thia, goblin, bram], d20s([10, 1, 18, 1, 2, 1]));
+		expect(combat.turnOrder).toEqual(['Goblin', 'Thia', 'Bram']);
+		expect(actingPlayer(combat)?.id).toBe('p1');
+		expect(enemiesBefore(combat, 'p1').map(entry => entry.name)).toEqual(['Goblin']);
+
+		completeTurn(combat, 'p1');
+		expect(combat.turnOrder[combat.currentTurnIndex]).toBe('Bram');
+		completeTurn(combat, 'p1');
+		expect(combat.turnOrder[combat.currentTurnIndex]).toBe('Bram');
+		expect(combat.round).toBe(1);
+	});
+
+	it('allows one reaction per round and classifies tagged actions', () => {
+		const combat = defaultCombatState();
+		beginCombat(combat, [thia, bram], d20s([18, 1, 2, 1]));
+		combat.readied.push({ id: 'p2', name: 'Bram', trigger: 'when Thia moves', round: 1 });
+		expect(useReaction(combat, 'p2')).toBeNull();
+		expect(combat.readied).toEqual([]);
+		expect(useReaction(combat, 'p2')).toContain('already used');
+
+		advanceTurn(combat);
+		expect(useReaction(combat, 'p2')).toBeNull();
+
+		expect(classifyCombatAction('/react I raise my shield')).toEqual({ kind: 'reaction', text: 'I raise my shield' });
+		expect(classifyCombatAction('[Reaction] opportunity attack')).toEqual({ kind: 'reaction', text: 'opportunity attack' });
+		expect(classifyCombatAction('/say Fall back!')).toEqual({ kind: 'speech', text: 'Fall back!' });
+		expect(classifyCombatAction('"Fall back!"').kind).toBe('speech');
+		expect(classifyCombatAction('I shout "fall back" and run').kind).toBe('turn');
+	});
+});
+
+describe('Conditions', () => {
+	const fixed = (face: number) => () => (face - 1) / 20;
+
+	it('counts durations down at the end of each turn', () => {
+		const enemy: Enemy = { id: 'goblin', name: 'Goblin', hp: 7 };
+		addCondition(enemy, { name: 'prone' });
+		addCondition(enemy, { name: 'poisoned', roundsRemaining: 2, source: 'dagger' });
+		expect(describeConditions(enemy)).toBe('prone, poisoned (2 rounds, from dagger)');
+
+		expect(tickConditions(enemy, fixed(10))).toEqual([]);
+		expect(tickConditions(enemy, fixed(10))).toEqual(['Goblin is no longer poisoned.']);
+		expect(enemy.conditions).toEqual([{ name: 'prone' }]);
+	});
+
+	it('rolls end-of-turn saves with the bearer\'s save bonus', () => {
+		const thia: Player = { id: 'p1', name: 'Thia', hp: 12, inventory: [], character: defaultCharacter() };
+		addCondition(thia, { name: 'frightened', save: { ability: 'wis', dc: 20 } });
+		expect(tickConditions(thia, fixed(2))[0]).toMatch(/^Thia rolls a WIS save against frightened \(DC 20\): d20 2\+\d = \d+, failure\.$/);
+		expect(tickConditions(thia, fixed(20))[0]).toMatch(/success\. Thia is no longer frightened\.$/);
+		expect(thia.conditions).toEqual([]);
+	});
+
+	it('drops timed conditions when the fight ends', () => {
+		const enemy: Enemy = { id: 'ogre', name: 'Ogre', hp: 30 };
+		addCondition(enemy, { name: 'restrained', roundsRemaining: 3 });
+		addCondition(enemy, { name: 'poisoned' });
+		expect(clearTimedConditions(enemy)).toEqual(['restrained']);
+		expect(enemy.conditions).toEqual([{ name: 'poisoned' }]);
+	});
+});
+
+describe('Dying', () => {
+	const fixed = (face: number) => () => (face - 1) / 20;
+	// Default human fighter: 12 max HP.
+	const fighter = (): Player => ({ id: 'p1', name: 'Thia', hp: 12, inventory: [], character: defaultCharacter() });
+
+	it('knocks characters unconscious at 0 HP and kills on massive damage', () => {
+		const thia = fighter();
+		damagePlayer(thia, 15);
+		expect(thia).toMatchObject({ hp: 0, deathSaves: { successes: 0, failures: 0, stable: false } });
+		expect(thia.conditions?.map(c => c.name)).toEqual(['unconscious']);
+
+		damagePlayer(thia, 3);
+		expect(thia.deathSaves?.failures).toBe(1);
+		damagePlayer(thia, 12);
+		expect(thia.dead).toBe(true);
+
+		const bram = fighter();
+		damagePlayer(bram, 24);
+		expect(bram.dead).toBe(true);
+		healPlayer(bram, 5);
+		expect(bram.hp).toBe(0);
+	});
+
+	it('rolls death saves until stable, dead or revived', () => {
+		const thia = fighter();
+		damagePlayer(thia, 12);
+		expect(rollDeathSave(thia, fixed(10))).toBe('Thia makes a death saving throw: d20 10, success (1/3 successes, 0/3 failures).');
+		expect(rollDeathSave(thia, fixed(1))).toContain('a natural 1, two failures (1/3 successes, 2/3 failures)');
+		expect(rollDeathSave(thia, fixed(5))).toBe('Thia makes a death saving throw: d20 5, failure. Thia has died.');
+
+		const bram = fighter();
+		damagePlayer(bram, 12);
+		expect(rollDeathSave(bram, fixed(20))).toContain('regains consciousness with 1 HP');
+		expect(bram).toMatchObject({ hp: 1, deathSaves: undefined, conditions: [] });
+
+		damagePlayer(bram, 1);
+		expect(stabilize(bram)).toBe(true);
+		expect(rollDeathSave(bram, fixed(1))).toBeNull();
+		healPlayer(bram, 4);
+		expect(bram.hp).toBe(4);
+		expect(bram.conditions).toEqual([]);
+	});
+});
+
+describe('Bestiary', () => {
+	it('loads every core stat block and resolves aliases and plurals', () => {
+		const { bestiary, errors } = loadBestiary();
+		expect(errors).toEqual([]);
+		expect(bestiary.all()).toHaveLength(coreMonsters.length);
+		expect(bestiary.find('the goblins')?.name).toBe('Goblin');
+		expect(bestiary.find('Dragon')?.name).toBe('Young Red Dragon');
+		expect(bestiary.mentionedIn('I poke the giant spider with a stick').map(stats => stats.name)).toEqual(['Giant Spider']);
+	});
+
+	it('rolls hit dice for enemies and falls back for unknown creatures', () => {
+		const { bestiary } = loadBestiary();
+		const rng = createRng(7);
+		for (let i = 0; i < 20; i++) {
+			const orc = bestiary.roll('Orc', rng);
+			expect(orc.hp).toBeGreaterThanOrEqual(8);
+			expect(orc.hp).toBeLessThanOrEqual(22);
+			expect(orc.maxHp).toBe(orc.hp);
+			expect(orc.stats?.ac).toBe(13);
+		}
+		expect(bestiary.roll('Orc', rng, 30).hp).toBe(30);
+		expect(bestiary.roll('Shadow Thing', rng)).toEqual({ type: 'Shadow Thing', hp: 15 });
+	});
+
+	it('merges homebrew monsters and reports invalid entries', () => {
+		const homebrew = JSON.stringify([
+			{ name: 'Mire Hag', aliases: ['hag'], ac: 14, hp: '8d8+16', abilities: { str: 16, dex: 12, con: 14, int: 13, wis: 14, cha: 14 }, attacks: [{ name: 'Claw', bonus: 5, damage: '2d8+3', damageType: 'slashing' }], cr: '3', xp: 700 },
+			{ name: 'Broken', ac: 10, hp: 'lots' },
+		]);
+		const { bestiary, errors } = loadBestiary(homebrew);
+		expect(bestiary.find('hag')?.name).toBe('Mire Hag');
+		expect(errors).toEqual(['Homebrew monster #2 is not a valid stat block.']);
+		expect(loadBestiary('{').errors).toEqual(['Homebrew monsters are not valid JSON.']);
+	});
+});
+
+describe('Enemy instances', () => {
+	const { bestiary } = loadBestiary();
+
+	it('letters groups and continues the lettering for later arrivals', () => {
+		const combat = defaultCombatState();
+		expect(spawnEnemies(combat, bestiary, 'Ogre', 1, createRng(1)).map(enemy => [enemy.id, enemy.name])).toEqual([['ogre', 'Ogre']]);
+		spawnEnemies(combat, bestiary, 'goblins', 2, createRng(1), 7);
+		spawnEnemies(combat, bestiary, 'Goblin', 1, createRng(1), 7);
+		expect(combat.enemies.map(enemy => [enemy.id, enemy.name, enemy.type])).toEqual([
+			['ogre', 'Ogre', 'Ogre'],
+			['goblin-a', 'Goblin A', 'Goblin'],
+			['goblin-b', 'Goblin B', 'Goblin'],
+			['goblin-c', 'Goblin C', 'Goblin'],
+		]);
+	});
+
+	it('resolves labels exactly and refuses ambiguous types', () => {
+		const combat = defaultCombatState();
+		spawnEnemies(combat, bestiary, 'Goblin', 2, createRng(1), 7);
+		expect(findEnemy(combat.enemies, 'goblin b')?.id).toBe('goblin-b');
+		expect(findEnemy(combat.enemies, 'the Goblin')).toBeUndefined();
+		combat.enemies[0].hp = 0;
+		expect(findEnemy(combat.enemies, 'the Goblin')?.id).toBe('goblin-b');
+		expect(findEnemyInText(combat.enemies, 'Goblin A and then flees')?.id).toBe('goblin-a');
+		expect(findEnemyInText(combat.enemies, 'Then Goblin B')?.id).toBe('goblin-b');
+	});
+
+	it('parses counts from numbers and words', () => {
+		expect(['a', '3', 'three', 'a pair of', 'A couple  of', '40'].map(word => parseCount(word))).toEqual([1, 3, 3, 2, 2, 10]);
+	});
+});
+
+describe('Progression', () => {
+	it('levels up through every threshold crossed with fixed HP, proficiency and features', () => {
+		const thia: Player = { id: 'p1', name: 'Thia', hp: 12, inventory: [], character: defaultCharacter() };
+		expect(thia.character?.features).toEqual(['Fighting Style', 'Second Wind']);
+		const before = progressOf(thia);
+
+		gainXp(thia, 2700);
+		expect(thia.character).toMatchObject({ level: 4, maxHp: 36, proficiencyBonus: 2 });
+		expect(thia.hp).toBe(36);
+		expect(describeProgress(before, thia)).toEqual([
+			'Thia gains 2700 XP (2700/6500 XP).',
+			'Thia reaches level 4! Max HP 12 → 36. New features: Action Surge, Martial Archetype, Ability Score Improvement.',
+		]);
+
+		gainXp(thia, 3800);
+		expect(thia.character).toMatchObject({ level: 5, proficiencyBonus: 3 });
+		expect(thia.character?.features).toContain('Extra Attack');
+	});
+
+	it('splits defeated enemies\' XP across the surviving party, unconscious players included', () => {
+		const { bestiary } = loadBestiary();
+		const combat = defaultCombatState();
+		spawnEnemies(combat, bestiary, 'Orc', 2, createRng(1));
+		spawnEnemies(combat, bestiary, 'Ogre', 1, createRng(1));
+		combat.enemies.filter(enemy => enemy.type === 'Orc').forEach(enemy => { enemy.hp = 0; });
+		const living: Player = { id: 'p1', name: 'Thia', hp: 5, inventory: [] };
+		const fallen: Player = { id: 'p2', name: 'Bram', hp: 0, inventory: [], dead: true };
+		// Down but alive: they survived the fight, so they share in it.
+		const unconscious: Player = { id: 'p3', name: 'Mara', hp: 0, inventory: [], deathSaves: { successes: 3, failures: 0, stable: true } };
+
+		const award = combatAward([living, fallen, unconscious], combat.enemies);
+		expect(award.defeated.map(enemy => enemy.name)).toEqual(['Orc A', 'Orc B']);
+		expect(award).toMatchObject({ total: 200, share: 100, recipients: [living, unconscious] });
+	});
+});
+
+describe('Player tokens', () => {
+	it('verifies only for the session and player they were issued to', async () => {
+		const token = await signPlayerToken('secret', 'Dark Quest', 'p1');
+		expect(token).toMatch(/^v1\.[A-Za-z0-9_-]+$/);
+		expect(await verifyPlayerToken('secret', 'Dark Quest', 'p1', token)).toBe(true);
+		expect(await verifyPlayerToken('secret', 'Dark Quest', 'p2', token)).toBe(false);
+		expect(await verifyPlayerToken('secret', 'Golden Saga', 'p1', token)).toBe(false);
+		expect(await verifyPlayerToken('rotated', 'Dark Quest', 'p1', token)).toBe(false);
+		expect(await verifyPlayerToken('secret', 'Dark Quest', 'p1', 'v1.not+base64')).toBe(false);
+		expect(await verifyPlayerToken('secret', 'Dark Quest', 'p1', `${token}.extra`)).toBe(false);
+	});
+});
+
+describe('Campaign archives', () => {
+	const archive = (overrides: Partial<CampaignArchive> = {}): CampaignArchive => {
+		const player: Player = { id: 'p1', name: 'Thia', hp: 9, ...starterKit(), character: defaultCharacter() };
+		return {
+			format: 'dnd-ai-campaign',
+			version: ARCHIVE_VERSION,
+			exportedAt: Date.UTC(2026, 9, 18),
+			sessionId: 'Dark Quest',
+			settings: createSettings({ title: 'The Sunken Keep', description: 'Bring rope.' }, 'Dark Quest'),
+			createdAt: 0,
+			ownerId: 'p1',
+			banned: [],
+			players: [player],
+			combat: defaultCombatState(),
+			memory: emptyMemory(),
+			messages: [
+				{ seq: 1, actor: 'Thia', content: 'I open the door, 1d20', ts: 0 },
+				{ seq: 2, actor: 'Thia', content: '1d20: [14] = 14', ts: 0, type: 'roll' },
+				{ seq: 3, actor: 'DM', content: '## The Flooded Hall\nWater laps at your boots.', ts: 0 },
+			],
+			...overrides,
+		};
+	};
+
+	it('renders a readable transcript that keeps the DM\'s headings', () => {
+		const markdown = archiveToMarkdown(archive());
+		expect(markdown).toMatch(/^# The Sunken Keep\n\nBring rope\.\n\n\*Exported 2026-10-18 from session Dark Quest\.\*/);
+		expect(markdown).toContain('- **Thia**, level 1 ');
+		expect(markdown).toContain('**Thia:** I open the door, 1d20\n\n🎲 *Thia: 1d20: [14] = 14*\n\n## The Flooded Hall\nWater laps at your boots.\n');
+		expect(archiveFilename('The Sunken Keep!', 'md')).toBe('the-sunken-keep.md');
+		expect(archiveFilename('???', 'json')).toBe('campaign.json');
+	});
+
+	it('accepts only well-formed archives it knows how to read', () => {
+		expect(isCampaignArchive(archive())).toBe(true);
+		expect(isCampaignArchive(archive({ version: ARCHIVE_VERSION + 1 }))).toBe(false);
+		expect(isCampaignArchive(archive({ players: [...archive().players, ...archive().players] }))).toBe(false);
+		expect(isCampaignArchive(archive({ messages: [...archive().messages].reverse() }))).toBe(false);
+		expect(isCampaignArchive({ ...archive(), format: 'something-else' })).toBe(false);
+		const [thia] = archive().players;
+		expect(isCampaignArchive({ ...archive(), players: [{ ...thia, character: { ...thia.character, modifiers: undefined } }] })).toBe(false);
+		expect(isCampaignArchive(archive({ players: [{ ...thia, purse: { gp: -1, sp: 0, cp: 0 } }] }))).toBe(false);
+		expect(isCampaignArchive({ ...archive(), players: [{ ...thia, conditions: [{ name: 'cursed' }] }] })).toBe(false);
+		const inFight = { ...defaultCombatState(), active: true, turnOrder: ['Thia'], round: 1, readied: [], reactionsUsed: [] };
+		const thiaUp = { id: 'p1', name: 'Thia', kind: 'player' as const, modifier: 0, roll: 12, total: 12, tiebreaker: 3 };
+		expect(isCampaignArchive(archive({ combat: { ...inFight, initiative: [thiaUp] } }))).toBe(true);
+		expect(isCampaignArchive(archive({ combat: { ...inFight, initiative: [{ ...thiaUp, id: 'stranger' }] } }))).toBe(false);
+		expect(isCampaignArchive(archive({ combat: { ...inFight, initiative: [] } }))).toBe(false);
+		expect(isCampaignArchive({ ...archive(), combat: { ...defaultCombatState(), readied: undefined } })).toBe(false);
+	});
+});
+
+describe('Snapshot migrations', () => {
+	const current = (): SessionSnapshot => ({
+		schemaVersion: SNAPSHOT_VERSION,
+		players: [['p1', { id: 'p1', name: 'Thia', hp: 9, ...starterKit(), character: defaultCharacter() }]],
+		combat: defaultCombatState(),
+		lastActivity: 200,
+		sessionId: 's1',
+		nextSeq: 4,
+		memory: emptyMemory(),
+		ownerId: 'p1',
+		banned: [],
+		settings: createSettings({ title: 'The Sunken Keep' }, 's1'),
+		createdAt: 100,
+		inviteCode: null,
+		drafts: [],
+		importedFrom: null,
+		checkpoints: [],
+		dice: { seed: 7, draws: 3 },
+	});
+
+	const migrated = (stored: unknown) => {
+		const result = migrateSnapshot(stored);
+		if (!result.ok) throw new Error(result.error);
+		return result;
+	};
+
+	it('numbers its steps in order', () => {
+		expect(MIGRATIONS.map(step => step.version)).toEqual(MIGRATIONS.map((_, index) => index + 1));
+		expect(SNAPSHOT_VERSION).toBe(MIGRATIONS.length);
+	});
+
+	it('upgrades the original blob snapshot', () => {
+		const stored = {
+			players: [['p1', { id: 'p1', name: 'Thia', hp: 7, inventory: ['Rope', 'Torch'] }], ['p2', { id: 'p2', name: 'Bram', hp: 10, inventory: [] }]],
+			messages: [{ actor: 'DM', content: 'Welcome', ts: 1 }, { actor: 'Thia', content: 'Hello', ts: 2 }],
+			combat: { active: true, turnOrder: ['Thia', 'Goblin'], currentTurnIndex: 1, enemies: [{ name: 'Goblin', hp: 7 }] },
+			lastActivity: 300,
+			sessionId: 's1',
+		};
+		const { snapshot, messages, migrated: changed } = migrated(stored);
+		expect(changed).toBe(true);
+		expect(messages.map(message => message.seq)).toEqual([1, 2]);
+		expect(snapshot).not.toHaveProperty('messages');
+		const [[, thia]] = snapshot.players;
+		expect(thia.character).toEqual(defaultCharacter());
+		expect(thia.inventory.map(item => item.name)).toEqual(['rope', 'torch']);
+		expect(snapshot.combat.enemies).toEqual([{ id: 'Goblin', name: 'Goblin', hp: 7 }]);
+		expect(snapshot.combat.initiative.map(entry => [entry.id, entry.total])).toEqual([['p1', 0], ['Goblin', 0]]);
+		expect(snapshot.combat.round).toBe(1);
+		expect(snapshot.combat.currentTurnIndex).toBe(1);
+		expect(snapshot).toMatchObject({
+			schemaVersion: SNAPSHOT_VERSION,
+			nextSeq: 3,
+			memory: emptyMemory(),
+			ownerId: 'p1',
+			banned: [],
+			settings: createSettings(undefined, 's1'),
+			createdAt: 300,
+			inviteCode: null,
+			drafts: [],
+			importedFrom: null,
+		});
+		expect(stored.players[0][1]).not.toHaveProperty('character');
+	});
+
+	it('upgrades snapshots saved after per-message records but before roles and listings', () => {
+		const stored = {
+			players: [['p2', { id: 'p2', name: 'Bram', hp: 10, inventory: [], character: defaultCharacter() }]],
+			combat: { ...defaultCombatState(), enemies: [{ id: 'goblin-1', name: 'Goblin A', hp: 7, type: 'goblin' }] },
+			lastActivity: 300,
+			sessionId: 's1',
+			nextSeq: 12,
+			memory: { summary: 'Bram met Mara.', facts: ['Mara runs the tavern'], summarizedThrough: 8 },
+		};
+		const { snapshot, messages } = migrated(stored);
+		expect(messages).toEqual([]);
+		expect(snapshot.nextSeq).toBe(12);
+		expect(snapshot.memory.summary).toBe('Bram met Mara.');
+		expect(snapshot.combat.enemies[0].id).toBe('goblin-1');
+		expect(snapshot.ownerId).toBe('p2');
+		expect(snapshot.settings?.title).toBe('s1');
+	});
+
+	it('keeps fields that a later version saved as null', () => {
+		const stored = { ...current(), ownerId: null, settings: null, players: [] };
+		delete (stored as Partial<SessionSnapshot>).schemaVersion;
+		const { snapshot } = migrated(stored);
+		expect(snapshot.ownerId).toBeNull();
+		expect(snapshot.settings).toBeNull();
+		expect(snapshot.nextSeq).toBe(4);
+	});
+
+	it('brings a snapshot at every version up to the current one', () => {
+		for (let version = 0; version <= SNAPSHOT_VERSION; version++) {
+			const { snapshot, migrated: changed } = migrated({ ...current(), schemaVersion: version });
+			expect(snapshot).toEqual(current());
+			expect(changed).toBe(version < SNAPSHOT_VERSION);
+		}
+	});
+
+	it('rejects snapshots it cannot read', () => {
+		expect(migrateSnapshot('session')).toMatchObject({ ok: false });
+		expect(migrateSnapshot({ ...current(), schemaVersion: SNAPSHOT_VERSION + 1 })).toMatchObject({ ok: false, error: expect.stringContaining('newer') });
+		expect(migrateSnapshot({ ...current(), schemaVersion: 'two' })).toMatchObject({ ok: false });
+		expect(migrateSnapshot({ ...current(), players: { p1: {} } })).toMatchObject({ ok: false });
+		expect(migrateSnapshot({ ...current(), players: [['p1', { id: 'p1', name: 'Thia', hp: 9 }]] })).toMatchObject({ ok: false });
+		expect(migrateSnapshot({ ...current(), banned: 'p2' })).toMatchObject({ ok: false });
+	});
+});
+
+describe('Lobby listings', () => {
+	const now = 10 * ACTIVE_WINDOW_MS;
+	const listing = (sessionId: string, overrides: Partial<SessionListing> = {}): SessionListing => ({
+		sessionId,
+		...createSettings(undefined, sessionId),
+		playerCount: 1,
+		createdAt: 0,
+		lastActivity: now,
+		inCombat: false,
+		inviteOnly: false,
+		...overrides,
+	});
+	const query = { sort: 'lastActivity' as const, order: 'desc' as const, openSeats: false, active: false, offset: 0, limit: 20 };
+	const ids = (page: SessionListPage) => page.sessions.map(session => session.sessionId);
+
+	it('defaults settings from the session ID', () => {
+		expect(createSettings(undefined, 'Dark Quest')).toEqual({ title: 'Dark Quest', description: '', maxPlayers: 6, visibility: 'public', review: false, llm: null });
+		expect(createSettings({ title: '  ', maxPlayers: 3 }, 'Dark Quest')).toMatchObject({ title: 'Dark Quest', maxPlayers: 3 });
+	});
+
+	it('creates invite codes that are easy to read back', () => {
+		const code = createInviteCode();
+		expect(code).toMatch(/^[A-HJ-NP-Z2-9]{4}-[A-HJ-NP-Z2-9]{4}$/);
+		expect(matchesInviteCode(` ${code.toLowerCase().replace('-', '')} `, code)).toBe(true);
+		expect(matchesInviteCode(undefined, code)).toBe(false);
+		expect(matchesInviteCode(code, null)).toBe(false);
+	});
+
+	it('filters, sorts and pages public sessions', () => {
+		const listings = [
+			listing('full', { playerCount: 6, lastActivity: now - 1 }),
+			listing('stale', { lastActivity: now - ACTIVE_WINDOW_MS }),
+			listing('secret', { visibility: 'private' }),
+			listing('hidden', { visibility: 'unlisted' }),
+			listing('busy', { playerCount: 4 }),
+			listing('quiet', { playerCount: 2 }),
+			listing('banned', { playerCount: 3, inviteOnly: true }),
+		];
+		expect(ids(listSessions(listings, query, now))).toEqual(['banned', 'busy', 'quiet', 'full', 'stale']);
+		expect(ids(listSessions(listings, { ...query, openSeats: true, active: true }, now))).toEqual(['busy', 'quiet']);
+		expect(ids(listSessions(listings, { ...query, sort: 'players' }, now))).toEqual(['full', 'busy', 'banned', 'quiet', 'stale']);
+
+		const first = listSessions(listings, { ...query, limit: 3 }, now);
+		expect(first).toMatchObject({ total: 5, nextOffset: 3 });
+		const last = listSessions(listings, { ...query, limit: 3, offset: 3 }, now);
+		expect(ids(last)).toEqual(['full', 'stale']);
+		expect(last.nextOffset).toBeNull();
+	});
+});
+
+describe('Campaign memory', () => {
+	const transcript = (count: number) => Array.from({ length: count }, (_, index) => ({ seq: index + 1, actor: 'DM', content: `Line ${index + 1}`, ts: 0 }));
+
+	it('compacts the oldest messages once enough are unsummarized', () => {
+		expect(segmentLength(emptyMemory(), 59)).toBe(0);
+		expect(segmentLength(emptyMemory(), 70)).toBe(40);
+		// A backlog left by failed summaries is folded in 40 messages at a time.
+		expect(segmentLength(emptyMemory(), 150)).toBe(40);
+		const memory = { summary: 'They met Mara.', facts: [], summarizedThrough: 40 };
+		expect(segmentLength(memory, 70)).toBe(0);
+		expect(recentMessages(memory, transcript(70))[0].seq).toBe(41);
+	});
+
+	it('accepts only well-formed summaries', () => {
+		const segment = transcript(3);
+		expect(parseMemoryUpdate('not json', segment)).toBeNull();
+		expect(parseMemoryUpdate('{"summary":"","facts":[]}', segment)).toBeNull();
+		expect(parseMemoryUpdate('{"summary":"x","facts":[3]}', segment)).toBeNull();
+		const memory = parseMemoryUpdate('```json\n{"summary":" The party met Mara. ","facts":["Mara owes Thia 5 gp","Mara owes Thia 5 gp"]}\n```', segment)!;
+		expect(memory).toEqual({ summary: 'The party met Mara.', facts: ['Mara owes Thia 5 gp'], summarizedThrough: 3 });
+		expect(describeMemory(memory)).toBe('Story so far:\nThe party met Mara.\nKey facts:\n- Mara owes Thia 5 gp\n');
+		expect(describeMemory(emptyMemory())).toBe('');
+	});
+});
+
+describe('Prompt budget', () => {
+	const lines = (prefix: string, count: number) => Array.from({ length: count }, (_, index) => `${prefix} ${index + 1}: ${'x'.repeat(60)}`);
+
+	it('keeps everything when it fits', () => {
+		const prompt = buildPrompt([{ name: 'recent', entries: lines('Line', 3), priority: 10, trim: 'oldest' }], 1000);
+		expect(prompt.trimmed).toEqual([]);
+		expect(prompt.sections.get('recent')).toBe(lines('Line', 3).join('\n'));
+	});
+
+	it('trims the lowest priorities first and only as far as needed', () => {
+		const prompt = buildPrompt([
+			{ name: 'rules', entries: ['r'.repeat(700)], priority: 100, trim: 'none' },
+			{ name: 'recent', entries: lines('Line', 20), priority: 10, trim: 'oldest' },
+			{ name: 'sheets', entries: lines('Sheet', 5), priority: 50, trim: 'end' },
+		], 500);
+		expect(prompt.tokens).toBeLessThanOrEqual(500);
+		expect(prompt.trimmed.map(trim => trim.section)).toEqual(['recent']);
+		const recent = prompt.sections.get('recent')!.split('\n');
+		expect(recent[recent.length - 1]).toBe(lines('Line', 20)[19]);
+		expect(recent.length).toBeLessThan(20);
+		expect(prompt.sections.get('sheets')).toBe(lines('Sheet', 5).join('\n'));
+	});
+
+	it('cuts the end of a section once lower priorities are gone and never trims required ones', () => {
+		const prompt = buildPrompt([
+			{ name: 'rules', entries: ['r'.repeat(700)], priority: 100, trim: 'none' },
+			{ name: 'recent', entries: lines('Line', 20), priority: 10, trim: 'oldest' },
+			{ name: 'sheets', entries: lines('Sheet', 10), priority: 50, trim: 'end' },
+		], 300);
+		expect(prompt.trimmed).toMatchObject([{ section: 'recent', removed: true }, { section: 'sheets', removed: false }]);
+		expect(prompt.sections.get('sheets')).toMatch(/^Sheet 1: x+[\s\S]*…$/);
+		expect(prompt.sections.get('rules')).toHaveLength(700);
+		expect(estimateTokens('r'.repeat(700))).toBe(200);
+		expect(buildPrompt([{ name: 'rules', entries: ['r'.repeat(700)], priority: 100, trim: 'none' }], 100).tokens).toBeGreaterThan(100);
+	});
+});
+
+describe('Inventory', () => {
+	const fighter = (): Player => ({ id: 'p1', name: 'Thia', hp: 12, ...starterKit(), character: defaultCharacter() });
+
+	it('stacks quantities and only removes unambiguous matches', () => {
+		const thia = fighter();
+		expect(addItem(thia, createItem('health potion'))).toBeNull();
+		expect(addItem(thia, createItem('potion of giant strength'))).toBeNull();
+		expect(findItem(thia, 'health potions')).toMatchObject({ quantity: 3, type: 'potion', properties: { heal: '2d4+2' } });
+
+		expect(removeItem(thia, 'potion', 2)?.removed).toBe(2);
+		expect(findItem(thia, 'potion of giant strength')?.quantity).toBe(1);
+		expect(removeItem(thia, 'potion', 5)).toMatchObject({ removed: 1, item: { name: 'health potion' } });
+		expect(removeItem(thia, 'potion')).toBeNull();
+	});
+
+	it('refuses loads beyond STR × 15 and swaps armor when equipping', () => {
+		const thia = fighter();
+		expect(carryingCapacity(thia)).toBe(240);
+		expect(addItem(thia, createItem('plate armor', 4))).toBe('Thia cannot carry 4 × plate armor (14.2/240 lb carried).');
+
+		addItem(thia, createItem('chain mail'));
+		expect(setEquipped(thia, 'chain mail', true)).toBeNull();
+		expect(thia.inventory.filter(item => item.equipped).map(item => item.name)).toEqual(['basic sword', 'chain mail']);
+		expect(setEquipped(thia, 'health potion', true)).toBe('The health potion cannot be equipped.');
+	});
+
+	it('makes change from larger coins and refuses what the purse cannot cover', () => {
+		const thia = fighter();
+		thia.purse = { gp: 1, sp: 0, cp: 3 };
+		expect(adjustPurse(thia, { sp: -5 })).toBeNull();
+		expect(thia.purse).toEqual({ gp: 0, sp: 5, cp: 3 });
+		expect(adjustPurse(thia, { gp: -1, cp: 2 })).toBe('Thia cannot afford 1 gp; they have 5 sp, 5 cp.');
+		expect(thia.purse).toEqual({ gp: 0, sp: 5, cp: 3 });
+	});
+});
+
+// A Workers AI stream: one server-sent event per delta, ending in [DONE] unless cut off.
+const aiStream = (deltas: string[], complete = true) => {
+	const body = deltas.map(delta => `data: ${JSON.stringify({ response: delta })}\n\n`).join('') + (complete ? 'data: [DONE]\n\n' : '');
+	const bytes = new TextEncoder().encode(body);
+	// Split mid-line too, as the network would.
+	return new ReadableStream<Uint8Array>({
+		start(controller) {
+			for (let i = 0; i < bytes.length; i += 7) controller.enqueue(bytes.slice(i, i + 7));
+			controller.close();
+		},
+	});
+};
+
+describe('LLM providers', () => {
+	const request = { messages: [{ role: 'user' as const, content: 'Hello' }], maxTokens: 50 };
+
+	it('talks to OpenAI-compatible endpoints, streamed or not', async () => {
+		const sse = ['The ', 'door'].map(content => `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`).join('') + 'data: [DONE]\n\n';
+		const fetcher = vi.fn()
+			.mockResolvedValueOnce(Response.json({ choices: [{ message: { content: 'The door opens.' } }] }))
+			.mockResolvedValueOnce(new Response(sse))
+			.mockResolvedValueOnce(new Response('busy', { status: 503, statusText: 'Service Unavailable' }));
+		const provider = new OpenAiCompatibleProvider('llama-3-8b', { baseUrl: 'http://localhost:8080/v1/', apiKey: 'sk-local', fetcher });
+
+		expect(await provider.complete(request)).toBe('The door opens.');
+		const [url, init] = fetcher.mock.calls[0];
+		expect(url).toBe('http://localhost:8080/v1/chat/completions');
+		expect(init.headers.Authorization).toBe('Bearer sk-local');
+		expect(JSON.parse(init.body)).toEqual({ model: 'llama-3-8b', messages: request.messages, max_tokens: 50, stream: false });
+
+		const deltas: string[] = [];
+		for await (const delta of provider.stream(request)) deltas.push(delta);
+		expect(deltas).toEqual(['The ', 'door']);
+		await expect(provider.complete(request)).rejects.toThrow('503');
+	});
+
+	it('plays a script in order and repeats its last line', async () => {
+		const provider = new ScriptedProvider('test', ['One.', new Error('offline'), 'Three.']);
+		expect(await provider.complete(request)).toBe('One.');
+		await expect(provider.complete(request)).rejects.toThrow('offline');
+		expect(await provider.complete(request)).toBe('Three.');
+		expect(await provider.complete(request)).toBe('Three.');
+	});
+
+	it('lets sessions pick only the models the operator allows', () => {
+		const mistral = { provider: 'workers-ai' as const, model: '@cf/mistral/mistral-7b-instruct-v0.1' };
+		const closed = {} as Env;
+		const open = { ALLOWED_LLMS: JSON.stringify([mistral]) } as Env;
+
+		expect(unavailableModel(closed, mistral)).toBe('This server does not offer @cf/mistral/mistral-7b-instruct-v0.1.');
+		expect(unavailableModel(closed, DEFAULT_MODEL)).toBeNull();
+		expect(unavailableModel(closed, { provider: 'scripted', model: 'offline' })).toBeNull();
+		expect(unavailableModel(open, { ...DEFAULT_MODEL, fallback: mistral })).toBeNull();
+
+		// A session created before the operator dropped its model falls back to the default.
+		expect(resolveChoice(closed, mistral)).toBe(DEFAULT_MODEL);
+		expect(createProvider(closed, mistral).model).toBe(DEFAULT_MODEL.model);
+		expect(createProvider(open, mistral).model).toBe(mistral.model);
+	});
+});
+
+describe('Narration streaming', () => {
+	const split = (deltas: string[]) => {
+		const chunks: NarrationChunk[] = [];
+		const splitter = new NarrationSplitter(chunk => chunks.push(chunk));
+		deltas.forEach(delta => splitter.push(delta));
+		splitter.end();
+		const text = (channel: string) => chunks.filter(chunk => chunk.channel === channel).map(chunk => chunk.text).join('');
+		return { chunks, narration: text('narration'), thinking: text('thinking') };
+	};
+
+	it('splits thinking from narration when tags straddle chunks', () => {
+		const { narration, thinking } = split(['<thi', 'nking>Rolled 1', '4.</th', 'inking>The arrow <', 'b>hits</b>.<eff', 'ects>[]</EFFECTS>']);
+		expect(thinking).toBe('Rolled 14.');
+		expect(narration).toBe('The arrow <b>hits</b>.');
+	});
+
+	it('holds back only what could still be a tag', () => {
+		const { chunks } = split(['The door <', 'creaks <th']);
+		expect(chunks.map(chunk => chunk.text)).toEqual(['The door ', '<creaks ', '<th']);
+	});
+
+	it('reads deltas from a Workers AI stream and rejects one cut off', async () => {
+		const read = async (stream: ReadableStream<Uint8Array>) => {
+			const deltas: string[] = [];
+			for await (const delta of readAiStream(stream)) deltas.push(delta);
+			return deltas;
+		};
+		expect(await read(aiStream(['The ', 'door'], true))).toEqual(['The ', 'door']);
+		await expect(read(aiStream(['The ', 'door'], false))).rejects.toThrow('[DONE]');
+	});
+});
+
+describe('EffectApplier', () => {
+	const setup = () => {
+		const players = new Map<string, Player>([['p1', { id: 'p1', name: 'Thia', hp: 10, inventory: [createItem('health potion', 2), createItem('potion of giant strength')] }]]);
+		const combat: CombatState = { active: false, turnOrder: [], currentTurnIndex: 0, enemies: [], round: 0, initiative: [], readied: [], reactionsUsed: [] };
+		return { players, combat, applier: new EffectApplier() };
+	};
+
+	it('parses fenced JSON and rejects unknown effect types', () => {
+		expect(parseEffects('```json\n[{"type":"combat_end"}]\n```')).toEqual([{ type: 'combat_end' }]);
+		expect(parseEffects('[{"type":"teleport","target":"Thia"}]')).toBeNull();
+		expect(parseEffects('not json')).toBeNull();
+	});
+
+	it('applies damage, healing and exact item changes', () => {
+		const { players, combat, applier } = setup();
+		applier.apply([
+			{ type: 'damage', target: 'thia', amount: 4 },
+			{ type: 'heal', target: 'Thia', amount: 1 },
+			{ type: 'item_lost', target: 'Thia', item: 'potion' },
+			{ type: 'item_lost', target: 'Thia', item: 'Health Potion' },
+			{ type: 'item_gained', target: 'Thia', item: 'Silver Key' },
+		], players, combat);
+		expect(players.get('p1')?.hp).toBe(7);
+		expect(players.get('p1')?.inventory.map(item => item.name)).toEqual(['potion of giant strength', 'silver key']);
+	});
+
+	it('adds and removes validated conditions', () => {
+		const { players, combat, applier } = setup();
+		expect(parseEffects('[{"type":"condition_add","target":"Thia","condition":"sleepy"}]')).toBeNull();
+		expect(parseEffects('[{"type":"condition_add","target":"Thia","condition":"poisoned","save":{"ability":"luck","dc":12}}]')).toBeNull();
+
+		const effects = parseEffects('[{"type":"condition_add","target":"Thia","condition":"poisoned","rounds":2,"save":{"ability":"con","dc":12}},{"type":"condition_add","target":"Thia","condition":"prone"}]')!;
+		applier.apply(effects, players, combat);
+		expect(players.get('p1')?.conditions?.map(c => c.name)).toEqual(['poisoned', 'prone']);
+
+		applier.apply([{ type: 'condition_remove', target: 'Thia', condition: 'prone' }], players, combat);
+		expect(players.get('p1')?.conditions).toEqual([{ name: 'poisoned', roundsRemaining: 2, save: { ability: 'con', dc: 12 }, source: undefined }]);
+	});
+
+	it('caps milestone XP and leaves the dead out of party milestones', () => {
+		const { players, combat, applier } = setup();
+		expect(parseEffects(`[{"type":"milestone","amount":${MAX_MILESTONE_XP + 1}}]`)).toBeNull();
+
+		players.set('p2', { id: 'p2', name: 'Bram', hp: 0, dead: true, inventory: [] });
+		applier.apply(parseEffects(`[{"type":"milestone","amount":${MAX_MILESTONE_XP}}]`)!, players, combat);
+		expect(players.get('p1')?.xp).toBe(MAX_MILESTONE_XP);
+		expect(players.get('p2')?.xp).toBeUndefined();
+	});
+
+	it('spawns bestiary monsters with rolled HP and stats when hp is omitted', () => {
+		const { players, combat, applier } = setup();
+		applier.apply(parseEffects('[{"type":"enemy_spawn","name":"Goblin"}]')!, players, combat);
+		expect(combat.enemies[0]).toMatchObject({ name: 'Goblin', stats: { ac: 15, xp: 50 } });
+		expect(combat.enemies[0].hp).toBeGreaterThanOrEqual(2);
+		expect(combat.initiative.find(entry => entry.name === 'Goblin')?.modifier).toBe(2);
+	});
+
+	it('starts combat on spawn and ends it when every enemy falls', () => {
+		const { players, combat, applier } = setup();
+		applier.apply([{ type: 'enemy_spawn', name: 'Goblin', hp: 7 }], players, combat);
+		expect(combat.active).toBe(true);
+		expect([...combat.turnOrder].sort()).toEqual(['Goblin', 'Thia']);
+		expect(combat.round).toBe(1);
+
+		applier.apply([{ type: 'damage', target: 'the Goblin', amount: 9 }], players, combat);
+		expect(combat.active).toBe(false);
+		expect(combat.enemies).toEqual([]);
+	});
+
+	it('spawns counted groups and damages only the labelled instance', () => {
+		const { players, combat, applier } = setup();
+		expect(parseEffects('[{"type":"enemy_spawn","name":"Goblin","count":11}]')).toBeNull();
+		applier.apply(parseEffects('[{"type":"enemy_spawn","name":"Goblin","hp":7,"count":3}]')!, players, combat);
+		expect([...combat.turnOrder].sort()).toEqual(['Goblin A', 'Goblin B', 'Goblin C', 'Thia']);
+
+		applier.apply([{ type: 'damage', target: 'Goblin B', amount: 4 }, { type: 'damage', target: 'goblin', amount: 4 }], players, combat);
+		expect(combat.enemies.map(enemy => enemy.hp)).toEqual([7, 3, 7]);
 	});
 });
 
 describe('DungeonMasterService', () => {
 	const buildContext = () => ({
 		players: [{ id: 'p1', name: 'Aelar', hp: 20, inventory: [] }],
-		messages: [{ actor: 'DM', content: 'Welcome to the forest.', ts: Date.now() }],
-		combat: { active: false, turnOrder: [], currentTurnIndex: 0, enemies: [] },
+		messages: [{ seq: 1, actor: 'DM', content: 'Welcome to the forest.', ts: Date.now() }],
+		combat: { active: false, turnOrder: [], currentTurnIndex: 0, enemies: [], round: 0, initiative: [], readied: [], reactionsUsed: [] },
 	});
 
+	// Streams the given deltas as one answer; an incomplete stream then breaks off, as a dropped connection would.
+	const streamingProvider = (deltas: string[], complete = true) => {
+		const stream = vi.fn(async function* () {
+			yield* deltas;
+			if (!complete) throw new Error('AI stream ended before [DONE]');
+		});
+		const provider: LlmProvider = {
+			name: 'scripted',
+			model: 'stream',
+			capabilities: { streaming: true, contextWindow: CONTEXT_WINDOW_TOKENS },
+			complete: async () => deltas.join(''),
+			stream,
+		};
+		return { provider, stream };
+	};
+
 	it('retries transient errors before succeeding', async () => {
-		const run = vi.fn()
-			.mockRejectedValueOnce(new Error('504 Gateway Time-out'))
-			.mockResolvedValueOnce({ response: 'The DM returns.' });
-		const service = new DungeonMasterService({ run } as any, { maxAttempts: 3, backoffMs: 0 });
+		const provider = new ScriptedProvider('test', [new Error('504 Gateway Time-out'), 'The DM returns.']);
+		const complete = vi.spyOn(provider, 'complete');
+		const service = new DungeonMasterService(provider, { maxAttempts: 3, backoffMs: 0 });
 		const context = buildContext();
 		const result = await service.narrate(context, context.players[0], 'looks around');
-		expect(run).toHaveBeenCalledTimes(2);
+		expect(complete).toHaveBeenCalledTimes(2);
 		expect(result.degraded).toBe(false);
 		expect(result.text).toBe('The DM returns.');
 	});
 
+	it('splits a valid effects block out of the narration', async () => {
+		const provider = new ScriptedProvider('test', ['The Goblin takes the bait. <effects>[{"type":"damage","target":"Aelar","amount":2}]</effects>']);
+		const service = new DungeonMasterService(provider, { maxAttempts: 1, backoffMs: 0 });
+		const context = buildContext();
+		const result = await service.narrate(context, context.players[0], 'sets a trap');
+		expect(result.text).toBe('The Goblin takes the bait.');
+		expect(result.effects).toEqual([{ type: 'damage', target: 'Aelar', amount: 2 }]);
+	});
+
+	it('reports missing or invalid effects blocks as null', async () => {
+		const provider = new ScriptedProvider('test', ['Nothing happens.', 'Oops. <effects>[{"type":"damage","target":"Aelar"}]</effects>']);
+		const service = new DungeonMasterService(provider, { maxAttempts: 1, backoffMs: 0 });
+		const context = buildContext();
+		expect((await service.narrate(context, context.players[0], 'waits')).effects).toBeNull();
+		const invalid = await service.narrate(context, context.players[0], 'waits');
+		expect(invalid.effects).toBeNull();
+		expect(invalid.text).toBe('Oops.');
+	});
+
+	it('streams narration and thinking and returns the same result as narrate', async () => {
+		const { provider, stream } = streamingProvider(['<thinking>d20=', '14</think', 'ing>The Goblin ', 'yelps. <effects>[{"type":"damage","target":"Aelar","amount":2}]</eff', 'ects>']);
+		const service = new DungeonMasterService(provider, { maxAttempts: 1, backoffMs: 0 });
+		const context = buildContext();
+		const chunks: NarrationChunk[] = [];
+		const result = await service.narrateStream(context, context.players[0], 'taunts', chunk => chunks.push(chunk));
+		expect(stream).toHaveBeenCalledTimes(1);
+		expect(chunks.filter(chunk => chunk.channel === 'narration').map(chunk => chunk.text).join('')).toBe('The Goblin yelps. ');
+		expect(result).toEqual({ text: 'The Goblin yelps.', thinking: 'd20=14', degraded: false, effects: [{ type: 'damage', target: 'Aelar', amount: 2 }] });
+	});
+
+	it('degrades without retrying when a stream breaks after text went out', async () => {
+		const { provider, stream } = streamingProvider(['The Goblin ', 'raises its'], false);
+		const service = new DungeonMasterService(provider, { maxAttempts: 3, backoffMs: 0, fallback: new ScriptedProvider('backup', ['Never sent.']) });
+		const context = buildContext();
+		const result = await service.narrateStream(context, context.players[0], 'waits', () => {});
+		expect(stream).toHaveBeenCalledTimes(1);
+		expect(result).toMatchObject({ degraded: true, effects: null });
+	});
+
+	it('trims the oldest transcript to fit the context window but keeps the dice tray', async () => {
+		const provider = new ScriptedProvider('test', ['The DM nods.']);
+		const complete = vi.spyOn(provider, 'complete');
+		const service = new DungeonMasterService(provider, { maxAttempts: 1, backoffMs: 0, contextWindow: 5000 });
+		const context = {
+			...buildContext(),
+			messages: Array.from({ length: 50 }, (_, index) => ({ seq: index + 1, actor: 'DM', content: `Scene ${index + 1}. ${'The rain keeps falling. '.repeat(20)}`, ts: 0 })),
+			rolls: { declared: [], tray: [rollNotation('d20', createRng(1))!] },
+		};
+		await service.narrate(context, context.players[0], 'listens');
+		const [{ messages }] = complete.mock.calls[0];
+		const primer: string = messages[1].content;
+		expect(primer).toContain('Scene 50.');
+		expect(primer).not.toContain('Scene 1.');
+		expect(primer).toContain('Dice tray: #1 d20=');
+		expect(messages[2].content).toBe('Aelar (p1) acts: listens');
+	});
+
+	it('falls back to the secondary model once the primary keeps failing', async () => {
+		const primary = new ScriptedProvider('primary', [new Error('504 Gateway Time-out')]);
+		const fallback = new ScriptedProvider('backup', ['The backup DM takes over. <effects>[]</effects>']);
+		const service = new DungeonMasterService(primary, { maxAttempts: 2, backoffMs: 0, fallback });
+		const context = buildContext();
+		expect(await service.narrate(context, context.players[0], 'waits')).toEqual({ text: 'The backup DM takes over.', thinking: '', degraded: false, effects: [] });
+
+		const chunks: NarrationChunk[] = [];
+		const streamed = await service.narrateStream(context, context.players[0], 'waits', chunk => chunks.push(chunk));
+		expect(streamed.text).toBe('The backup DM takes over.');
+		expect(chunks.map(chunk => chunk.text).join('')).toBe('The backup DM takes over. ');
+	});
+
+	it('narrates offline, the same way every time, with the scripted provider', async () => {
+		const context = buildContext();
+		const narrate = () => new DungeonMasterService(new ScriptedProvider(), { maxAttempts: 1 }).narrate(context, context.players[0], 'I light a torch');
+		const first = await narrate();
+		expect(first).toMatchObject({ degraded: false, effects: null });
+		expect(first.text).toContain('("I light a torch")');
+		expect(await narrate()).toEqual(first);
+
+		const memory = await new DungeonMasterService(new ScriptedProvider()).summarizeSegment(emptyMemory(), context.messages);
+		expect(memory).toMatchObject({ summarizedThrough: 1 });
+	});
+
 	it('returns fallback when retries are exhausted', async () => {
-		const run = vi.fn().mockRejectedValue(new Error('InferenceUpstreamError: 504 Gateway Time-out'));
-		const service = new DungeonMasterService({ run } as any, { maxAttempts: 2, backoffMs: 0 });
+		const provider = new ScriptedProvider('test', [new Error('InferenceUpstreamError: 504 Gateway Time-out')]);
+		const complete = vi.spyOn(provider, 'complete');
+		const service = new DungeonMasterService(provider, { maxAttempts: 2, backoffMs: 0 });
 		const context = buildContext();
 		const result = await service.narrate(context, context.players[0], 'waits patiently');
-		expect(run).toHaveBeenCalledTimes(2);
+		expect(complete).toHaveBeenCalledTimes(2);
 		expect(result.degraded).toBe(true);
 		expect(result.text).toContain('AI service is unavailable');
 	});
 });
+
+// Durable Object storage stand-in backed by a Map, with a spy on every call.
+const createStorage = () => {
+	const data = new Map<string, unknown>();
+	return {
+		data,
+		get: vi.fn(async (key: string) => structuredClone(data.get(key)) as any),
+		put: vi.fn(async (key: string | Record<string, unknown>, value?: unknown) => {
+			const entries = typeof key === 'string' ? { [key]: value } : key;
+			Object.entries(entries).forEach(([entryKey, entry]) => data.set(entryKey, structuredClone(entry)));
+		}),
+		list: vi.fn(async ({ prefix = '', start, end, reverse = false, limit = Infinity }: { prefix?: string; start?: string; end?: string; reverse?: boolean; limit?: number }) => {
+			const keys = Array.from(data.keys())
+				.filter(key => key.startsWith(prefix) && (start === undefined || key >= start) && (end === undefined || key < end))
+				.sort();
+			if (reverse) keys.reverse();
+			return new Map(keys.slice(0, limit).map(key => [key, structuredClone(data.get(key))]));
+		}),
+		delete: vi.fn(async (keys: string[]) => keys.filter(key => data.delete(key)).length),
+	};
+};
+
+describe('SessionCoordinator', () => {
+	const createCoordinator = (sockets: { send: ReturnType<typeof vi.fn> }[] = [], storage = createStorage()) => {
+		// Startup and waitUntil work, for tests that need it settled.
+		const pending: Promise<unknown>[] = [];
+		const track = <T>(promise: Promise<T>) => {
+			pending.push(promise);
+			return promise;
+		};
+		const state = {
+			storage,
+			pending,
+			waitUntil: vi.fn(track),
+			blockConcurrencyWhile: (fn: () => Promise<void>) => track(fn()),
+			acceptWebSocket: vi.fn(),
+			getWebSockets: vi.fn(() => sockets),
+		};
+		const registryFetch = vi.fn(async (_input: RequestInfo, _init?: RequestInit) => new Response('{}'));
+		const coordinatorEnv = {
+			AI: { run: vi.fn().mockResolvedValue({ response: 'The forest is quiet.' }) },
+			SESSION_REGISTRY: { idFromName: vi.fn(() => ({})), get: vi.fn(() => ({ fetch: registryFetch })) },
+			PLAYER_TOKEN_SECRET: 'test-secret',
+		};
+		const coordinator = new SessionCoordinator(state as any, coordinatorEnv as any);
+		return { coordinator, storage, state, env: coordinatorEnv, registryFetch };
+	};
+
+	const post = (path: string, body: unknown) =>
+		new Request(`http://internal/${path}`, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+
+	const sentEvents = (socket: { send: ReturnType<typeof vi.fn> }) => socket.send.mock.calls.map(([raw]) => JSON.parse(raw));
+
+	it('serves state reads without writing storage', async () => {
+		const { coordinator, storage } = createCoordinator();
+		const response = await coordinator.fetch(new Request('http://internal/state'));
+		expect(response.status).toBe(200);
+		expect(storage.put).not.toHaveBeenCalled();
+	});
+
+	it('broadcasts join, messages and player changes to connected sockets', async () => {
+		const socket = { send: vi.fn() };
+		const { coordinator } = createCoordinator([socket]);
+
+		await coordinator.fetch(post('join', { sessionId: 's1', playerId: 'p1', name: 'Thia' }));
+		await coordinator.fetch(post('action', { sessionId: 's1', playerId: 'p1', playerAction: 'looks around' }));
+
+		const events = sentEvents(socket);
+		const messages = events.filter(event => event.type === 'message').map(event => event.message);
+		expect(messages.map(m => m.actor)).toEqual(['DM', 'Thia', 'DM']);
+		expect(messages.map(m => m.seq)).toEqual([1, 2, 3]);
+		// Players are pushed once on join; the quiet action leaves them untouched.
+		expect(events.filter(event => event.type === 'players')).toHaveLength(1);
+		expect(events.filter(event => event.type === 'combat')).toHaveLength(1);
+	});
+
+	it('issues player tokens on join and requires them to rejoin', async () => {
+		const { coordinator } = createCoordinator();
+		const joined = await coordinator.fetch(post('join', { sessionId: 's1', playerId: 'p1', name: 'Thia' }));
+		const { token } = await joined.json() as { token: string };
+		expect(await verifyPlayerToken('test-secret', 's1', 'p1', token)).toBe(true);
+
+		const spoofed = await coordinator.fetch(post('join', { sessionId: 's1', playerId: 'p1', name: 'Mallory' }));
+		expect(spoofed.status).toBe(403);
+
+		const rejoin = post('join', { sessionId: 's1', playerId: 'p1', name: 'Thia the Bold' });
+		rejoin.headers.set('Authorization', `Bearer ${token}`);
+		const rejoined = await coordinator.fetch(rejoin);
+		expect(rejoined.status).toBe(200);
+		const { players } = await rejoined.json() as { players: Player[] };
+		expect(players.map(player => player.name)).toEqual(['Thia the Bold']);
+	});
+
+	it('creates characters on join and rejects invalid sheets', async () => {
+		const { coordinator } = createCoordinator();
+		const invalid = await coordinator.fetch(post('join', {
+			sessionId: 's1', playerId: 'p1', name: 'Thia', character: { race: 'elf', className: 'wizard', method: 'standard', abilities: { str: 18, dex: 18, con: 18, int: 18, wis: 18, cha: 18 } },
+		}));
+		expect(invalid.status).toBe(400);
+
+		const response = await coordinator.fetch(post('join', { sessionId: 's1', playerId: 'p1', name: 'Thia', character: { race: 'elf', className: 'wizard' } }));
+		const { players } = await response.json() as { players: Player[] };
+		expect(players[0].character?.className).toBe('Wizard');
+		expect(players[0].hp).toBe(players[0].character?.maxHp);
+	});
+
+	it('rolls initiative when combat starts and only advances turns afterwards', async () => {
+		const { coordinator, env: coordinatorEnv } = createCoordinator();
+		await coordinator.fetch(post('join', { sessionId: 's1', playerId: 'p1', name: 'Thia' }));
+		coordinatorEnv.AI.run.mockResolvedValueOnce({ response: 'Roll initiative! <effects>[{"type":"enemy_spawn","name":"Goblin","hp":7}]</effects>' });
+
+		const response = await coordinator.fetch(post('action', { sessionId: 's1', playerId: 'p1', playerAction: 'opens the door' }));
+		const { state } = await response.json() as { state: { combat: CombatState } };
+		expect(state.combat.active).toBe(true);
+		expect(state.combat.round).toBe(1);
+		expect(state.combat.currentTurnIndex).toBe(0);
+		expect(state.combat.initiative.map(entry => entry.name).sort()).toEqual(['Goblin', 'Thia']);
+
+		const late = await coordinator.fetch(post('join', { sessionId: 's1', playerId: 'p2', name: 'Bram' }));
+		const { messages } = await late.json() as { messages: { content: string }[] };
+		expect(messages.some(m => m.content.startsWith('Initiative: '))).toBe(true);
+		expect(messages[messages.length - 1].content).toMatch(/^Bram joins the fight with initiative \d+/);
+	});
+
+	it('rejects out-of-turn actions but allows reactions and speech', async () => {
+		const { coordinator, env: coordinatorEnv } = createCoordinator();
+		await coordinator.fetch(post('join', { sessionId: 's1', playerId: 'p1', name: 'Thia' }));
+		await coordinator.fetch(post('join', { sessionId: 's1', playerId: 'p2', name: 'Bram' }));
+		coordinatorEnv.AI.run.mockResolvedValueOnce({ response: 'Roll initiative! <effects>[{"type":"enemy_spawn","name":"Goblin","hp":7}]</effects>' });
+		const start = await coordinator.fetch(post('action', { sessionId: 's1', playerId: 'p1', playerAction: 'opens the door' }));
+		const { state } = await start.json() as { state: { combat: CombatState } };
+
+		const acting = actingPlayer(state.combat)!;
+		const waiting = acting.id === 'p1' ? 'p2' : 'p1';
+		const rejected = await coordinator.fetch(post('action', { sessionId: 's1', playerId: waiting, playerAction: 'I attack the goblin' }));
+		expect(rejected.status).toBe(409);
+		expect(await rejected.json()).toMatchObject({ error: expect.stringContaining(`It is ${acting.name}'s turn`) });
+
+		const speech = await coordinator.fetch(post('action', { sessionId: 's1', playerId: waiting, playerAction: '/say Watch out!' }));
+		expect(await speech.json()).toMatchObject({ speech: true });
+		const reaction = await coordinator.fetch(post('action', { sessionId: 's1', playerId: waiting, playerAction: '/react I raise my shield' }));
+		expect(reaction.status).toBe(200);
+		const secondReaction = await coordinator.fetch(post('action', { sessionId: 's1', playerId: waiting, playerAction: '/react again' }));
+		expect(secondReaction.status).toBe(409);
+
+		const taken = await coordinator.fetch(post('action', { sessionId: 's1', playerId: acting.id, playerAction: 'I attack the goblin' }));
+		const after = (await taken.json() as { state: { combat: CombatState } }).state.combat;
+		expect(actingPlayer(after)?.id).toBe(waiting);
+	});
+
+	it('passes over defeated enemies when handing out turns', async () => {
+		const storage = createStorage();
+		const entry = (id: string, name: string, kind: 'player' | 'enemy', total: number) => ({ id, name, kind, modifier: 0, roll: total, total, tiebreaker: 0 });
+		const initiative = [entry('p1', 'Thia', 'player', 20), entry('g1', 'Goblin A', 'enemy', 16), entry('g2', 'Goblin B', 'enemy', 12), entry('p2', 'Bram', 'player', 8), entry('g3', 'Goblin C', 'enemy', 4)];
+		storage.data.set('session', {
+			players: [['p1', { id: 'p1', name: 'Thia', hp: 12, inventory: [], character: defaultCharacter() }], ['p2', { id: 'p2', name: 'Bram', hp: 12, inventory: [], character: defaultCharacter() }]],
+			combat: {
+				...defaultCombatState(),
+				active: true,
+				round: 1,
+				initiative,
+				turnOrder: initiative.map(({ name }) => name),
+				enemies: [{ id: 'g1', name: 'Goblin A', hp: 7 }, { id: 'g2', name: 'Goblin B', hp: 7 }, { id: 'g3', name: 'Goblin C', hp: 7 }],
+			},
+			lastActivity: Date.now(),
+			sessionId: 's1',
+		});
+		const { coordinator, state: objectState, env: coordinatorEnv } = createCoordinator([], storage);
+		await Promise.all(objectState.pending);
+
+		coordinatorEnv.AI.run.mockResolvedValueOnce({ response: 'Goblin A falls. <effects>[{"type":"damage","target":"Goblin A","amount":7}]</effects>' });
+		await coordinator.fetch(post('action', { sessionId: 's1', playerId: 'p1', playerAction: 'I stab Goblin A' }));
+
+		const delayed = await coordinator.fetch(post('turn', { sessionId: 's1', playerId: 'p2', intent: 'delay' }));
+		expect(delayed.status).toBe(409);
+		expect(await delayed.json()).toEqual({ error: 'Goblin B act before you; describe your action instead.' });
+
+		await coordinator.fetch(post('action', { sessionId: 's1', playerId: 'p2', playerAction: 'I charge Goblin B' }));
+		const [, { messages }] = coordinatorEnv.AI.run.mock.calls[coordinatorEnv.AI.run.mock.calls.length - 1];
+		expect(messages[1].content).toContain('Before this action, resolve the turns of: Goblin B.');
+	});
+
+	it('ticks conditions when a combat turn ends and shows them to the DM', async () => {
+		const { coordinator, env: coordinatorEnv } = createCoordinator();
+		await coordinator.fetch(post('join', { sessionId: 's1', playerId: 'p1', name: 'Thia' }));
+		coordinatorEnv.AI.run.mockResolvedValueOnce({
+			response: 'Roll initiative! <effects>[{"type":"enemy_spawn","name":"Goblin","hp":7},{"type":"condition_add","target":"Thia","condition":"blinded","rounds":1}]</effects>',
+		});
+		await coordinator.fetch(post('action', { sessionId: 's1', playerId: 'p1', playerAction: 'opens the door' }));
+
+		const response = await coordinator.fetch(post('action', { sessionId: 's1', playerId: 'p1', playerAction: 'I swing wildly' }));
+		const { state } = await response.json() as { state: { players: Player[] } };
+		expect(state.players[0].conditions).toEqual([]);
+
+		const [, { messages }] = coordinatorEnv.AI.run.mock.calls[1];
+		expect(messages[1].content).toContain('Thia(HP:12/12; blinded (1 round))');
+
+		const stateResponse = await coordinator.fetch(new Request('http://internal/state'));
+		const transcript = (await stateResponse.json() as { messages: { content: string }[] }).messages;
+		expect(transcript[transcript.length - 1].content).toBe('Thia is no longer blinded.');
+	});
+
+	it('blocks unconscious players and ends combat in defeat when the party falls', async () => {
+		const { coordinator, env: coordinatorEnv } = createCoordinator();
+		await coordinator.fetch(post('join', { sessionId: 's1', playerId: 'p1', name: 'Thia' }));
+		coordinatorEnv.AI.run.mockResolvedValueOnce({ response: 'Roll initiative! <effects>[{"type":"enemy_spawn","name":"Ogre","hp":50}]</effects>' });
+		await coordinator.fetch(post('action', { sessionId: 's1', playerId: 'p1', playerAction: 'opens the door' }));
+
+		coordinatorEnv.AI.run.mockResolvedValueOnce({ response: 'The ogre clubs Thia. <effects>[{"type":"damage","target":"Thia","amount":14}]</effects>' });
+		const fallen = await coordinator.fetch(post('action', { sessionId: 's1', playerId: 'p1', playerAction: 'I charge' }));
+		const body = await fallen.json() as { outcome?: string; state: { players: Player[]; combat: CombatState } };
+		expect(body.outcome).toBe('defeat');
+		expect(body.state.combat.active).toBe(false);
+		expect(body.state.players[0]).toMatchObject({ hp: 0, deathSaves: { stable: false } });
+
+		// With no turn order left, a dying character's action becomes their death save.
+		const save = await coordinator.fetch(post('action', { sessionId: 's1', playerId: 'p1', playerAction: 'I crawl away' }));
+		const saveBody = await save.json() as { deathSave: boolean; result: string };
+		expect(saveBody.deathSave).toBe(true);
+		expect(saveBody.result).toMatch(/^Thia makes a death saving throw: d20 \d+/);
+		expect(coordinatorEnv.AI.run).toHaveBeenCalledTimes(2);
+	});
+
+	it('awards XP when the last enemy falls and announces milestones', async () => {
+		const { coordinator, env: coordinatorEnv } = createCoordinator();
+		await coordinator.fetch(post('join', { sessionId: 's1', playerId: 'p1', name: 'Thia' }));
+		coordinatorEnv.AI.run.mockResolvedValueOnce({ response: 'Roll initiative! <effects>[{"type":"enemy_spawn","name":"Orc","hp":7}]</effects>' });
+		await coordinator.fetch(post('action', { sessionId: 's1', playerId: 'p1', playerAction: 'opens the door' }));
+
+		coordinatorEnv.AI.run.mockResolvedValueOnce({ response: 'The orc falls. <effects>[{"type":"damage","target":"Orc","amount":7},{"type":"milestone","amount":250,"reason":"cleared the gate"}]</effects>' });
+		const response = await coordinator.fetch(post('action', { sessionId: 's1', playerId: 'p1', playerAction: 'I swing' }));
+		const { state } = await response.json() as { state: { players: Player[] } };
+		expect(state.players[0]).toMatchObject({ xp: 350, character: { level: 2, maxHp: 20 } });
+
+		const stateResponse = await coordinator.fetch(new Request('http://internal/state'));
+		const transcript = (await stateResponse.json() as { messages: { content: string }[] }).messages.map(message => message.content);
+		expect(transcript.slice(-3)).toEqual([
+			'Defeated Orc: 100 XP.',
+			'Thia gains 350 XP (350/900 XP).',
+			'Thia reaches level 2! Max HP 12 → 20. New features: Action Surge.',
+		]);
+	});
+
+	it('streams an action over server-sent events and applies effects once it completes', async () => {
+		const { coordinator, storage, env: coordinatorEnv } = createCoordinator();
+		await coordinator.fetch(post('join', { sessionId: 's1', playerId: 'p1', name: 'Thia' }));
+		coordinatorEnv.AI.run.mockResolvedValueOnce(aiStream(['A dart ', 'hits Thia. <effects>[{"type":"damage","target":"Thia","amount":3}]</effects>']));
+		storage.put.mockClear();
+
+		const response = await coordinator.fetch(post('action/stream', { sessionId: 's1', playerId: 'p1', playerAction: 'opens the chest' }));
+		expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+		const events = (await response.text()).trim().split('\n\n').map(raw => {
+			const [, event, data] = raw.match(/^event: (.+)\ndata: (.+)$/)!;
+			return { event, data: JSON.parse(data) };
+		});
+		expect(events.filter(({ event }) => event === 'narration').map(({ data }) => data.text).join('')).toBe('A dart hits Thia. ');
+		const done = events[events.length - 1];
+		expect(done.event).toBe('done');
+		expect(done.data).toMatchObject({ result: 'A dart hits Thia.', degraded: false });
+		expect(done.data.state.players[0].hp).toBe(9);
+		expect(storage.put).toHaveBeenCalled();
+
+		// Rejections never open a stream.
+		const rejected = await coordinator.fetch(post('action/stream', { sessionId: 's1', playerId: 'ghost', playerAction: 'waits' }));
+		expect(rejected.status).toBe(400);
+	});
+
+	it('marks a streamed turn degraded when the model stream breaks', async () => {
+		const { coordinator, env: coordinatorEnv } = createCoordinator();
+		await coordinator.fetch(post('join', { sessionId: 's1', playerId: 'p1', name: 'Thia' }));
+		coordinatorEnv.AI.run.mockResolvedValueOnce(aiStream(['A dart hits Thia. <effects>[{"type":"damage","target":"Thia","amount":3}]</effects>'], false));
+
+		const response = await coordinator.fetch(post('action/stream', { sessionId: 's1', playerId: 'p1', playerAction: 'opens the chest' }));
+		const body = await response.text();
+		const done = JSON.parse(body.slice(body.indexOf('event: done\ndata: ') + 'event: done\ndata: '.length).trim());
+		expect(done).toMatchObject({ degraded: true, result: expect.stringContaining('AI service is unavailable') });
+		expect(done.state.players[0].hp).toBe(12);
+	});
+
+	it('changes inventories through the inventory route and announces it', async () => {
+		const { coordinator } = createCoordinator();
+		await coordinator.fetch(post('join', { sessionId: 's1', playerId: 'p1', name: 'Thia' }));
+
+		const added = await coordinator.fetch(post('inventory', { sessionId: 's1', playerId: 'p1', intent: 'add', item: 'Silver Mirror', quantity: 2, type: 'treasure', weight: 0.5 }));
+		expect(added.status).toBe(200);
+		const { player } = await added.json() as { player: Player };
+		expect(player.inventory[player.inventory.length - 1]).toEqual({ name: 'silver mirror', quantity: 2, type: 'treasure', weight: 0.5 });
+
+		const poor = await coordinator.fetch(post('inventory', { sessionId: 's1', playerId: 'p1', intent: 'coins', coins: { gp: -50 } }));
+		expect(poor.status).toBe(409);
+		const missing = await coordinator.fetch(post('inventory', { sessionId: 's1', playerId: 'p1', intent: 'remove', item: 'lute' }));
+		expect(missing.status).toBe(400);
+		const invalid = await coordinator.fetch(post('inventory', { sessionId: 's1', playerId: 'p1', intent: 'equip' }));
+		expect(invalid.status).toBe(400);
+
+		await coordinator.fetch(post('inventory', { sessionId: 's1', playerId: 'p1', intent: 'unequip', item: 'sword' }));
+		const stateResponse = await coordinator.fetch(new Request('http://internal/state'));
+		const state = await stateResponse.json() as { players: Player[]; messages: { content: string }[] };
+		expect(state.players[0].inventory[0].equipped).toBeUndefined();
+		expect(state.messages.slice(-2).map(message => message.content)).toEqual([
+			'Thia adds 2 × silver mirror to their pack.',
+			'Thia stows the basic sword.',
+		]);
+	});
+
+	it('leaves item and coin grants to the owner and caps coin changes', async () => {
+		const { coordinator } = createCoordinator();
+		await coordinator.fetch(post('join', { sessionId: 's1', playerId: 'p1', name: 'Thia' }));
+		await coordinator.fetch(post('join', { sessionId: 's1', playerId: 'p2', name: 'Bram' }));
+
+		const conjured = await coordinator.fetch(post('inventory', { sessionId: 's1', playerId: 'p2', intent: 'add', item: 'longsword' }));
+		expect(conjured.status).toBe(403);
+		const minted = await coordinator.fetch(post('inventory', { sessionId: 's1', playerId: 'p2', intent: 'coins', coins: { gp: 5, sp: -1 } }));
+		expect(minted.status).toBe(403);
+		const spent = await coordinator.fetch(post('inventory', { sessionId: 's1', playerId: 'p2', intent: 'coins', coins: { sp: -1 } }));
+		expect(spent.status).toBe(200);
+
+		const oversized = await coordinator.fetch(post('inventory', { sessionId: 's1', playerId: 'p1', intent: 'coins', coins: { gp: 1e300 } }));
+		expect(oversized.status).toBe(400);
+		const overCap = await coordinator.fetch(post('inventory', { sessionId: 's1', playerId: 'p1', intent: 'coins', coins: { gp: MAX_COIN_CHANGE + 1 } }));
+		expect(overCap.status).toBe(400);
+		const granted = await coordinator.fetch(post('inventory', { sessionId: 's1', playerId: 'p1', intent: 'coins', coins: { gp: MAX_COIN_CHANGE } }));
+		expect(granted.status).toBe(200);
+		expect(parseEffects(`[{"type":"coins","target":"Thia","gp":${MAX_COIN_CHANGE + 1}}]`)).toBeNull();
+	});
+
+	it('stores each message once and pages back through the history', async () => {
+		const { coordinator, storage } = createCoordinator();
+		await coordinator.fetch(post('join', { sessionId: 's1', playerId: 'p1', name: 'Thia' }));
+		for (let i = 0; i < 120; i++) {
+			await coordinator.fetch(post('roll', { sessionId: 's1', playerId: 'p1', notation: 'd20' }));
+		}
+		const messageKeys = Array.from(storage.data.keys()).filter(key => key.startsWith('message:'));
+		expect(messageKeys).toHaveLength(121);
+		expect(storage.data.get('session')).not.toHaveProperty('messages');
+		// Every put after the first writes the snapshot plus only the new message.
+		const lastMessagePut = storage.put.mock.calls.filter(([key]) => typeof key !== 'string').pop()!;
+		expect(Object.keys(lastMessagePut[0])).toEqual(['message:000000000121']);
+
+		const history = async (query: string) => (await coordinator.fetch(new Request(`http://internal/history?${query}`))).json() as Promise<{ messages: { seq: number }[]; nextCursor: number | null }>;
+		const newest = await history('limit=50');
+		expect(newest.messages.map(message => message.seq)).toEqual(Array.from({ length: 50 }, (_, index) => index + 72));
+		expect(newest.nextCursor).toBe(72);
+		const oldest = await history('before=21&limit=50');
+		expect(oldest.messages.map(message => message.seq)).toEqual(Array.from({ length: 20 }, (_, index) => index + 1));
+		expect(oldest.nextCursor).toBeNull();
+		expect((await coordinator.fetch(new Request('http://internal/history?before=0'))).status).toBe(400);
+	});
+
+	it('moves a legacy transcript blob into message records on load', async () => {
+		const storage = createStorage();
+		storage.data.set('session', {
+			players: [['p1', { id: 'p1', name: 'Thia', hp: 10, inventory: [] }]],
+			messages: [{ actor: 'DM', content: 'Welcome', ts: 1 }, { actor: 'Thia', content: 'Hello', ts: 2 }],
+			combat: defaultCombatState(),
+			lastActivity: Date.now(),
+			sessionId: 's1',
+		});
+		const { coordinator, state: objectState } = createCoordinator([], storage);
+		await Promise.all(objectState.pending);
+		const state = await (await coordinator.fetch(new Request('http://internal/state'))).json() as { messages: { seq: number; content: string }[] };
+		expect(state.messages.map(message => [message.seq, message.content])).toEqual([[1, 'Welcome'], [2, 'Hello']]);
+		expect(storage.data.get('message:000000000002')).toMatchObject({ content: 'Hello' });
+		expect(storage.data.get('session')).not.toHaveProperty('messages');
+	});
+
+	it('quarantines an unreadable snapshot and starts the session empty', async () => {
+		const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+		const storage = createStorage();
+		storage.data.set('session', { players: 'Thia', combat: null });
+		storage.data.set('message:000000000001', { seq: 1, actor: 'DM', content: 'Welcome', ts: 1 });
+		const { coordinator, state: objectState } = createCoordinator([], storage);
+		await Promise.all(objectState.pending);
+
+		const quarantined = Array.from(storage.data.keys()).filter(key => key.startsWith('quarantine:'));
+		expect(quarantined).toHaveLength(2);
+		const snapshotKey = quarantined.find(key => key.endsWith(':session'))!;
+		expect(storage.data.get(snapshotKey)).toMatchObject({ snapshot: { players: 'Thia' }, error: expect.any(String) });
+		expect(storage.data.has('message:000000000001')).toBe(false);
+		expect(errorSpy).toHaveBeenCalled();
+
+		const joined = await coordinator.fetch(post('join', { sessionId: 's1', playerId: 'p1', name: 'Thia' }));
+		expect(joined.status).toBe(200);
+		expect(storage.data.get('session')).toMatchObject({ schemaVersion: SNAPSHOT_VERSION, ownerId: 'p1' });
+		errorSpy.mockRestore();
+	});
+
+	it('records server rolls as roll messages', async () => {
+		const { coordinator } = createCoordinator();
+		await coordinator.fetch(post('join', { sessionId: 's1', playerId: 'p1', name: 'Thia' }));
+
+		const response = await coordinator.fetch(post('roll', { sessionId: 's1', playerId: 'p1', notation: '2d6+3', label: 'Damage' }));
+		expect(response.status).toBe(200);
+		const { roll, message } = await response.json() as any;
+		expect(roll.total).toBeGreaterThanOrEqual(5);
+		expect(message.type).toBe('roll');
+		expect(message.content).toMatch(/^Damage: 2d6\+3: \[\d, \d\] \+ 3 = \d+$/);
+
+		const invalid = await coordinator.fetch(post('roll', { sessionId: 's1', playerId: 'p1', notation: 'lots of dice' }));
+		expect(invalid.status).toBe(400);
+	});
+
+	it('keeps its dice sequence across reloads so every roll can be replayed', async () => {
+		const first = createCoordinator();
+		await first.coordinator.fetch(post('join', { sessionId: 's1', playerId: 'p1', name: 'Thia' }));
+		await first.coordinator.fetch(post('roll', { sessionId: 's1', playerId: 'p1', notation: '4d6kh3' }));
+		const { dice } = first.storage.data.get('session') as SessionSnapshot;
+		expect(dice.draws).toBe(4);
+
+		const reloaded = createCoordinator([], first.storage);
+		await Promise.all(reloaded.state.pending);
+		const { roll, message } = await (await reloaded.coordinator.fetch(post('roll', { sessionId: 's1', playerId: 'p1', notation: '2d20' }))).json() as any;
+		expect(message.draw).toBe(4);
+		expect(rollNotation('2d20', trackedRng({ seed: dice.seed, draws: message.draw }))).toEqual(roll);
+		expect((reloaded.storage.data.get('session') as SessionSnapshot).dice).toEqual({ seed: dice.seed, draws: 6 });
+	});
+
+	it('folds old transcript into campaign memory and puts it ahead of recent messages', async () => {
+		const { coordinator, state, storage, env: coordinatorEnv } = createCoordinator();
+		await coordinator.fetch(post('join', { sessionId: 's1', playerId: 'p1', name: 'Thia' }));
+		for (let i = 0; i < 60; i++) {
+			await coordinator.fetch(post('roll', { sessionId: 's1', playerId: 'p1', notation: 'd20' }));
+		}
+		coordinatorEnv.AI.run
+			.mockResolvedValueOnce({ response: 'Mara waves.' })
+			.mockResolvedValueOnce({ response: '{"summary":"Thia rolled a lot of dice in Mara\'s tavern.","facts":["Mara runs the tavern"]}' });
+		await coordinator.fetch(post('action', { sessionId: 's1', playerId: 'p1', playerAction: 'waves back' }));
+		await Promise.all(state.pending);
+
+		expect((storage.data.get('session') as { memory: unknown }).memory).toEqual({ summary: "Thia rolled a lot of dice in Mara's tavern.", facts: ['Mara runs the tavern'], summarizedThrough: 40 });
+
+		await coordinator.fetch(post('action', { sessionId: 's1', playerId: 'p1', playerAction: 'orders an ale' }));
+		const [, { messages }] = coordinatorEnv.AI.run.mock.calls[2];
+		const primer: string = messages[1].content;
+		expect(primer.indexOf('Story so far:')).toBeLessThan(primer.indexOf('Recent:'));
+		expect(primer).toContain('- Mara runs the tavern');
+		expect(primer).not.toContain('enters the campaign');
+	});
+
+	it('hands the DM a server-rolled dice tray and declared rolls', async () => {
+		const { coordinator, env: coordinatorEnv } = createCoordinator();
+		await coordinator.fetch(post('join', { sessionId: 's1', playerId: 'p1', name: 'Thia' }));
+		await coordinator.fetch(post('action', { sessionId: 's1', playerId: 'p1', playerAction: 'I attack, 1d20+4' }));
+
+		const [, { messages }] = coordinatorEnv.AI.run.mock.calls[0];
+		expect(messages[1].content).toMatch(/Player rolls this turn: 1d20\+4: \[\d+\] \+ 4 = \d+/);
+		expect(messages[1].content).toMatch(/Dice tray: #1 d20=\d+/);
+	});
+
+	it('pushes its lobby listing to the registry when it changes', async () => {
+		const { coordinator, registryFetch } = createCoordinator();
+		const pushed = () => registryFetch.mock.calls
+			.filter(([input]) => getRequestUrl(input).endsWith('/update'))
+			.map(([, init]) => JSON.parse(init?.body as string) as SessionListing);
+
+		await coordinator.fetch(post('join', {
+			sessionId: 's1', playerId: 'p1', name: 'Thia',
+			settings: { title: 'The Sunken Keep', description: 'Bring rope.', maxPlayers: 4 },
+		}));
+		expect(pushed()[0]).toMatchObject({ sessionId: 's1', title: 'The Sunken Keep', description: 'Bring rope.', maxPlayers: 4, playerCount: 1, visibility: 'public', inCombat: false, inviteOnly: false });
+
+		// Later joiners do not get to rename the session.
+		await coordinator.fetch(post('join', { sessionId: 's1', playerId: 'p2', name: 'Bram', settings: { title: 'Mine now' } }));
+		expect(pushed()[1]).toMatchObject({ title: 'The Sunken Keep', playerCount: 2 });
+
+		// Nothing in the listing changed, so there is nothing to push.
+		await coordinator.fetch(post('roll', { sessionId: 's1', playerId: 'p1', notation: '1d20' }));
+		expect(pushed()).toHaveLength(2);
+
+		// A ban puts the session behind an invite code, so the lobby stops offering its seats.
+		await coordinator.fetch(post('moderate', { sessionId: 's1', playerId: 'p1', intent: 'ban', target: 'p2' }));
+		expect(pushed()[2]).toMatchObject({ playerCount: 1, visibility: 'public', inviteOnly: true });
+	});
+
+	it('keeps private sessions to invited players', async () => {
+		const { coordinator } = createCoordinator();
+		const created = await coordinator.fetch(post('join', { sessionId: 's1', playerId: 'p1', name: 'Thia', settings: { visibility: 'private', maxPlayers: 2 } }));
+		const { inviteCode, token } = await created.json() as { inviteCode: string; token: string };
+		expect(inviteCode).toMatch(/^\w{4}-\w{4}$/);
+
+		const uninvited = await coordinator.fetch(post('join', { sessionId: 's1', playerId: 'p2', name: 'Bram' }));
+		expect(uninvited.status).toBe(403);
+		expect((await coordinator.fetch(new Request('http://internal/state'))).status).toBe(403);
+		const ownState = new Request('http://internal/state?playerId=p1', { headers: { Authorization: `Bearer ${token}` } });
+		expect((await coordinator.fetch(ownState)).status).toBe(200);
+
+		const invited = await coordinator.fetch(post('join', { sessionId: 's1', playerId: 'p2', name: 'Bram', inviteCode: inviteCode.toLowerCase() }));
+		expect(invited.status).toBe(200);
+		// Only the owner is shown the code.
+		expect(await invited.json()).not.toHaveProperty('inviteCode');
+
+		const renewed = await coordinator.fetch(post('moderate', { sessionId: 's1', playerId: 'p1', intent: 'invite' }));
+		const { inviteCode: newCode } = await renewed.json() as { inviteCode: string };
+		expect(newCode).not.toBe(inviteCode);
+		const stale = await coordinator.fetch(post('join', { sessionId: 's1', playerId: 'p3', name: 'Mallory', inviteCode }));
+		expect(stale.status).toBe(403);
+		const full = await coordinator.fetch(post('join', { sessionId: 's1', playerId: 'p3', name: 'Mallory', inviteCode: newCode }));
+		expect(full.status).toBe(409);
+	});
+
+	it('makes the first joiner the owner and lets only them moderate', async () => {
+		const { coordinator } = createCoordinator();
+		await coordinator.fetch(post('join', { sessionId: 's1', playerId: 'p1', name: 'Thia' }));
+		await coordinator.fetch(post('join', { sessionId: 's1', playerId: 'p2', name: 'Bram' }));
+		await coordinator.fetch(post('join', { sessionId: 's1', playerId: 'p3', name: 'Mallory' }));
+
+		const state = await (await coordinator.fetch(new Request('http://internal/state'))).json() as { ownerId: string };
+		expect(state.ownerId).toBe('p1');
+		const mutiny = await coordinator.fetch(post('moderate', { sessionId: 's1', playerId: 'p3', intent: 'kick', target: 'p1' }));
+		expect(mutiny.status).toBe(403);
+		const ending = await coordinator.fetch(post('action', { sessionId: 's1', playerId: 'p3', playerAction: 'end game' }));
+		expect(ending.status).toBe(403);
+
+		const kicked = await coordinator.fetch(post('moderate', { sessionId: 's1', playerId: 'p1', intent: 'kick', target: 'p2' }));
+		const { players } = await kicked.json() as { players: Player[] };
+		expect(players.map(player => player.id)).toEqual(['p1', 'p3']);
+		// A kicked player may come back; a banned one may not.
+		expect((await coordinator.fetch(post('join', { sessionId: 's1', playerId: 'p2', name: 'Bram' }))).status).toBe(200);
+		const banned = await coordinator.fetch(post('moderate', { sessionId: 's1', playerId: 'p1', intent: 'ban', target: 'p3' }));
+		const { inviteCode } = await banned.json() as { inviteCode: string };
+		expect((await coordinator.fetch(post('join', { sessionId: 's1', playerId: 'p3', name: 'Mallory' }))).status).toBe(403);
+		// Coming back under a new ID needs the invite code the ban issued, even in a public session.
+		expect((await coordinator.fetch(post('join', { sessionId: 's1', playerId: 'p3-again', name: 'Mallory' }))).status).toBe(403);
+		expect((await coordinator.fetch(post('join', { sessionId: 's1', playerId: 'p4', name: 'Wren', inviteCode }))).status).toBe(200);
+
+		const transferred = await coordinator.fetch(post('moderate', { sessionId: 's1', playerId: 'p1', intent: 'transfer', target: 'p2' }));
+		expect(await transferred.json()).toMatchObject({ ownerId: 'p2' });
+		const formerOwner = await coordinator.fetch(post('moderate', { sessionId: 's1', playerId: 'p1', intent: 'end' }));
+		expect(formerOwner.status).toBe(403);
+	});
+
+	it('closes the live feed of kicked and banned players', async () => {
+		const socket = { send: vi.fn(), close: vi.fn() };
+		const { coordinator, state } = createCoordinator([socket]);
+		await coordinator.fetch(post('join', { sessionId: 's1', playerId: 'p1', name: 'Thia' }));
+		await coordinator.fetch(post('join', { sessionId: 's1', playerId: 'p2', name: 'Bram' }));
+		await coordinator.fetch(post('join', { sessionId: 's1', playerId: 'p3', name: 'Mallory' }));
+
+		await coordinator.fetch(post('moderate', { sessionId: 's1', playerId: 'p1', intent: 'transfer', target: 'p2' }));
+		expect(socket.close).not.toHaveBeenCalled();
+
+		await coordinator.fetch(post('moderate', { sessionId: 's1', playerId: 'p2', intent: 'kick', target: 'p1' }));
+		expect(state.getWebSockets).toHaveBeenCalledWith('p1');
+		await coordinator.fetch(post('moderate', { sessionId: 's1', playerId: 'p2', intent: 'ban', target: 'p3' }));
+		expect(state.getWebSockets).toHaveBeenCalledWith('p3');
+		expect(socket.close).toHaveBeenCalledTimes(2);
+		expect(socket.close).toHaveBeenCalledWith(4003, 'Removed from the session');
+		// The rest of the table still hears about the removal first.
+		const rosters = sentEvents(socket).filter(event => event.type === 'players');
+		expect(rosters[rosters.length - 1].players.map((player: Player) => player.id)).toEqual(['p2']);
+	});
+
+	it('holds narration for the DM in review mode until they approve it', async () => {
+		const dmSocket = { send: vi.fn() };
+		const { coordinator, state, env: coordinatorEnv } = createCoordinator([dmSocket]);
+		const created = await coordinator.fetch(post('join', { sessionId: 's1', playerId: 'p1', name: 'Thia', settings: { review: true } }));
+		const { token } = await created.json() as { token: string };
+		await coordinator.fetch(post('join', { sessionId: 's1', playerId: 'p2', name: 'Bram' }));
+		coordinatorEnv.AI.run.mockResolvedValueOnce({ response: 'Bram finds a rusty key.\n<effects>[{"type":"item_gained","target":"Bram","item":"rusty key"}]</effects>' });
+
+		const acted = await coordinator.fetch(post('action', { sessionId: 's1', playerId: 'p2', playerAction: 'searches the desk' }));
+		const { pending, draftId, result } = await acted.json() as { pending: boolean; draftId: string; result: null };
+		expect(pending).toBe(true);
+		expect(result).toBeNull();
+		// The table sees the action but not the draft; the draft goes to the DM's sockets only.
+		const published = sentEvents(dmSocket).filter(event => event.type === 'message').map(event => event.message.content);
+		expect(published).toContain('searches the desk');
+		expect(published).not.toContain('Bram finds a rusty key.');
+		expect(state.getWebSockets).toHaveBeenCalledWith('p1');
+		expect(sentEvents(dmSocket).find(event => event.type === 'drafts').drafts[0]).toMatchObject({ id: draftId, playerName: 'Bram', text: 'Bram finds a rusty key.' });
+
+		const drafts = (playerId: string, bearer: string) =>
+			coordinator.fetch(new Request(`http://internal/drafts?playerId=${playerId}`, { headers: { Authorization: `Bearer ${bearer}` } }));
+		expect((await drafts('p1', token)).status).toBe(200);
+		expect((await drafts('p2', token)).status).toBe(403);
+		const hijack = await coordinator.fetch(post('review', { sessionId: 's1', playerId: 'p2', intent: 'approve', draftId }));
+		expect(hijack.status).toBe(403);
+
+		await coordinator.fetch(post('review', { sessionId: 's1', playerId: 'p1', intent: 'edit', draftId, text: 'Bram finds a rusty key under a false bottom.' }));
+		const approved = await coordinator.fetch(post('review', { sessionId: 's1', playerId: 'p1', intent: 'approve', draftId }));
+		const body = await approved.json() as { drafts: unknown[]; state: { players: Player[] } };
+		expect(body.drafts).toEqual([]);
+		expect(body.state.players.find(player => player.id === 'p2')!.inventory.map(item => item.name)).toContain('rusty key');
+		const transcript = await (await coordinator.fetch(new Request('http://internal/state'))).json() as { messages: { content: string }[] };
+		expect(transcript.messages.map(message => message.content)).toContain('Bram finds a rusty key under a false bottom.');
+		expect((await coordinator.fetch(post('review', { sessionId: 's1', playerId: 'p1', intent: 'approve', draftId }))).status).toBe(404);
+	});
+
+	it('regenerates drafts with the same dice and gives rejected turns back', async () => {
+		const { coordinator, env: coordinatorEnv } = createCoordinator();
+		await coordinator.fetch(post('join', { sessionId: 's1', playerId: 'p1', name: 'Thia', settings: { review: true } }));
+		const acted = await coordinator.fetch(post('action', { sessionId: 's1', playerId: 'p1', playerAction: 'I pick the lock, 1d20+5' }));
+		const { draftId } = await acted.json() as { draftId: string };
+
+		coordinatorEnv.AI.run.mockResolvedValueOnce({ response: 'The lock clicks open.' });
+		const regenerated = await coordinator.fetch(post('review', { sessionId: 's1', playerId: 'p1', intent: 'regenerate', draftId }));
+		expect((await regenerated.json() as { drafts: { text: string }[] }).drafts[0].text).toBe('The lock clicks open.');
+		const [first, second] = coordinatorEnv.AI.run.mock.calls.map(([, { messages }]) => messages[1].content as string);
+		const declared = (primer: string) => primer.match(/Player rolls this turn: .*/)![0];
+		expect(declared(second)).toBe(declared(first));
+		expect(second).not.toContain('I pick the lock');
+
+		await coordinator.fetch(post('review', { sessionId: 's1', playerId: 'p1', intent: 'reject', draftId, text: 'The lock is warded; magic is needed.' }));
+		const transcript = await (await coordinator.fetch(new Request('http://internal/state'))).json() as { messages: { actor: string; content: string }[] };
+		expect(transcript.messages[transcript.messages.length - 1]).toMatchObject({ actor: 'DM', content: 'The lock is warded; magic is needed.' });
+		expect(transcript.messages.map(message => message.content)).not.toContain('The lock clicks open.');
+	});
+
+	it('narrates with the model the session was created with', async () => {
+		const { coordinator, env: coordinatorEnv } = createCoordinator();
+		const unavailable = await coordinator.fetch(post('join', { sessionId: 's1', playerId: 'p1', name: 'Thia', settings: { llm: { provider: 'openai', model: 'llama-3-8b' } } }));
+		expect(unavailable.status).toBe(400);
+		const unlisted = await coordinator.fetch(post('join', { sessionId: 's1', playerId: 'p1', name: 'Thia', settings: { llm: { provider: 'workers-ai', model: '@cf/openai/gpt-oss-120b' } } }));
+		expect(await unlisted.json()).toEqual({ error: 'This server does not offer @cf/openai/gpt-oss-120b.' });
+
+		await coordinator.fetch(post('join', { sessionId: 's1', playerId: 'p1', name: 'Thia', settings: { llm: { provider: 'scripted', model: 'offline' } } }));
+		const acted = await coordinator.fetch(post('action', { sessionId: 's1', playerId: 'p1', playerAction: 'I open the door' }));
+		const { result } = await acted.json() as { result: string };
+		expect(result).toContain('The DM notes Thia\'s action ("I open the door")');
+		expect(coordinatorEnv.AI.run).not.toHaveBeenCalled();
+	});
+
+	it('lets the owner undo the last turn, including its dice and damage', async () => {
+		const socket = { send: vi.fn() };
+		const { coordinator, storage, env: coordinatorEnv } = createCoordinator([socket]);
+		await coordinator.fetch(post('join', { sessionId: 's1', playerId: 'p1', name: 'Thia' }));
+		await coordinator.fetch(post('join', { sessionId: 's1', playerId: 'p2', name: 'Bram' }));
+		const hpBefore = (await (await coordinator.fetch(new Request('http://internal/state'))).json() as { players: Player[] }).players[0].hp;
+		coordinatorEnv.AI.run
+			.mockResolvedValueOnce({ response: 'The door is open.' })
+			.mockResolvedValueOnce({ response: 'A dart hits Thia. <effects>[{"type":"damage","target":"Thia","amount":3}]</effects>' });
+		await coordinator.fetch(post('action', { sessionId: 's1', playerId: 'p2', playerAction: 'I open the door' }));
+		const acted = await coordinator.fetch(post('action', { sessionId: 's1', playerId: 'p1', playerAction: 'I search the trap, 1d20+2' }));
+		expect((await acted.json() as { state: { players: Player[] } }).state.players[0].hp).toBe(hpBefore - 3);
+
+		expect((await coordinator.fetch(post('rewind', { sessionId: 's1', playerId: 'p2', intent: 'undo' }))).status).toBe(403);
+		const undone = await coordinator.fetch(post('rewind', { sessionId: 's1', playerId: 'p1', intent: 'undo' }));
+		expect(undone.status).toBe(200);
+		expect((await undone.json() as { state: { players: Player[] } }).state.players[0].hp).toBe(hpBefore);
+		const transcript = await (await coordinator.fetch(new Request('http://internal/state'))).json() as { messages: { seq: number; content: string }[] };
+		const contents = transcript.messages.map(message => message.content);
+		expect(contents[contents.length - 1]).toBe('The door is open.');
+		expect(contents.join('\n')).not.toContain('1d20+2');
+		const rewind = sentEvents(socket).find(event => event.type === 'rewind');
+		expect(rewind).toMatchObject({ intent: 'undo', playerName: 'Thia', seq: transcript.messages[transcript.messages.length - 1].seq + 1 });
+		expect(storage.data.has(`message:${String(rewind.seq).padStart(12, '0')}`)).toBe(false);
+
+		// The turn before can be undone too, until something else happens.
+		await coordinator.fetch(post('roll', { sessionId: 's1', playerId: 'p1', notation: 'd20' }));
+		const blocked = await coordinator.fetch(post('rewind', { sessionId: 's1', playerId: 'p1', intent: 'undo' }));
+		expect(blocked.status).toBe(409);
+	});
+
+	it('rerolls the DM\'s answer with the same dice and keeps the discarded one', async () => {
+		const { coordinator, env: coordinatorEnv } = createCoordinator();
+		await coordinator.fetch(post('join', { sessionId: 's1', playerId: 'p1', name: 'Thia' }));
+		coordinatorEnv.AI.run
+			.mockResolvedValueOnce({ response: 'The lock jams and bites. <effects>[{"type":"damage","target":"Thia","amount":4}]</effects>' })
+			.mockResolvedValueOnce({ response: 'The lock clicks open.' });
+		const acted = await coordinator.fetch(post('action', { sessionId: 's1', playerId: 'p1', playerAction: 'I pick the lock, 1d20+5' }));
+		const { state } = await acted.json() as { state: { players: Player[] } };
+
+		const rerolled = await coordinator.fetch(post('rewind', { sessionId: 's1', playerId: 'p1', intent: 'reroll' }));
+		const body = await rerolled.json() as { result: string; variants: { text: string }[]; state: { players: Player[] } };
+		expect(body.result).toBe('The lock clicks open.');
+		expect(body.variants.map(variant => variant.text)).toEqual(['The lock jams and bites.']);
+		expect(body.state.players[0].hp).toBe(state.players[0].hp + 4);
+		const [first, second] = coordinatorEnv.AI.run.mock.calls.map(([, { messages }]) => messages[1].content as string);
+		const declared = (primer: string) => primer.match(/Player rolls this turn: .*/)![0];
+		expect(declared(second)).toBe(declared(first));
+
+		const transcript = await (await coordinator.fetch(new Request('http://internal/state'))).json() as { messages: { content: string }[] };
+		const contents = transcript.messages.map(message => message.content);
+		expect(contents.slice(-3, -1)).toEqual(['I pick the lock, 1d20+5', expect.stringMatching(/^1d20\+5: /)]);
+		expect(contents[contents.length - 1]).toBe('The lock clicks open.');
+		expect(contents).not.toContain('The lock jams and bites.');
+	});
+
+	it('keeps no checkpoint when the table moves on during a reroll', async () => {
+		const { coordinator, env: coordinatorEnv } = createCoordinator();
+		await coordinator.fetch(post('join', { sessionId: 's1', playerId: 'p1', name: 'Thia' }));
+		coordinatorEnv.AI.run.mockResolvedValueOnce({ response: 'The lock jams.' });
+		await coordinator.fetch(post('action', { sessionId: 's1', playerId: 'p1', playerAction: 'I pick the lock' }));
+
+		let answer!: (value: { response: string }) => void;
+		coordinatorEnv.AI.run.mockReturnValueOnce(new Promise(resolve => { answer = resolve; }));
+		const rerolled = coordinator.fetch(post('rewind', { sessionId: 's1', playerId: 'p1', intent: 'reroll' }));
+		await vi.waitFor(() => expect(coordinatorEnv.AI.run).toHaveBeenCalledTimes(2));
+		expect((await coordinator.fetch(post('roll', { sessionId: 's1', playerId: 'p1', notation: 'd20' }))).status).toBe(200);
+		answer({ response: 'The lock clicks open.' });
+		expect((await rerolled).status).toBe(200);
+
+		// Undoing now would also take back the roll made while the DM was thinking.
+		expect((await coordinator.fetch(post('rewind', { sessionId: 's1', playerId: 'p1', intent: 'undo' }))).status).toBe(409);
+		const transcript = await (await coordinator.fetch(new Request('http://internal/state'))).json() as { messages: { content: string }[] };
+		const contents = transcript.messages.map(message => message.content);
+		expect(contents.slice(-2)).toEqual([expect.stringMatching(/^d20: /), 'The lock clicks open.']);
+	});
+
+	it('exports a campaign and restores it into a new session', async () => {
+		const original = createCoordinator();
+		await original.coordinator.fetch(post('join', { sessionId: 's1', playerId: 'p1', name: 'Thia' }));
+		await original.coordinator.fetch(post('join', { sessionId: 's1', playerId: 'p2', name: 'Bram' }));
+		original.env.AI.run.mockResolvedValueOnce({ response: '## The Ambush\nArrows whistle past.' });
+		await original.coordinator.fetch(post('action', { sessionId: 's1', playerId: 'p1', playerAction: 'I duck' }));
+
+		const markdown = await (await original.coordinator.fetch(new Request('http://internal/export?format=markdown'))).text();
+		expect(markdown).toContain('**Thia:** I duck\n\n## The Ambush\nArrows whistle past.');
+		const exported = await original.coordinator.fetch(new Request('http://internal/export?format=json'));
+		expect(exported.headers.get('Content-Disposition')).toBe('attachment; filename="s1.json"');
+		const archive = await exported.json() as CampaignArchive;
+		expect(archive.messages.map(message => message.seq)).toEqual([1, 2, 3, 4]);
+
+		const { coordinator } = createCoordinator();
+		expect((await coordinator.fetch(post('import', { sessionId: 's2', playerId: 'p3', archive }))).status).toBe(403);
+		const restored = await coordinator.fetch(post('import', { sessionId: 's2', playerId: 'p2', archive }));
+		const body = await restored.json() as { token: string; ownerId: string; importedFrom: string; players: Player[] };
+		expect(body).toMatchObject({ ownerId: 'p2', importedFrom: 's1' });
+		expect(await verifyPlayerToken('test-secret', 's2', 'p2', body.token)).toBe(true);
+		expect(body.players.map(player => player.name)).toEqual(['Thia', 'Bram']);
+		expect((await coordinator.fetch(post('import', { sessionId: 's2', playerId: 'p2', archive }))).status).toBe(409);
+
+		// Thia claims her seat with the token from the session the archive came from.
+		const claim = (token: string) => coordinator.fetch(new Request('http://internal/join', {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+			body: JSON.stringify({ sessionId: 's2', playerId: 'p1', name: 'Thia' }),
+		}));
+		expect((await claim(await signPlayerToken('test-secret', 'elsewhere', 'p1'))).status).toBe(403);
+		const rejoined = await claim(await signPlayerToken('test-secret', 's1', 'p1'));
+		const { messages } = await rejoined.json() as { messages: { seq: number; content: string }[] };
+		expect(messages.map(message => message.content)).toContain('## The Ambush\nArrows whistle past.');
+		expect(messages[messages.length - 1]).toMatchObject({ seq: 5, content: 'Bram restores the campaign from s1. The story continues.' });
+	});
+
+	it('tells sockets to reset when the game ends', async () => {
+		const socket = { send: vi.fn() };
+		const { coordinator, storage } = createCoordinator([socket]);
+
+		await coordinator.fetch(post('join', { sessionId: 's1', playerId: 'p1', name: 'Thia' }));
+		await coordinator.fetch(post('action', { sessionId: 's1', playerId: 'p1', playerAction: 'end game' }));
+
+		expect(sentEvents(socket).some(event => event.type === 'reset')).toBe(true);
+		expect(Array.from(storage.data.keys()).filter(key => key.startsWith('message:'))).toEqual([]);
+	});
+});
+
+describe('SessionRegistry', () => {
+	const createRegistry = async (storage = createStorage()) => {
+		const pending: Promise<unknown>[] = [];
+		const state = { storage, blockConcurrencyWhile: (fn: () => Promise<void>) => pending.push(fn()) };
+		const registry = new SessionRegistry(state as any, {} as Env);
+		await Promise.all(pending);
+		return registry;
+	};
+	const list = async (registry: SessionRegistry, query = '') =>
+		(await (await registry.fetch(new Request(`http://internal/list?${query}`))).json()) as SessionListPage;
+
+	it('migrates bare session IDs and replaces them as listings arrive', async () => {
+		const storage = createStorage();
+		storage.data.set('sessions', ['Dark Quest']);
+		const registry = await createRegistry(storage);
+		expect((await list(registry)).sessions).toMatchObject([{ sessionId: 'Dark Quest', title: 'Dark Quest', playerCount: 0 }]);
+		expect(storage.data.has('sessions')).toBe(false);
+
+		const listing: SessionListing = {
+			sessionId: 'Dark Quest', title: 'Dark Quest', description: '', maxPlayers: 6, visibility: 'public', review: false, llm: null,
+			playerCount: 3, createdAt: 1, lastActivity: Date.now(), inCombat: true, inviteOnly: false,
+		};
+		await registry.fetch(new Request('http://internal/update', { method: 'POST', body: JSON.stringify(listing) }));
+		expect((await list(registry, 'active=true')).sessions).toEqual([listing]);
+
+		// A fresh instance reads the listing back from storage.
+		expect((await list(await createRegistry(storage))).sessions).toEqual([listing]);
+		await registry.fetch(new Request('http://internal/remove', { method: 'POST', body: JSON.stringify({ sessionId: 'Dark Quest' }) }));
+		expect((await list(registry)).total).toBe(0);
+	});
+});
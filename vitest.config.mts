@@ -5,6 +5,8 @@ export default defineWorkersConfig({
 		poolOptions: {
 			workers: {
 				wrangler: { configPath: './wrangler.jsonc' },
+				// Stand-ins for the secrets that .dev.vars or `wrangler secret put` provide outside tests.
+				miniflare: { bindings: { PLAYER_TOKEN_SECRET: 'test-secret', ADMIN_KEY: 'test-admin-key' } },
 			},
 		},
 	},